@@ -0,0 +1,274 @@
+/**
+ * Audit Log
+ * Append-only record of every statement executed on behalf of the orchestrator:
+ * one JSON object per line, rotated by size, optionally mirrored into SQLite.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { PlanNode } from "./connector";
+
+export interface AuditEntry {
+  timestamp: string;
+  requestId?: string;
+  queryId?: string;
+  prompt?: string;
+  tool?: string;
+  databaseType?: string;
+  database?: string;
+  host?: string;
+  query: string | object;
+  params?: any[];
+  durationMs: number;
+  rowCount?: number;
+  truncated?: boolean;
+  totalRowsEstimate?: number | null;
+  suppressedGroups?: number;
+  slow?: boolean;   // ran for at least SLOW_QUERY_MS
+  plan?: PlanNode;  // execution plan of a slow query
+  error?: string;
+}
+
+export interface AuditSearch {
+  from?: string;  // ISO timestamp, inclusive
+  to?: string;    // ISO timestamp, inclusive
+  table?: string; // table / collection referenced by the query
+  text?: string;  // substring of the prompt, query or error
+  slow?: boolean; // only slow queries
+  limit?: number;
+}
+
+interface AuditLogOptions {
+  dir: string;
+  maxBytes: number;  // rotate the active file once it reaches this size
+  maxFiles: number;  // rotated files kept besides the active one
+  sqlitePath?: string;
+}
+
+const ACTIVE_FILE = "audit.jsonl";
+
+export function auditOptionsFromEnv(): AuditLogOptions | undefined {
+  if (process.env.AUDIT_LOG_DISABLED === "true") {
+    return undefined;
+  }
+  return {
+    dir: process.env.AUDIT_LOG_DIR || path.join(os.homedir(), ".celp-mcp", "audit"),
+    maxBytes: process.env.AUDIT_LOG_MAX_BYTES ? parseInt(process.env.AUDIT_LOG_MAX_BYTES, 10) : 10 * 1024 * 1024, // 10 MB
+    maxFiles: process.env.AUDIT_LOG_MAX_FILES ? parseInt(process.env.AUDIT_LOG_MAX_FILES, 10) : 10,
+    sqlitePath: process.env.AUDIT_LOG_SQLITE || undefined,
+  };
+}
+
+function queryText(query: string | object): string {
+  return typeof query === "string" ? query : JSON.stringify(query);
+}
+
+/** Does the SQL (or Mongo query) reference `table`? */
+function referencesTable(query: string | object, table: string): boolean {
+  if (typeof query === "object") {
+    return String((query as any).collection ?? "").toLowerCase() === table.toLowerCase();
+  }
+  const escaped = table.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w$])${escaped}($|[^\\w$])`, "i").test(query.replace(/[`"\[\]]/g, ""));
+}
+
+// Columns added to the SQLite mirror since its first version, as [name, type]
+const SQLITE_ADDED_COLUMNS: Array<[string, string]> = [
+  ["extra", "TEXT"], // JSON of the fields without a column of their own
+  ["slow", "INTEGER"],
+  ["plan", "TEXT"],  // JSON PlanNode of a slow query
+];
+
+/** Entry fields the SQLite mirror has no column for, as JSON (null when there are none). */
+function sqliteExtra(entry: AuditEntry): string | null {
+  const extra = {
+    ...(entry.totalRowsEstimate !== undefined ? { totalRowsEstimate: entry.totalRowsEstimate } : {}),
+    ...(entry.suppressedGroups !== undefined ? { suppressedGroups: entry.suppressedGroups } : {}),
+  };
+  return Object.keys(extra).length ? JSON.stringify(extra) : null;
+}
+
+export class AuditLog {
+  private writes: Promise<void> = Promise.resolve();
+  private sqlite?: any;
+  private sqliteInsert?: any;
+  private sqliteFailed = false;
+
+  constructor(private readonly options: AuditLogOptions) {}
+
+  private get activePath() {
+    return path.join(this.options.dir, ACTIVE_FILE);
+  }
+
+  /**
+   * Append an entry. Writes are serialized so lines never interleave; failures
+   * are reported on stderr rather than failing the query they describe.
+   */
+  record(entry: AuditEntry): Promise<void> {
+    this.writes = this.writes
+      .then(() => this.write(entry))
+      .catch((error) => console.error(`❌ Failed to write audit log entry: ${(error as any).message}`));
+    return this.writes;
+  }
+
+  private async write(entry: AuditEntry) {
+    const line = `${JSON.stringify(entry, (_key, value) => (typeof value === "bigint" ? value.toString() : value))}\n`;
+    await fs.promises.mkdir(this.options.dir, { recursive: true, mode: 0o700 });
+    await this.rotateIfNeeded(Buffer.byteLength(line));
+    // Queries and prompts may be sensitive – keep the file private to the user
+    await fs.promises.appendFile(this.activePath, line, { mode: 0o600 });
+    this.writeSqlite(entry);
+  }
+
+  private async rotateIfNeeded(incoming: number) {
+    const size = await fs.promises.stat(this.activePath).then((stat) => stat.size, () => 0);
+    if (size === 0 || size + incoming <= this.options.maxBytes) {
+      return;
+    }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    await fs.promises.rename(this.activePath, path.join(this.options.dir, `audit-${stamp}.jsonl`));
+
+    const rotated = await this.rotatedFiles();
+    for (const file of rotated.slice(this.options.maxFiles)) {
+      await fs.promises.unlink(path.join(this.options.dir, file)).catch(() => undefined);
+    }
+  }
+
+  /** Rotated file names, newest first (the ISO stamp sorts lexically). */
+  private async rotatedFiles(): Promise<string[]> {
+    const files = await fs.promises.readdir(this.options.dir).catch(() => [] as string[]);
+    return files.filter((file) => /^audit-.+\.jsonl$/.test(file)).sort().reverse();
+  }
+
+  private writeSqlite(entry: AuditEntry) {
+    if (!this.options.sqlitePath || this.sqliteFailed) {
+      return;
+    }
+    try {
+      if (!this.sqlite) {
+        // Optional dependency, only needed when AUDIT_LOG_SQLITE is set
+        const Database = require("better-sqlite3");
+        this.sqlite = new Database(this.options.sqlitePath);
+        this.sqlite.exec(`
+          CREATE TABLE IF NOT EXISTS audit_log (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            timestamp TEXT NOT NULL,
+            request_id TEXT,
+            query_id TEXT,
+            prompt TEXT,
+            tool TEXT,
+            database_type TEXT,
+            database_name TEXT,
+            host TEXT,
+            query TEXT NOT NULL,
+            params TEXT,
+            duration_ms INTEGER,
+            row_count INTEGER,
+            truncated INTEGER,
+            error TEXT
+          );
+          CREATE INDEX IF NOT EXISTS audit_log_timestamp ON audit_log (timestamp);
+        `);
+        // Bring files created by earlier versions up to date
+        const existing = new Set(this.sqlite.prepare("PRAGMA table_info(audit_log)").all().map((column: any) => column.name));
+        for (const [name, type] of SQLITE_ADDED_COLUMNS) {
+          if (!existing.has(name)) this.sqlite.exec(`ALTER TABLE audit_log ADD COLUMN ${name} ${type}`);
+        }
+        this.sqliteInsert = this.sqlite.prepare(`
+          INSERT INTO audit_log (timestamp, request_id, query_id, prompt, tool, database_type, database_name, host, query, params, duration_ms, row_count, truncated, error, extra, slow, plan)
+          VALUES (@timestamp, @requestId, @queryId, @prompt, @tool, @databaseType, @database, @host, @query, @params, @durationMs, @rowCount, @truncated, @error, @extra, @slow, @plan)
+        `);
+      }
+      this.sqliteInsert.run({
+        timestamp: entry.timestamp,
+        requestId: entry.requestId ?? null,
+        queryId: entry.queryId ?? null,
+        prompt: entry.prompt ?? null,
+        tool: entry.tool ?? null,
+        databaseType: entry.databaseType ?? null,
+        database: entry.database ?? null,
+        host: entry.host ?? null,
+        query: queryText(entry.query),
+        params: entry.params ? JSON.stringify(entry.params) : null,
+        durationMs: Math.round(entry.durationMs),
+        rowCount: entry.rowCount ?? null,
+        truncated: entry.truncated === undefined ? null : Number(entry.truncated),
+        error: entry.error ?? null,
+        extra: sqliteExtra(entry),
+        slow: entry.slow === undefined ? null : Number(entry.slow),
+        plan: entry.plan ? JSON.stringify(entry.plan) : null,
+      });
+    } catch (error) {
+      this.sqliteFailed = true;
+      const message = (error as any).code === "MODULE_NOT_FOUND"
+        ? "SQLite driver not found. It is an optional dependency; install it with: npm install better-sqlite3"
+        : (error as any).message;
+      console.error(`❌ Audit log SQLite mirror disabled: ${message}`);
+    }
+  }
+
+  /**
+   * Search the JSONL history (active and rotated files), newest entries first.
+   */
+  async search(filter: AuditSearch = {}): Promise<AuditEntry[]> {
+    await this.writes;
+    const limit = filter.limit ?? 50;
+    const parseTime = (value?: string) => {
+      if (!value) return undefined;
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        throw new Error(`Invalid timestamp: ${value}. Use ISO 8601, e.g. 2025-01-31T12:00:00Z`);
+      }
+      return time;
+    };
+    const from = parseTime(filter.from);
+    const to = parseTime(filter.to);
+    const text = filter.text?.toLowerCase();
+
+    const matches: AuditEntry[] = [];
+    for (const file of [ACTIVE_FILE, ...(await this.rotatedFiles())]) {
+      const content = await fs.promises.readFile(path.join(this.options.dir, file), "utf8").catch(() => "");
+      const lines = content.split("\n").filter(Boolean).reverse();
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue; // a torn final line after a crash
+        }
+        const time = Date.parse(entry.timestamp);
+        if (from !== undefined && time < from) continue;
+        if (to !== undefined && time > to) continue;
+        if (filter.slow && !entry.slow) continue;
+        if (filter.table && !referencesTable(entry.query, filter.table)) continue;
+        if (text && ![entry.prompt, queryText(entry.query), entry.error].some((field) => field?.toLowerCase().includes(text))) continue;
+
+        matches.push(entry);
+        if (matches.length >= limit) {
+          return matches;
+        }
+      }
+    }
+    return matches;
+  }
+
+  async close() {
+    await this.writes;
+    this.sqlite?.close();
+    this.sqlite = undefined;
+  }
+}
+
+// Global audit log, created on first use so .env has been loaded by then
+let auditLog: AuditLog | null | undefined;
+
+/** The audit log configured by AUDIT_LOG_* (undefined when AUDIT_LOG_DISABLED=true). */
+export function getAuditLog(): AuditLog | undefined {
+  if (auditLog === undefined) {
+    const options = auditOptionsFromEnv();
+    auditLog = options ? new AuditLog(options) : null;
+  }
+  return auditLog ?? undefined;
+}
@@ -0,0 +1,319 @@
+import type { ConnectorCfg } from '../index';
+import { withCancellation, DatabaseAdapter, ExecuteOptions } from './registry';
+import type { PlanNode } from '../queryPlan';
+import { loadDatabricksSchemaMap, loadDatabricksIndexes, loadDatabricksTableSizes, loadDatabricksRelationships, loadDatabricksViewDefinition, loadDatabricksFingerprint, loadDatabricksColumnStats } from '../schemaManager';
+
+/* ── Databricks Connection Manager ────────────────────────────────────── */
+interface DatabricksConnection {
+  client: any;
+  connection: any;
+  isConnected: boolean;
+  lastUsed: number;
+  running: number; // statements in flight; never swept as idle while > 0
+  config: ConnectorCfg;
+}
+
+export function getDatabricksHttpPath(cfg: ConnectorCfg): string | undefined {
+  return (cfg.databricksOptions && cfg.databricksOptions.httpPath) || cfg.databricksHttpPath;
+}
+
+export class DatabricksConnectionManager {
+  private connections = new Map<string, DatabricksConnection>();
+  private initializationPromises = new Map<string, Promise<DatabricksConnection>>();
+  private readonly CONNECTION_TIMEOUT = 30000; // 30 seconds
+  private readonly IDLE_TIMEOUT = 300000; // 5 minutes
+  private cleanupInterval?: NodeJS.Timeout;
+
+  constructor() {
+    // Clean up idle connections every minute
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupIdleConnections();
+    }, 60000);
+    // Never keep the process alive just for housekeeping
+    this.cleanupInterval.unref();
+  }
+
+  private getConnectionKey(cfg: ConnectorCfg): string {
+    return `${cfg.host}:${cfg.port || 443}:${cfg.user}:${cfg.database}`;
+  }
+
+  async getConnection(cfg: ConnectorCfg): Promise<DatabricksConnection> {
+    if (cfg.databaseType !== 'databricks') {
+      throw new Error('This method is only for Databricks connections');
+    }
+
+    const key = this.getConnectionKey(cfg);
+    
+    // Check if we already have a connected instance
+    const existing = this.connections.get(key);
+    if (existing && existing.isConnected) {
+      existing.lastUsed = Date.now();
+      return existing;
+    }
+
+    // Check if we're already initializing this connection
+    const initPromise = this.initializationPromises.get(key);
+    if (initPromise) {
+      return await initPromise;
+    }
+
+    // Create new connection
+    const connectionPromise = this.createConnection(cfg, key);
+    this.initializationPromises.set(key, connectionPromise);
+
+    try {
+      const connection = await connectionPromise;
+      this.connections.set(key, connection);
+      return connection;
+    } finally {
+      this.initializationPromises.delete(key);
+    }
+  }
+
+  /**
+   * Record a statement starting (+1) or finishing (-1) on `connection`, the
+   * pooled connection for `cfg`. Both count as use for the idle sweep.
+   */
+  track(cfg: ConnectorCfg, connection: any, delta: 1 | -1) {
+    const existing = this.connections.get(this.getConnectionKey(cfg));
+    if (existing && existing.connection === connection) {
+      existing.running = Math.max(0, existing.running + delta);
+      existing.lastUsed = Date.now();
+    }
+  }
+
+  /** Mark the pooled connection for `cfg` as bad so the next caller reconnects. */
+  invalidate(cfg: ConnectorCfg) {
+    const existing = this.connections.get(this.getConnectionKey(cfg));
+    if (existing) {
+      existing.isConnected = false;
+    }
+  }
+
+  private async createConnection(cfg: ConnectorCfg, key: string): Promise<DatabricksConnection> {
+    console.error(`🔄 Initializing Databricks connection for ${cfg.host}...`);
+    
+    try {
+      // Dynamic import to handle optional Databricks dependency
+      const databricksSql = await import('@databricks/sql');
+      
+      const httpPath = getDatabricksHttpPath(cfg);
+      if (!httpPath) {
+        throw new Error('Missing Databricks httpPath in configuration');
+      }
+
+      console.error(`⚡ Connecting to Databricks warehouse...`);
+      
+      const client = new databricksSql.DBSQLClient();
+      const connection = await Promise.race([
+        client.connect({
+          host: cfg.host,
+          path: httpPath,
+          token: cfg.password, // token stored in password field
+        }),
+        new Promise((_, reject) => 
+          setTimeout(() => reject(new Error('Databricks connection timeout')), this.CONNECTION_TIMEOUT)
+        )
+      ]);
+
+      console.error(`✅ Databricks connection established successfully!`);
+
+      const databricksConnection: DatabricksConnection = {
+        client,
+        connection,
+        isConnected: true,
+        lastUsed: Date.now(),
+        running: 0,
+        config: cfg
+      };
+
+      return databricksConnection;
+    } catch (error) {
+      console.error(`❌ Failed to connect to Databricks: ${(error as any).message}`);
+      if ((error as any).code === 'MODULE_NOT_FOUND') {
+        throw new Error('Databricks SQL driver not found. Please install: npm install @databricks/sql');
+      }
+      throw error;
+    }
+  }
+
+  private async cleanupIdleConnections() {
+    const now = Date.now();
+    
+    for (const [key, connection] of this.connections.entries()) {
+      if (connection.running === 0 && now - connection.lastUsed > this.IDLE_TIMEOUT) {
+        console.error(`🧹 Cleaning up idle Databricks connection: ${key}`);
+        try {
+          await connection.connection.close();
+        } catch (error) {
+          console.warn(`Warning: Error closing idle connection: ${(error as any).message}`);
+        }
+        this.connections.delete(key);
+      }
+    }
+  }
+
+  async closeAll() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+
+    for (const [key, connection] of this.connections.entries()) {
+      try {
+        await connection.connection.close();
+      } catch (error) {
+        console.warn(`Warning: Error closing connection ${key}: ${(error as any).message}`);
+      }
+    }
+    
+    this.connections.clear();
+    this.initializationPromises.clear();
+  }
+}
+
+// Global Databricks connection manager
+export const databricksManager = new DatabricksConnectionManager();
+
+// Rows per fetch round-trip
+const FETCH_BATCH_SIZE = 10000;
+
+/**
+ * Parse the indented physical plan printed by EXPLAIN, e.g.
+ *   HashAggregate(keys=[region#12], functions=[sum(total#15)])
+ *   +- Exchange hashpartitioning(region#12, 200)
+ *      +- FileScan parquet main.sales.orders[region#12,total#15] ... PartitionFilters: [], ...
+ */
+function parsePhysicalPlan(text: string): PlanNode {
+  const start = text.indexOf('== Physical Plan ==');
+  const lines = (start >= 0 ? text.slice(start).split('\n').slice(1) : text.split('\n'))
+    .filter(line => line.trim() && !line.startsWith('=='));
+
+  const root: PlanNode = { nodeType: 'Plan', children: [] };
+  const stack: Array<{ depth: number; node: PlanNode }> = [{ depth: -1, node: root }];
+  for (const line of lines) {
+    // Tree drawing characters and whole-stage codegen markers like "*(2) " precede the operator
+    const depth = line.search(/[^\s:|+\-]/);
+    if (depth < 0) continue;
+    const body = line.slice(depth).replace(/^\*\(\d+\)\s*/, '');
+    const nodeType = body.match(/^[A-Za-z]+/)?.[0];
+    if (!nodeType) continue;
+
+    const scan = body.match(/Scan\s+\w+\s+([\w.`]+)/);
+    const partitionFilters = body.match(/PartitionFilters: \[([^\]]*)\]/);
+    const node: PlanNode = {
+      nodeType,
+      relation: scan?.[1].replace(/`/g, ''),
+      // Without partition filters every file of the table is read
+      fullScan: scan ? !partitionFilters?.[1] : undefined,
+      detail: scan
+        ? body.match(/PushedFilters: \[([^\]]+)\]/)?.[1]
+        : body.slice(nodeType.length).trim().slice(0, 300) || undefined,
+      children: [],
+    };
+
+    while (stack[stack.length - 1].depth >= depth) stack.pop();
+    stack[stack.length - 1].node.children.push(node);
+    stack.push({ depth, node });
+  }
+  return root.children.length === 1 ? root.children[0] : root;
+}
+
+export const databricksAdapter: DatabaseAdapter = {
+  type: 'databricks',
+
+  async connect(cfg: ConnectorCfg) {
+    const { connection } = await databricksManager.getConnection(cfg);
+    return connection;
+  },
+
+  async execute<T = any[]>(connection: any, query: string | object, _params: any[], cfg: ConnectorCfg, options: ExecuteOptions = {}) {
+    let operation: any;
+    databricksManager.track(cfg, connection, 1);
+    try {
+      return await withCancellation(options.signal, () => operation?.cancel(), async () => {
+        const session = await connection.openSession();
+        try {
+          operation = await session.executeStatement(query as string, {
+            runAsync: true,
+            maxRows: Math.min(options.maxRows ? options.maxRows + 1 : FETCH_BATCH_SIZE, FETCH_BATCH_SIZE),
+            // Warehouse-side limit, in whole seconds
+            ...(options.timeoutMs ? { queryTimeout: Math.max(1, Math.ceil(options.timeoutMs / 1000)) } : {}),
+          });
+
+          let result: any[];
+          if (options.maxRows) {
+            // Fetch chunk by chunk and stop as soon as the cap is exceeded
+            const limit = options.maxRows + 1;
+            result = [];
+            while (result.length < limit) {
+              const chunk = await operation.fetchChunk({ maxRows: Math.min(limit - result.length, FETCH_BATCH_SIZE) });
+              result.push(...chunk);
+              if (!(await operation.hasMoreRows())) break;
+            }
+            result = result.slice(0, limit);
+            if (await operation.hasMoreRows()) {
+              // The rest of the result isn't needed
+              await operation.cancel().catch(() => undefined);
+            }
+          } else {
+            result = await operation.fetchAll();
+          }
+          await operation.close();
+          return result as unknown as T;
+        } finally {
+          await session.close();
+        }
+      });
+    } catch (error) {
+      console.error(`❌ Databricks query execution failed: ${(error as any).message}`);
+      if (!options.signal?.aborted) {
+        // Mark connection as potentially bad
+        databricksManager.invalidate(cfg);
+      }
+      throw error;
+    } finally {
+      databricksManager.track(cfg, connection, -1);
+    }
+  },
+
+  async explain(connection, query, params, cfg, options = {}) {
+    // EXPLAIN only plans the statement; Databricks has no structured ANALYZE output
+    const rows = await databricksAdapter.execute<any[]>(connection, `EXPLAIN ${query as string}`, params, cfg, {
+      timeoutMs: options.timeoutMs,
+      signal: options.signal,
+    });
+    return parsePhysicalPlan(String(rows[0]?.plan ?? Object.values(rows[0] ?? {})[0] ?? ''));
+  },
+
+  async loadSchema(connection, cfg, catalog) {
+    await loadDatabricksSchemaMap(connection, cfg.database, cfg, catalog);
+  },
+
+  async loadIndexes(connection, cfg, catalog) {
+    await loadDatabricksIndexes(connection, cfg.database, cfg, catalog);
+  },
+
+  async loadSizes(connection, cfg, catalog, tables) {
+    await loadDatabricksTableSizes(connection, cfg.database, cfg, catalog, tables);
+  },
+
+  async loadRelationships(connection, cfg, catalog) {
+    await loadDatabricksRelationships(connection, cfg.database, cfg, catalog);
+  },
+
+  async loadColumnStats(connection, _cfg, catalog) {
+    await loadDatabricksColumnStats(connection, catalog);
+  },
+
+  async viewDefinition(connection, name) {
+    return loadDatabricksViewDefinition(connection, name);
+  },
+
+  async fingerprint(connection, cfg) {
+    return loadDatabricksFingerprint(connection, cfg.database, cfg);
+  },
+
+  async close() {
+    // Connections are pooled by databricksManager and closed when idle or on shutdown
+  },
+};
@@ -0,0 +1,61 @@
+// Built-in database adapters + plugin loading.
+// Plugin packages export either a DatabaseAdapter (default or `adapter`), an
+// `adapters` array, or a `register(registerAdapter)` function, and are listed
+// comma-separated in CELP_ADAPTER_PLUGINS.
+
+import { registerAdapter, DatabaseAdapter } from './registry';
+import { mysqlAdapter } from './mysql';
+import { postgresAdapter } from './postgres';
+import { mongodbAdapter } from './mongodb';
+import { databricksAdapter } from './databricks';
+
+export * from './registry';
+export { buildMongoConnectionString } from './mongodb';
+export { sqlPoolManager, PoolManager, ConnectionPool, resolvePoolOptions } from './pool';
+export type { PoolOptions, PoolFactory } from './pool';
+export { databricksManager, DatabricksConnectionManager, getDatabricksHttpPath } from './databricks';
+
+for (const adapter of [mysqlAdapter, postgresAdapter, mongodbAdapter, databricksAdapter]) {
+  registerAdapter(adapter);
+}
+
+function isAdapter(value: any): value is DatabaseAdapter {
+  return !!value && typeof value.type === 'string' && typeof value.connect === 'function' && typeof value.execute === 'function';
+}
+
+/**
+ * Require every module named in `specifiers` (defaults to CELP_ADAPTER_PLUGINS)
+ * and register the adapters it exposes. Returns the registered type names.
+ */
+export function loadAdapterPlugins(specifiers: string[] = (process.env.CELP_ADAPTER_PLUGINS || '').split(',')): string[] {
+  const loaded: string[] = [];
+
+  for (const specifier of specifiers.map(s => s.trim()).filter(Boolean)) {
+    let mod: any;
+    try {
+      mod = require(require.resolve(specifier, { paths: [process.cwd(), __dirname] }));
+    } catch (error) {
+      throw new Error(`Failed to load database adapter plugin "${specifier}": ${(error as any).message}`);
+    }
+
+    if (typeof mod?.register === 'function') {
+      mod.register((adapter: DatabaseAdapter) => {
+        registerAdapter(adapter);
+        loaded.push(adapter.type);
+      });
+      continue;
+    }
+
+    const candidates = [mod?.default, mod?.adapter, mod, ...(Array.isArray(mod?.adapters) ? mod.adapters : [])];
+    const adapters = candidates.filter(isAdapter);
+    if (adapters.length === 0) {
+      throw new Error(`Database adapter plugin "${specifier}" does not export a DatabaseAdapter`);
+    }
+    for (const adapter of new Set(adapters)) {
+      registerAdapter(adapter);
+      loaded.push(adapter.type);
+    }
+  }
+
+  return loaded;
+}
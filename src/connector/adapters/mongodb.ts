@@ -0,0 +1,221 @@
+import type { ConnectorCfg, MongoQuery } from '../index';
+import type { DatabaseAdapter, ExecuteOptions } from './registry';
+import type { PlanNode } from '../queryPlan';
+import { loadMongoSchemaMap, loadMongoIndexes, loadMongoCollectionStats, loadMongoRelationships, loadMongoViewDefinition, loadMongoFingerprint, loadMongoColumnStats } from '../schemaManager';
+
+// Add MongoDB connection string builder
+export function buildMongoConnectionString(cfg: ConnectorCfg): string {
+  const { host, port, user, password, database, mongoOptions } = cfg;
+  // If a full connection URL is already provided, use it directly.
+  if (cfg.url) {
+    return cfg.url;
+}
+  
+  let connectionString = 'mongodb://';
+  
+  if (user && password) {
+    connectionString += `${encodeURIComponent(user)}:${encodeURIComponent(password)}@`;
+  }
+  
+  connectionString += `${host}:${port || 27017}/${database}`;
+  
+  if (mongoOptions) {
+    const options = new URLSearchParams();
+    if (mongoOptions.authSource) options.append('authSource', mongoOptions.authSource);
+    if (mongoOptions.ssl) options.append('ssl', mongoOptions.ssl.toString());
+    if (mongoOptions.replicaSet) options.append('replicaSet', mongoOptions.replicaSet);
+    if (mongoOptions.readPreference) options.append('readPreference', mongoOptions.readPreference);
+    if (mongoOptions.maxPoolSize) options.append('maxPoolSize', mongoOptions.maxPoolSize.toString());
+    if (mongoOptions.minPoolSize) options.append('minPoolSize', mongoOptions.minPoolSize.toString());
+    if (mongoOptions.serverSelectionTimeoutMS) options.append('serverSelectionTimeoutMS', mongoOptions.serverSelectionTimeoutMS.toString());
+    if (mongoOptions.socketTimeoutMS) options.append('socketTimeoutMS', mongoOptions.socketTimeoutMS.toString());
+    if (mongoOptions.connectTimeoutMS) options.append('connectTimeoutMS', mongoOptions.connectTimeoutMS.toString());
+    
+    const optionsString = options.toString();
+    if (optionsString) {
+      connectionString += `?${optionsString}`;
+    }
+  }
+  
+  return connectionString;
+}
+
+/** The `explain` command for a MongoQuery. */
+function explainCommand(query: MongoQuery): any {
+  switch (query.operation) {
+    case 'find':
+      return {
+        find: query.collection,
+        filter: query.filter || {},
+        ...(query.sort ? { sort: query.sort } : {}),
+        ...(query.limit ? { limit: query.limit } : {}),
+        ...(query.skip ? { skip: query.skip } : {}),
+      };
+    case 'aggregate':
+      return { aggregate: query.collection, pipeline: query.pipeline || [], cursor: {} };
+    case 'distinct':
+      return { distinct: query.collection, key: query.field, query: query.filter || {} };
+    case 'count':
+      return { count: query.collection, query: query.filter || {} };
+    default:
+      throw new Error(`Unsupported MongoDB operation: ${(query as MongoQuery).operation}`);
+  }
+}
+
+function toPlanNode(stage: any, collection: string): PlanNode {
+  const inputs = stage.inputStage ? [stage.inputStage] : stage.inputStages ?? [];
+  const reads = stage.stage === 'COLLSCAN' || stage.stage === 'IXSCAN' || stage.stage === 'COUNT_SCAN';
+  return {
+    nodeType: stage.stage,
+    relation: reads ? collection : undefined,
+    index: stage.indexName,
+    fullScan: stage.stage === 'COLLSCAN' || undefined,
+    actualRows: stage.nReturned,
+    detail: stage.filter ? JSON.stringify(stage.filter) : undefined,
+    children: inputs.map((input: any) => toPlanNode(input, collection)),
+  };
+}
+
+/** Executed stages when available (executionStats), otherwise the winning plan. */
+function planFromCursor(explain: any, collection: string): PlanNode {
+  const stages = explain.executionStats?.executionStages
+    ?? explain.queryPlanner?.winningPlan?.queryPlan // slot-based engine (5.1+)
+    ?? explain.queryPlanner?.winningPlan;
+  return stages ? toPlanNode(stages, collection) : { nodeType: 'UNKNOWN', relation: collection, children: [] };
+}
+
+function toPlan(explain: any, collection: string): PlanNode {
+  if (!Array.isArray(explain.stages)) {
+    // find / count / distinct, and pipelines the server pushed down entirely
+    return planFromCursor(explain, collection);
+  }
+  // Aggregation stages run one after another; nest each under the next
+  let plan: PlanNode | undefined;
+  for (const stage of explain.stages) {
+    const name = Object.keys(stage).find(key => key.startsWith('$'))!;
+    plan = name === '$cursor'
+      ? planFromCursor(stage.$cursor, collection)
+      : { nodeType: name, actualRows: stage.nReturned, children: plan ? [plan] : [] };
+  }
+  return plan ?? { nodeType: 'UNKNOWN', relation: collection, children: [] };
+}
+
+export const mongodbAdapter: DatabaseAdapter = {
+  type: 'mongodb',
+
+  async connect(cfg: ConnectorCfg) {
+    try {
+      // Dynamic import to handle optional MongoDB dependency
+      const mongodb = await import('mongodb');
+      const client = new mongodb.MongoClient(buildMongoConnectionString(cfg), cfg.mongoOptions as any);
+      await client.connect();
+      return client;
+    } catch (error) {
+      if ((error as any).code === 'MODULE_NOT_FOUND') {
+        throw new Error('MongoDB driver not found. Please install mongodb package: npm install mongodb');
+      }
+      throw error;
+    }
+  },
+
+  async execute<T = any[]>(client: any, query: string | MongoQuery, _params: any[], cfg: ConnectorCfg, options: ExecuteOptions = {}) {
+    if (typeof query !== 'object' || !('operation' in query)) {
+      throw new Error('Invalid MongoDB query format');
+    }
+
+    // maxTimeMS stops the operation server-side; the signal aborts it client-side
+    const limits = {
+      ...(options.timeoutMs ? { maxTimeMS: Math.max(1, Math.floor(options.timeoutMs)) } : {}),
+      ...(options.signal ? { signal: options.signal } : {}),
+    };
+
+    const collection = client.db(cfg.database).collection(query.collection);
+    switch (query.operation) {
+      case 'find': {
+        const findCursor = collection.find(query.filter || {}, { ...query.options, ...limits });
+        if (query.sort) findCursor.sort(query.sort);
+        const limit = options.maxRows ? Math.min(query.limit || Infinity, options.maxRows + 1) : query.limit;
+        if (limit) findCursor.limit(limit);
+        if (query.skip) findCursor.skip(query.skip);
+        return await findCursor.toArray() as unknown as T;
+      }
+
+      case 'aggregate': {
+        // A trailing $limit lets the server stop producing documents at the cap
+        const pipeline = [...(query.pipeline || []), ...(options.maxRows ? [{ $limit: options.maxRows + 1 }] : [])];
+        return await collection.aggregate(pipeline, { ...query.options, ...limits }).toArray() as unknown as T;
+      }
+
+      case 'distinct':
+        return await collection.distinct(query.field!, query.filter || {}, limits) as unknown as T;
+
+      case 'count': {
+        const count = await collection.countDocuments(query.filter || {}, { ...query.options, ...limits });
+        return [{ count }] as unknown as T;
+      }
+
+      default:
+        throw new Error(`Unsupported MongoDB operation: ${(query as MongoQuery).operation}`);
+    }
+  },
+
+  async estimateRows(client, query, _params, cfg) {
+    if (typeof query !== 'object' || query.operation !== 'find') {
+      return null;
+    }
+    const collection = client.db(cfg.database).collection(query.collection);
+    return await collection.countDocuments(query.filter || {}, {
+      ...(query.skip ? { skip: query.skip } : {}),
+      ...(query.limit ? { limit: query.limit } : {}),
+      maxTimeMS: 10000,
+    });
+  },
+
+  async explain(client, query, _params, cfg, options = {}) {
+    if (typeof query !== 'object' || !('operation' in query)) {
+      throw new Error('Invalid MongoDB query format');
+    }
+    // executionStats runs the query plan to completion (maxTimeMS bounds it); queryPlanner only plans
+    const explain = await client.db(cfg.database).command(
+      {
+        explain: explainCommand(query),
+        verbosity: options.analyze ? 'executionStats' : 'queryPlanner',
+        ...(options.timeoutMs ? { maxTimeMS: Math.max(1, Math.floor(options.timeoutMs)) } : {}),
+      },
+      options.signal ? { signal: options.signal } : {}
+    );
+    return toPlan(explain, query.collection);
+  },
+
+  async loadSchema(client, cfg, catalog) {
+    await loadMongoSchemaMap(client, cfg.database, catalog);
+  },
+
+  async loadIndexes(client, cfg, catalog) {
+    await loadMongoIndexes(client, cfg.database, catalog);
+  },
+
+  async loadSizes(client, cfg, catalog, tables) {
+    await loadMongoCollectionStats(client, cfg.database, catalog, tables);
+  },
+
+  async loadRelationships(client, cfg, catalog) {
+    await loadMongoRelationships(client, cfg.database, catalog);
+  },
+
+  async loadColumnStats(client, cfg, catalog) {
+    await loadMongoColumnStats(client, cfg.database, catalog);
+  },
+
+  async viewDefinition(client, name, cfg) {
+    return loadMongoViewDefinition(client, cfg.database, name);
+  },
+
+  async fingerprint(client, cfg) {
+    return loadMongoFingerprint(client, cfg.database);
+  },
+
+  async close(client) {
+    await client.close();
+  },
+};
@@ -0,0 +1,221 @@
+import mysql from 'mysql2/promise';
+import type { ConnectorCfg } from '../index';
+import type { ColumnMeta } from '../resultGuard';
+import type { PlanNode } from '../queryPlan';
+import { withCancellation, DatabaseAdapter, ExecuteOptions } from './registry';
+import { sqlPoolManager } from './pool';
+import { loadMysqlSchemaMap, loadMysqlIndexes, loadMysqlTableSizes, loadMysqlRelationships, loadMysqlViewDefinition, loadMysqlFingerprint, loadMysqlColumnStats } from '../schemaManager';
+
+async function openConnection(cfg: ConnectorCfg): Promise<mysql.Connection> {
+  const conn = await mysql.createConnection({
+    host: cfg.host,
+    port: cfg.port || 3306,
+    user: cfg.user,
+    password: cfg.password,
+    database: cfg.database,
+  });
+  // A dropped idle connection must not crash the process – discard it on next release
+  conn.on('error', () => sqlPoolManager.markBroken(conn));
+  conn.on('end', () => sqlPoolManager.markBroken(conn));
+  return conn;
+}
+
+/** Ask the server to abort the statement `conn` is running, via a side connection. */
+async function killQuery(cfg: ConnectorCfg, conn: mysql.Connection) {
+  const threadId = conn.threadId;
+  if (!threadId) return;
+  const killer = await openConnection(cfg);
+  try {
+    await killer.query(`KILL QUERY ${Number(threadId)}`);
+  } finally {
+    await killer.end();
+  }
+}
+
+function toColumns(fields: mysql.FieldPacket[] = []): ColumnMeta[] {
+  // mysql2's Types maps protocol type codes to names (LONG, VAR_STRING, ...)
+  const typeNames = (mysql as any).Types as Record<number, string>;
+  return fields.map(field => ({ name: field.name, type: typeNames[field.columnType ?? field.type!]?.toLowerCase() }));
+}
+
+async function runStatement(conn: mysql.Connection, sql: string, params: any[], cfg: ConnectorCfg, options: ExecuteOptions) {
+  if (!options.maxRows) {
+    const [rows, fields] = await conn.query(sql, params);
+    options.onColumns?.(toColumns(fields as mysql.FieldPacket[]));
+    return rows;
+  }
+
+  // Stream the rows and stop the server as soon as the cap is exceeded
+  return await new Promise<any[]>((resolve, reject) => {
+    const rows: any[] = [];
+    let capped = false;
+    const stream = (conn as any).connection.query(sql, params);
+    stream.on('fields', (fields: mysql.FieldPacket[]) => options.onColumns?.(toColumns(fields)));
+    stream.on('result', (row: any) => {
+      if (rows.length <= options.maxRows!) {
+        rows.push(row);
+        return;
+      }
+      if (!capped) {
+        capped = true;
+        // A late KILL could hit the session's next statement – don't reuse it
+        sqlPoolManager.markBroken(conn);
+        killQuery(cfg, conn).catch((error) =>
+          console.warn(`Warning: Failed to stop truncated query: ${(error as any).message}`)
+        );
+      }
+    });
+    // Once capped, the interrupted-query error is expected
+    stream.on('error', (error: Error) => (capped ? resolve(rows) : reject(error)));
+    stream.on('end', () => resolve(rows));
+  });
+}
+
+// EXPLAIN access types, from https://dev.mysql.com/doc/refman/8.0/en/explain-output.html#explain-join-types
+const ACCESS_TYPES: Record<string, string> = {
+  ALL: 'Full Table Scan',
+  index: 'Full Index Scan',
+  range: 'Index Range Scan',
+  ref: 'Index Lookup',
+  eq_ref: 'Unique Index Lookup',
+  const: 'Constant Lookup',
+  system: 'Constant Lookup',
+  fulltext: 'Fulltext Index Lookup',
+  index_merge: 'Index Merge',
+};
+
+// Operations wrapping part of a query block in EXPLAIN FORMAT=JSON
+const BLOCK_OPERATIONS: Record<string, string> = {
+  ordering_operation: 'Sort',
+  grouping_operation: 'Group',
+  duplicates_removal: 'Distinct',
+  windowing: 'Window',
+};
+
+const number = (value: any) => (value === undefined || value === null || value === '' ? undefined : Number(value));
+
+function planBlock(block: any): PlanNode {
+  return { nodeType: 'Query Block', cost: number(block?.cost_info?.query_cost), children: planChildren(block) };
+}
+
+function planChildren(block: any): PlanNode[] {
+  const nodes: PlanNode[] = [];
+  for (const [key, value] of Object.entries<any>(block ?? {})) {
+    if (key === 'table') {
+      nodes.push(planTable(value));
+    } else if (key === 'nested_loop') {
+      nodes.push({ nodeType: 'Nested Loop', children: value.flatMap(planChildren) });
+    } else if (key === 'union_result') {
+      nodes.push({ nodeType: 'Union', children: (value.query_specifications ?? []).map((spec: any) => planBlock(spec.query_block)) });
+    } else if (key in BLOCK_OPERATIONS) {
+      nodes.push({ nodeType: BLOCK_OPERATIONS[key], children: planChildren(value) });
+    } else if (Array.isArray(value) && key.endsWith('_subqueries')) {
+      nodes.push(...value.map((subquery: any) => planBlock(subquery.query_block)));
+    }
+  }
+  return nodes;
+}
+
+function planTable(table: any): PlanNode {
+  return {
+    nodeType: ACCESS_TYPES[table.access_type] ?? table.access_type ?? 'Table',
+    relation: table.table_name,
+    index: table.key,
+    fullScan: table.access_type === 'ALL' || undefined,
+    estimatedRows: number(table.rows_examined_per_scan),
+    cost: number(table.cost_info?.prefix_cost),
+    detail: table.attached_condition,
+    children: [
+      ...(table.materialized_from_subquery ? [planBlock(table.materialized_from_subquery.query_block)] : []),
+      ...(table.attached_subqueries ?? []).map((subquery: any) => planBlock(subquery.query_block)),
+    ],
+  };
+}
+
+export const mysqlAdapter: DatabaseAdapter<mysql.Connection> = {
+  type: 'mysql',
+
+  async connect(cfg: ConnectorCfg) {
+    return await sqlPoolManager.acquire(cfg, {
+      create: () => openConnection(cfg),
+      destroy: (conn) => conn.end(),
+    });
+  },
+
+  async execute<T = any[]>(conn: mysql.Connection, query: string | object, params: any[] = [], cfg: ConnectorCfg, options: ExecuteOptions = {}) {
+    const { readOnly, timeoutMs, signal } = options;
+
+    return await withCancellation(signal, () => killQuery(cfg, conn), async () => {
+      if (timeoutMs) {
+        // MySQL 5.7.8+; other servers rely on the connector's cancellation backstop
+        await conn.query(`SET SESSION max_execution_time = ${Math.max(1, Math.floor(timeoutMs))}`).catch(() => undefined);
+      }
+      try {
+        if (!readOnly) {
+          return await runStatement(conn, query as string, params, cfg, options) as unknown as T;
+        }
+
+        await conn.query('START TRANSACTION READ ONLY');
+        try {
+          return await runStatement(conn, query as string, params, cfg, options) as unknown as T;
+        } finally {
+          // Nothing to commit – always roll back so the pooled connection is clean
+          await conn.query('ROLLBACK').catch(() => sqlPoolManager.markBroken(conn));
+        }
+      } finally {
+        if (timeoutMs) {
+          await conn.query('SET SESSION max_execution_time = DEFAULT').catch(() => undefined);
+        }
+      }
+    });
+  },
+
+  async estimateRows(conn, query, params) {
+    // Optimizer estimate of rows examined per table; the largest is a rough upper bound for simple queries
+    const [plan] = await conn.query(`EXPLAIN ${query as string}`, params);
+    const estimates = (plan as any[]).map(step => Number(step.rows)).filter(Number.isFinite);
+    return estimates.length ? Math.max(...estimates) : null;
+  },
+
+  async explain(conn, query, params, cfg, options = {}) {
+    // FORMAT=JSON has optimizer estimates only; `analyze` needs the TREE format, which isn't structured
+    const rows = await mysqlAdapter.execute<any[]>(conn, `EXPLAIN FORMAT=JSON ${query as string}`, params, cfg, {
+      readOnly: true,
+      timeoutMs: options.timeoutMs,
+      signal: options.signal,
+    });
+    return planBlock(JSON.parse(rows[0].EXPLAIN).query_block);
+  },
+
+  async loadSchema(conn, cfg, catalog) {
+    await loadMysqlSchemaMap(conn, cfg.database, catalog);
+  },
+
+  async loadIndexes(conn, cfg, catalog) {
+    await loadMysqlIndexes(conn, cfg.database, catalog);
+  },
+
+  async loadSizes(conn, cfg, catalog) {
+    await loadMysqlTableSizes(conn, cfg.database, catalog);
+  },
+
+  async loadRelationships(conn, cfg, catalog) {
+    await loadMysqlRelationships(conn, cfg.database, catalog);
+  },
+
+  async loadColumnStats(conn, cfg, catalog) {
+    await loadMysqlColumnStats(conn, cfg.database, catalog);
+  },
+
+  async viewDefinition(conn, name, cfg) {
+    return loadMysqlViewDefinition(conn, cfg.database, name);
+  },
+
+  async fingerprint(conn, cfg) {
+    return loadMysqlFingerprint(conn, cfg.database);
+  },
+
+  async close(conn) {
+    await sqlPoolManager.release(conn);
+  },
+};
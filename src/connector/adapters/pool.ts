@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import type { ConnectorCfg } from '../index';
+
+/* ── Generic connection pool for driver connections ─────────────────── */
+export interface PoolOptions {
+  min: number;             // connections kept warm even when idle
+  max: number;             // hard cap on open connections per pool
+  idleTimeoutMs: number;   // idle connections above `min` are closed after this
+  acquireTimeoutMs: number;
+}
+
+export interface PoolFactory<T> {
+  create(): Promise<T>;
+  destroy(conn: T): Promise<void>;
+}
+
+interface IdleEntry<T> {
+  conn: T;
+  idleSince: number;
+}
+
+interface Waiter<T> {
+  resolve: (conn: T) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export function resolvePoolOptions(cfg: ConnectorCfg): PoolOptions {
+  const env = (name: string, fallback: number) =>
+    process.env[name] ? parseInt(process.env[name]!, 10) : fallback;
+
+  const max = Math.max(1, cfg.pool?.max ?? env('DB_POOL_MAX', 10));
+  return {
+    min: Math.min(max, Math.max(0, cfg.pool?.min ?? env('DB_POOL_MIN', 0))),
+    max,
+    idleTimeoutMs: cfg.pool?.idleTimeoutMs ?? env('DB_POOL_IDLE_TIMEOUT_MS', 300000), // 5 minutes
+    acquireTimeoutMs: cfg.pool?.acquireTimeoutMs ?? env('DB_POOL_ACQUIRE_TIMEOUT_MS', 30000), // 30 seconds
+  };
+}
+
+export class ConnectionPool<T extends object> {
+  private idle: IdleEntry<T>[] = [];
+  private inUse = new Set<T>();
+  private broken = new WeakSet<T>();
+  private waiters: Waiter<T>[] = [];
+  private pending = 0;
+  private closed = false;
+
+  constructor(
+    readonly name: string,
+    private readonly factory: PoolFactory<T>,
+    readonly options: PoolOptions
+  ) {}
+
+  get size(): number {
+    return this.idle.length + this.inUse.size + this.pending;
+  }
+
+  async acquire(): Promise<T> {
+    if (this.closed) {
+      throw new Error(`Connection pool ${this.name} is closed`);
+    }
+
+    let entry: IdleEntry<T> | undefined;
+    while ((entry = this.idle.pop())) {
+      if (this.broken.has(entry.conn)) {
+        await this.destroy(entry.conn);
+        continue;
+      }
+      this.inUse.add(entry.conn);
+      return entry.conn;
+    }
+
+    if (this.size < this.options.max) {
+      const conn = await this.open();
+      this.inUse.add(conn);
+      return conn;
+    }
+
+    // Pool exhausted – wait for a release
+    return await new Promise<T>((resolve, reject) => {
+      const waiter: Waiter<T> = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new Error(`Timed out after ${this.options.acquireTimeoutMs}ms waiting for a connection from ${this.name}`));
+        }, this.options.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /** Return a connection. Broken connections (driver error / end) are destroyed instead. */
+  async release(conn: T): Promise<void> {
+    if (!this.inUse.delete(conn)) return;
+
+    if (this.closed || this.broken.has(conn)) {
+      await this.destroy(conn);
+      this.dispatch();
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.inUse.add(conn);
+      waiter.resolve(conn);
+      return;
+    }
+
+    this.idle.push({ conn, idleSince: Date.now() });
+  }
+
+  /** Flag a connection so release() discards it rather than reusing it. */
+  markBroken(conn: T) {
+    this.broken.add(conn);
+  }
+
+  /** Open connections until `min` is reached. Failures are logged, not thrown. */
+  async warmup(): Promise<void> {
+    while (!this.closed && this.size < this.options.min) {
+      try {
+        const conn = await this.open();
+        this.idle.push({ conn, idleSince: Date.now() });
+      } catch (error) {
+        console.warn(`Warning: Error warming up ${this.name}: ${(error as any).message}`);
+        return;
+      }
+    }
+  }
+
+  async evictIdle(now = Date.now()): Promise<void> {
+    const evictable = this.idle.filter(entry => now - entry.idleSince > this.options.idleTimeoutMs);
+    for (const entry of evictable) {
+      if (this.size <= this.options.min) break;
+      this.idle = this.idle.filter(e => e !== entry);
+      await this.destroy(entry.conn);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error(`Connection pool ${this.name} is closed`));
+    }
+    this.waiters = [];
+
+    const idle = this.idle;
+    this.idle = [];
+    await Promise.all(idle.map(entry => this.destroy(entry.conn)));
+    // In-use connections are destroyed as they are released
+  }
+
+  private async open(): Promise<T> {
+    this.pending++;
+    try {
+      return await this.factory.create();
+    } finally {
+      this.pending--;
+    }
+  }
+
+  private async destroy(conn: T) {
+    try {
+      await this.factory.destroy(conn);
+    } catch (error) {
+      console.warn(`Warning: Error closing pooled connection in ${this.name}: ${(error as any).message}`);
+    }
+  }
+
+  /** A slot was freed – open a fresh connection for the next waiter, if any. */
+  private dispatch() {
+    const waiter = this.waiters.shift();
+    if (!waiter) return;
+    clearTimeout(waiter.timer);
+    this.open().then(
+      conn => {
+        this.inUse.add(conn);
+        waiter.resolve(conn);
+      },
+      error => waiter.reject(error)
+    );
+  }
+}
+
+/* ── Pool manager keyed by connection identity ─────────────────────── */
+export class PoolManager {
+  private pools = new Map<string, ConnectionPool<any>>();
+  private owners = new WeakMap<object, ConnectionPool<any>>();
+  private servers = new Map<string, string>(); // pool key → host:port its connections go to
+  private cleanupInterval?: NodeJS.Timeout;
+
+  constructor() {
+    // Evict idle connections every minute
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupIdleConnections();
+    }, 60000);
+    this.cleanupInterval.unref();
+  }
+
+  static getPoolKey(cfg: ConnectorCfg): string {
+    // Hash the password so it never appears in log lines that print the key
+    const secret = crypto.createHash('sha256').update(cfg.password || '').digest('hex').slice(0, 12);
+    return `${cfg.databaseType}:${cfg.host}:${cfg.port ?? ''}:${cfg.user}:${cfg.database}:${secret}`;
+  }
+
+  async acquire<T extends object>(cfg: ConnectorCfg, factory: PoolFactory<T>): Promise<T> {
+    const key = PoolManager.getPoolKey(cfg);
+    let pool = this.pools.get(key) as ConnectionPool<T> | undefined;
+    if (!pool) {
+      const created: ConnectionPool<T> = new ConnectionPool<T>(
+        `${cfg.databaseType}://${cfg.host}/${cfg.database}`,
+        {
+          create: async () => {
+            const conn = await factory.create();
+            this.owners.set(conn, created);
+            return conn;
+          },
+          destroy: (conn) => factory.destroy(conn),
+        },
+        resolvePoolOptions(cfg)
+      );
+      this.pools.set(key, created);
+      this.servers.set(key, `${cfg.host}:${cfg.port ?? ''}`);
+      created.warmup();
+      pool = created;
+    }
+
+    return await pool.acquire();
+  }
+
+  async release(conn: object): Promise<void> {
+    const pool = this.owners.get(conn);
+    if (pool) {
+      await pool.release(conn);
+    }
+  }
+
+  markBroken(conn: object) {
+    this.owners.get(conn)?.markBroken(conn);
+  }
+
+  /** Close the pools whose connections go to host:port, e.g. the local port of a closed SSH tunnel. */
+  async closeServer(host: string, port: number) {
+    for (const [key, server] of this.servers.entries()) {
+      if (server !== `${host}:${port}`) continue;
+      const pool = this.pools.get(key);
+      this.pools.delete(key);
+      this.servers.delete(key);
+      try {
+        await pool?.close();
+      } catch (error) {
+        console.warn(`Warning: Error closing pool ${key}: ${(error as any).message}`);
+      }
+    }
+  }
+
+  private async cleanupIdleConnections() {
+    for (const pool of this.pools.values()) {
+      await pool.evictIdle();
+    }
+  }
+
+  async closeAll() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+
+    for (const [key, pool] of this.pools.entries()) {
+      try {
+        await pool.close();
+      } catch (error) {
+        console.warn(`Warning: Error closing pool ${key}: ${(error as any).message}`);
+      }
+    }
+
+    this.pools.clear();
+    this.servers.clear();
+  }
+}
+
+// Global pool manager shared by the postgres and mysql adapters
+export const sqlPoolManager = new PoolManager();
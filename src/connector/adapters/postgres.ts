@@ -0,0 +1,183 @@
+import pg from 'pg';
+import Cursor from 'pg-cursor';
+import type { ConnectorCfg } from '../index';
+import type { ColumnMeta } from '../resultGuard';
+import type { PlanNode } from '../queryPlan';
+import { withCancellation, DatabaseAdapter, ExecuteOptions } from './registry';
+import { sqlPoolManager } from './pool';
+import { loadAllPostgresSchemas, loadAllPostgresIndexes, loadAllPostgresTableSizes, loadAllPostgresRelationships, loadPostgresViewDefinition, loadPostgresFingerprint, loadPostgresColumnStats } from '../schemaManager';
+
+async function openClient(cfg: ConnectorCfg): Promise<pg.Client> {
+  // Explicit cfg flag wins, otherwise honour PG_DISABLE_SSL from the environment
+  const pgDisableSsl = cfg.pgDisableSsl ?? process.env.PG_DISABLE_SSL === 'true';
+
+  const client = new pg.Client({
+    host: cfg.host,
+    port: cfg.port || 5432,
+    user: cfg.user,
+    password: cfg.password,
+    database: cfg.database,
+    ...(pgDisableSsl
+      ? {}
+      : { ssl: { rejectUnauthorized: false } }),
+  } as any);
+  // A dropped idle connection must not crash the process – discard it on next release
+  client.on('error', () => sqlPoolManager.markBroken(client));
+  client.on('end', () => sqlPoolManager.markBroken(client));
+  await client.connect();
+  return client;
+}
+
+/** Ask the server to cancel whatever `conn` is running, via a side connection. */
+async function cancelBackend(cfg: ConnectorCfg, conn: pg.Client) {
+  const pid = (conn as any).processID;
+  if (!pid) return;
+  const canceller = await openClient(cfg);
+  try {
+    await canceller.query('SELECT pg_cancel_backend($1)', [pid]);
+  } finally {
+    await canceller.end();
+  }
+}
+
+// Result columns carry type OIDs; map the built-in ones back to their names
+const typeNames = new Map<number, string>(
+  Object.entries(pg.types.builtins).map(([name, oid]) => [oid as number, name.toLowerCase()])
+);
+
+function toColumns(fields: pg.FieldDef[] = []): ColumnMeta[] {
+  return fields.map(field => ({ name: field.name, type: typeNames.get(field.dataTypeID) ?? String(field.dataTypeID) }));
+}
+
+async function runStatement(conn: pg.Client, sql: string, params: any[], options: ExecuteOptions) {
+  if (!options.maxRows) {
+    const { rows, fields } = await conn.query(sql, params);
+    options.onColumns?.(toColumns(fields));
+    return rows;
+  }
+
+  // A portal-backed cursor only transfers the rows we keep
+  const cursor = conn.query(new Cursor(sql, params));
+  try {
+    const { rows, fields } = await new Promise<{ rows: any[]; fields: pg.FieldDef[] }>((resolve, reject) => {
+      cursor.read(options.maxRows! + 1, (error, rows, result) =>
+        error ? reject(error) : resolve({ rows, fields: result?.fields ?? [] })
+      );
+    });
+    options.onColumns?.(toColumns(fields));
+    return rows;
+  } finally {
+    await cursor.close();
+  }
+}
+
+// Keys holding a plan node's condition, most specific first
+const PLAN_CONDITIONS = ['Index Cond', 'Hash Cond', 'Merge Cond', 'Join Filter', 'Recheck Cond', 'Filter'];
+
+function toPlanNode(plan: any): PlanNode {
+  return {
+    nodeType: plan['Node Type'],
+    relation: plan['Relation Name'],
+    index: plan['Index Name'],
+    fullScan: plan['Node Type'] === 'Seq Scan' || undefined,
+    estimatedRows: plan['Plan Rows'],
+    // Actual Rows is per loop
+    actualRows: plan['Actual Rows'] !== undefined ? plan['Actual Rows'] * (plan['Actual Loops'] ?? 1) : undefined,
+    cost: plan['Total Cost'],
+    detail: PLAN_CONDITIONS.map(key => plan[key]).find(Boolean),
+    children: (plan.Plans ?? []).map(toPlanNode),
+  };
+}
+
+export const postgresAdapter: DatabaseAdapter<pg.Client> = {
+  type: 'postgres',
+
+  async connect(cfg: ConnectorCfg) {
+    return await sqlPoolManager.acquire(cfg, {
+      create: () => openClient(cfg),
+      destroy: (client) => client.end(),
+    });
+  },
+
+  async execute<T = any[]>(conn: pg.Client, query: string | object, params: any[] = [], cfg: ConnectorCfg, options: ExecuteOptions = {}) {
+    const { readOnly, timeoutMs, signal } = options;
+
+    return await withCancellation(signal, () => cancelBackend(cfg, conn), async () => {
+      if (!readOnly && !timeoutMs) {
+        return await runStatement(conn, query as string, params, options) as unknown as T;
+      }
+
+      await conn.query('BEGIN');
+      let committed = false;
+      try {
+        if (readOnly) {
+          await conn.query('SET TRANSACTION READ ONLY');
+        }
+        if (timeoutMs) {
+          // SET LOCAL scopes the limit to this transaction, leaving the pooled session untouched
+          await conn.query(`SET LOCAL statement_timeout = ${Math.max(1, Math.floor(timeoutMs))}`);
+        }
+        const rows = await runStatement(conn, query as string, params, options);
+        if (!readOnly) {
+          await conn.query('COMMIT');
+          committed = true;
+        }
+        return rows as unknown as T;
+      } finally {
+        if (!committed) {
+          // Nothing to commit – always roll back so the pooled connection is clean
+          await conn.query('ROLLBACK').catch(() => sqlPoolManager.markBroken(conn));
+        }
+      }
+    });
+  },
+
+  async estimateRows(conn, query, params) {
+    // Planner estimate only – EXPLAIN without ANALYZE doesn't run the statement
+    const { rows } = await conn.query(`EXPLAIN (FORMAT JSON) ${query as string}`, params);
+    const plan = rows[0]?.['QUERY PLAN']?.[0]?.Plan;
+    return typeof plan?.['Plan Rows'] === 'number' ? plan['Plan Rows'] : null;
+  },
+
+  async explain(conn, query, params, cfg, options = {}) {
+    // ANALYZE executes the statement – keep it in a read-only transaction under the timeout
+    const rows = await postgresAdapter.execute<any[]>(conn, `EXPLAIN (FORMAT JSON${options.analyze ? ', ANALYZE' : ''}) ${query as string}`, params, cfg, {
+      readOnly: true,
+      timeoutMs: options.timeoutMs,
+      signal: options.signal,
+    });
+    return toPlanNode(rows[0]['QUERY PLAN'][0].Plan);
+  },
+
+  async loadSchema(conn, cfg, catalog) {
+    await loadAllPostgresSchemas(conn, cfg.database, catalog);
+  },
+
+  async loadIndexes(conn, _cfg, catalog) {
+    await loadAllPostgresIndexes(conn, catalog);
+  },
+
+  async loadSizes(conn, _cfg, catalog) {
+    await loadAllPostgresTableSizes(conn, catalog);
+  },
+
+  async loadRelationships(conn, _cfg, catalog) {
+    await loadAllPostgresRelationships(conn, catalog);
+  },
+
+  async loadColumnStats(conn, _cfg, catalog) {
+    await loadPostgresColumnStats(conn, catalog);
+  },
+
+  async viewDefinition(conn, name) {
+    return loadPostgresViewDefinition(conn, name);
+  },
+
+  async fingerprint(conn) {
+    return loadPostgresFingerprint(conn);
+  },
+
+  async close(conn) {
+    await sqlPoolManager.release(conn);
+  },
+};
@@ -0,0 +1,119 @@
+/**
+ * Database Adapter Registry
+ * Every engine the connector can talk to is described by a DatabaseAdapter and
+ * looked up by `ConnectorCfg.databaseType`. The four built-in engines register
+ * themselves from ./index; plugin packages call registerAdapter() the same way.
+ */
+
+import type { ConnectorCfg, MongoQuery } from '../index';
+import type { ColumnMeta } from '../resultGuard';
+import type { ExplainOptions, PlanNode } from '../queryPlan';
+import type { MetadataFingerprint, SchemaCatalog } from '../schemaManager';
+
+export interface ExecuteOptions {
+  /**
+   * Statement was requested by the remote orchestrator: the connector has already
+   * run the read-only guard, and adapters should execute it in a read-only transaction.
+   */
+  readOnly?: boolean;
+  /** Per-statement limit applied natively by the engine (statement_timeout, maxTimeMS, ...). */
+  timeoutMs?: number;
+  /** Aborted when the caller goes away; adapters must cancel the in-flight statement server-side. */
+  signal?: AbortSignal;
+  /**
+   * Row cap: stop fetching after `maxRows + 1` rows so the connector can tell the
+   * result was truncated, and cancel whatever the engine would still send.
+   */
+  maxRows?: number;
+  /** Called with the result columns when the driver reports them. */
+  onColumns?: (columns: ColumnMeta[]) => void;
+}
+
+export interface DatabaseAdapter<TConn = any> {
+  /** Value of `ConnectorCfg.databaseType` handled by this adapter. */
+  readonly type: string;
+  /** Open a driver-level connection (or borrow one from a pool). */
+  connect(cfg: ConnectorCfg): Promise<TConn>;
+  /** Run a single statement / Mongo query and return its rows. */
+  execute<T = any[]>(conn: TConn, query: string | MongoQuery, params: any[], cfg: ConnectorCfg, options?: ExecuteOptions): Promise<T>;
+  /** Optional: the engine's estimate of how many rows `query` returns, used when a result is truncated. */
+  estimateRows?(conn: TConn, query: string | MongoQuery, params: any[], cfg: ConnectorCfg): Promise<number | null>;
+  /** Optional: the engine's execution plan for `query`, normalized into a PlanNode tree. */
+  explain?(conn: TConn, query: string | MongoQuery, params: any[], cfg: ConnectorCfg, options?: ExplainOptions): Promise<PlanNode>;
+  /** Populate the schema map (and table info map) of `catalog` for `cfg.database`. */
+  loadSchema(conn: TConn, cfg: ConnectorCfg, catalog: SchemaCatalog): Promise<void>;
+  /** Populate the index map of `catalog` for `cfg.database`. */
+  loadIndexes(conn: TConn, cfg: ConnectorCfg, catalog: SchemaCatalog): Promise<void>;
+  /**
+   * Populate the table size cache of `catalog` for `cfg.database`. With `tables`
+   * only those entries need refreshing; adapters whose size query covers every
+   * table anyway may reload them all.
+   */
+  loadSizes(conn: TConn, cfg: ConnectorCfg, catalog: SchemaCatalog, tables?: string[]): Promise<void>;
+  /** Optional: the definition (SQL, or pipeline for MongoDB) of the view `name`, a schemaMap key. */
+  viewDefinition?(conn: TConn, name: string, cfg: ConnectorCfg): Promise<string | null>;
+  /** Optional: populate the relationship map (foreign keys) of `catalog` for `cfg.database`. */
+  loadRelationships?(conn: TConn, cfg: ConnectorCfg, catalog: SchemaCatalog): Promise<void>;
+  /** Optional: attach the engine's column statistics (ColumnStats) to the schema map of `catalog`; run when SCHEMA_COLUMN_STATS=true. */
+  loadColumnStats?(conn: TConn, cfg: ConnectorCfg, catalog: SchemaCatalog): Promise<void>;
+  /** Optional: cheap change detection for the on-disk schema cache; without it cached metadata is trusted until it expires. */
+  fingerprint?(conn: TConn, cfg: ConnectorCfg): Promise<MetadataFingerprint>;
+  /** Release the connection returned by connect(). */
+  close(conn: TConn): Promise<void>;
+}
+
+/**
+ * Run `fn`, invoking `cancel` if `signal` aborts before it settles. Adapters use
+ * this to kill the server-side statement (pg_cancel_backend, KILL QUERY, ...).
+ */
+export async function withCancellation<T>(
+  signal: AbortSignal | undefined,
+  cancel: () => Promise<unknown> | unknown,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!signal) {
+    return await fn();
+  }
+  if (signal.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('Query cancelled');
+  }
+
+  const onAbort = () => {
+    Promise.resolve()
+      .then(cancel)
+      .catch((error) => console.warn(`Warning: Failed to cancel query: ${(error as any).message}`));
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await fn();
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+const adapters = new Map<string, DatabaseAdapter>();
+
+export function registerAdapter(adapter: DatabaseAdapter): void {
+  adapters.set(adapter.type, adapter);
+}
+
+/**
+ * Resolve the adapter for a database type. An unset type falls back to mysql,
+ * matching the connector's historical default.
+ */
+export function getAdapter(databaseType?: string): DatabaseAdapter {
+  const type = databaseType || 'mysql';
+  const adapter = adapters.get(type);
+  if (!adapter) {
+    throw new Error(`Unsupported database type: ${type}. Registered adapters: ${listAdapters().join(', ')}`);
+  }
+  return adapter;
+}
+
+export function hasAdapter(databaseType: string): boolean {
+  return adapters.has(databaseType);
+}
+
+export function listAdapters(): string[] {
+  return Array.from(adapters.keys());
+}
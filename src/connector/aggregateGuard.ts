@@ -0,0 +1,273 @@
+/**
+ * Aggregate-Only Guard
+ * Privacy mode for regulated datasets: only statements that return grouped or
+ * aggregated rows may run. Each statement is rewritten to also return its group
+ * sizes, and groups smaller than the minimum size are suppressed from the result.
+ */
+
+import { tokenize, toDialect, Token } from './readOnlyGuard';
+import type { MongoQuery } from './index';
+import type { ColumnStats } from './schemaManager';
+
+export class AggregateOnlyViolationError extends Error {
+  constructor(readonly reason: string) {
+    super(`Query rejected by aggregate-only mode: ${reason}. Only GROUP BY / aggregate queries (or Mongo pipelines ending in $group, $bucket or $count) may run, and groups below the minimum size are suppressed`);
+    this.name = 'AggregateOnlyViolationError';
+  }
+}
+
+export interface AggregateOnlyOptions {
+  minGroupSize: number; // k: groups with fewer rows are suppressed
+}
+
+/**
+ * Aggregate-only mode as configured by AGGREGATE_ONLY / AGGREGATE_MIN_GROUP_SIZE,
+ * or undefined when it is off. Throws on a group size that isn't a whole number
+ * of at least 1, rather than letting every group (NaN, 0) through.
+ */
+export function aggregateOnlyFromEnv(): AggregateOnlyOptions | undefined {
+  if (process.env.AGGREGATE_ONLY !== 'true') {
+    return undefined;
+  }
+  const configured = process.env.AGGREGATE_MIN_GROUP_SIZE?.trim();
+  const minGroupSize = configured ? Number(configured) : 5;
+  if (!Number.isInteger(minGroupSize) || minGroupSize < 1) {
+    throw new Error(`Invalid AGGREGATE_MIN_GROUP_SIZE "${configured}": expected a whole number of at least 1`);
+  }
+  return { minGroupSize };
+}
+
+// Added to every statement so group sizes are known, then stripped from the result
+export const GROUP_SIZE_COLUMN = 'celp_group_size';
+
+const AGGREGATE_FUNCTIONS = new Set([
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'MEDIAN', 'MODE',
+  'STDDEV', 'STDDEV_POP', 'STDDEV_SAMP', 'VARIANCE', 'VAR_POP', 'VAR_SAMP',
+  'PERCENTILE_CONT', 'PERCENTILE_DISC', 'PERCENTILE', 'APPROX_PERCENTILE',
+  'APPROX_COUNT_DISTINCT', 'COUNT_IF', 'BIT_AND', 'BIT_OR', 'BOOL_AND', 'BOOL_OR', 'EVERY',
+]);
+
+// Aggregates that hand back the individual values of a group
+const LEAKY_AGGREGATES = new Set([
+  'ARRAY_AGG', 'STRING_AGG', 'GROUP_CONCAT', 'JSON_AGG', 'JSONB_AGG', 'JSON_OBJECT_AGG', 'JSONB_OBJECT_AGG',
+  'JSON_ARRAYAGG', 'JSON_OBJECTAGG', 'XMLAGG', 'LISTAGG', 'COLLECT_LIST', 'COLLECT_SET', 'ANY_VALUE',
+]);
+
+// Words that end the select list of the outermost SELECT
+const SELECT_LIST_END = new Set(['FROM', 'INTO', 'WHERE', 'GROUP', 'HAVING', 'WINDOW', 'QUALIFY', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH']);
+
+const MONGO_GROUP_STAGES = ['$group', '$bucket', '$bucketAuto', '$sortByCount', '$count'];
+// Stages allowed after the last grouping stage – none of them can bring raw documents back
+const MONGO_POST_GROUP_STAGES = ['$match', '$sort', '$limit', '$skip', '$project', '$addFields', '$set', '$unset'];
+// Operators that return single documents' values or run arbitrary JavaScript
+const MONGO_LEAKY_ACCUMULATORS = [
+  '$push', '$addToSet', '$firstN', '$lastN', '$topN', '$bottomN', '$maxN', '$minN',
+  '$first', '$last', '$top', '$bottom', '$mergeObjects', '$accumulator', '$function',
+];
+
+// Every operator used in a Mongo expression, however deeply nested
+function mongoOperators(expression: any): string[] {
+  if (Array.isArray(expression)) return expression.flatMap(mongoOperators);
+  if (!expression || typeof expression !== 'object') return [];
+  return Object.entries(expression).flatMap(([key, value]) => [...(key.startsWith('$') ? [key] : []), ...mongoOperators(value)]);
+}
+
+/** Rewritten statement plus the field holding each row's group size. */
+export interface AggregateRewrite<Q> {
+  query: Q;
+  sizeField: string;
+}
+
+/**
+ * Check that `sql` returns only aggregated rows and add a COUNT(*) group-size
+ * column to its outermost select list. Throws AggregateOnlyViolationError otherwise.
+ */
+export function rewriteAggregateSql(sql: string, databaseType?: string): AggregateRewrite<string> {
+  const tokens = tokenize(sql, toDialect(databaseType));
+
+  const depths: number[] = [];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.value === ')') depth--;
+    depths.push(depth);
+    if (token.value === '(') depth++;
+  }
+  const topLevel = (predicate: (token: Token) => boolean) =>
+    tokens.map((token, i) => i).filter(i => depths[i] === 0 && predicate(tokens[i]));
+
+  const leading = tokens.find(t => t.value !== '(');
+  if (!leading || (leading.value !== 'SELECT' && leading.value !== 'WITH')) {
+    throw new AggregateOnlyViolationError(`${leading?.value ?? 'empty'} statements don't return aggregated rows`);
+  }
+
+  const setOperation = topLevel(t => ['UNION', 'INTERSECT', 'EXCEPT', 'MINUS'].includes(t.value))[0];
+  if (setOperation !== undefined) {
+    throw new AggregateOnlyViolationError(`${tokens[setOperation].value} of several queries is not supported; aggregate in a single SELECT`);
+  }
+
+  const selects = topLevel(t => t.value === 'SELECT');
+  if (selects.length !== 1) {
+    throw new AggregateOnlyViolationError('the outermost query must be a single SELECT');
+  }
+
+  let listStart = selects[0] + 1;
+  while (tokens[listStart] && ['DISTINCT', 'ALL'].includes(tokens[listStart].value)) listStart++;
+  let listEnd = listStart;
+  while (listEnd < tokens.length && !(depths[listEnd] === 0 && (SELECT_LIST_END.has(tokens[listEnd].value) || tokens[listEnd].value === ';'))) {
+    listEnd++;
+  }
+  const hasGroupBy = topLevel(t => t.value === 'GROUP').some(i => tokens[i + 1]?.value === 'BY');
+
+  // Split the select list into [start, end) token ranges on top-level commas
+  const ranges: Array<[number, number]> = [];
+  let itemStart = listStart;
+  for (let i = listStart; i <= listEnd; i++) {
+    if (i === listEnd || (depths[i] === 0 && tokens[i].value === ',')) {
+      ranges.push([itemStart, i]);
+      itemStart = i + 1;
+    }
+  }
+
+  for (const [start, end] of ranges) {
+    const item: Token[] = tokens.slice(start, end);
+    const isCall = (token: Token, i: number) => token.type === 'word' && item[i + 1]?.value === '(';
+    const calls = item.filter(isCall).map(token => token.value);
+    const leaky = calls.find(name => LEAKY_AGGREGATES.has(name));
+    if (leaky) {
+      throw new AggregateOnlyViolationError(`${leaky.toLowerCase()}() returns the individual values of each group`);
+    }
+    if (item.some(token => token.value === 'OVER')) {
+      throw new AggregateOnlyViolationError('window functions return one row per input row');
+    }
+    // A scalar subquery isn't grouped with the outer query and can pick out any single row
+    if (item.some((token, i) => token.value === 'SELECT' && depths[start + i] > 0)) {
+      throw new AggregateOnlyViolationError('subqueries in the select list can return individual rows\' values');
+    }
+    const aggregated = item.some((token, i) => depths[start + i] === 0 && isCall(token, i) && AGGREGATE_FUNCTIONS.has(token.value));
+    if (!hasGroupBy && !aggregated) {
+      const text = sql.slice(tokens[start]?.start ?? sql.length, tokens[end]?.start ?? sql.length).trim();
+      throw new AggregateOnlyViolationError(`select item "${text}" is neither aggregated nor grouped (no GROUP BY)`);
+    }
+  }
+
+  // Append after the last select item so ordinal ORDER BY / GROUP BY references still line up
+  const insertAt = listEnd < tokens.length ? tokens[listEnd].start : sql.replace(/[\s;]+$/, '').length;
+  return {
+    query: `${sql.slice(0, insertAt).replace(/\s+$/, '')}, COUNT(*) AS ${GROUP_SIZE_COLUMN} ${sql.slice(insertAt)}`,
+    sizeField: GROUP_SIZE_COLUMN,
+  };
+}
+
+/**
+ * Check that a Mongo query returns only grouped documents and make its last
+ * grouping stage emit a group size. Throws AggregateOnlyViolationError otherwise.
+ */
+export function rewriteAggregateMongo(query: MongoQuery): AggregateRewrite<MongoQuery> {
+  if (query.operation === 'count') {
+    return { query, sizeField: 'count' };
+  }
+  if (query.operation !== 'aggregate') {
+    throw new AggregateOnlyViolationError(`MongoDB ${query.operation} returns individual documents; use an aggregate pipeline with $group`);
+  }
+
+  const pipeline = [...(query.pipeline || [])];
+  const stageName = (stage: any) => Object.keys(stage ?? {})[0];
+  let last = -1;
+  pipeline.forEach((stage, i) => {
+    if (MONGO_GROUP_STAGES.includes(stageName(stage))) last = i;
+  });
+  if (last === -1) {
+    throw new AggregateOnlyViolationError('the pipeline has no $group, $bucket, $bucketAuto, $sortByCount or $count stage');
+  }
+
+  const grouping = pipeline[last];
+  const name = stageName(grouping);
+  const body = grouping[name];
+  let sizeField = GROUP_SIZE_COLUMN;
+  const accumulators = name === '$group' ? body : name.startsWith('$bucket') ? body.output : undefined;
+  const leaky = mongoOperators(Object.values(accumulators ?? {})).find(op => MONGO_LEAKY_ACCUMULATORS.includes(op));
+  if (leaky) {
+    throw new AggregateOnlyViolationError(`accumulator ${leaky} returns the individual values of each group`);
+  }
+
+  if (name === '$group') {
+    pipeline[last] = { $group: { ...body, [GROUP_SIZE_COLUMN]: { $sum: 1 } } };
+  } else if (name === '$bucket' || name === '$bucketAuto') {
+    // Without `output` buckets only carry `count`; keep it when adding ours
+    pipeline[last] = { [name]: { ...body, output: { ...(body.output ?? { count: { $sum: 1 } }), [GROUP_SIZE_COLUMN]: { $sum: 1 } } } };
+  } else {
+    sizeField = name === '$count' ? body : 'count';
+  }
+
+  const postStages: any[] = [];
+  for (const original of pipeline.slice(last + 1)) {
+    const stage = stageName(original);
+    if (!MONGO_POST_GROUP_STAGES.includes(stage)) {
+      throw new AggregateOnlyViolationError(`${stage} is not allowed after the last grouping stage`);
+    }
+    const spec = original[stage];
+    postStages.push(original);
+    if (stage === '$unset') {
+      // The group size has to survive until suppression
+      const fields = (Array.isArray(spec) ? spec : [spec]).filter((field: string) => field !== sizeField);
+      if (fields.length) {
+        postStages[postStages.length - 1] = { $unset: fields };
+      } else {
+        postStages.pop();
+      }
+    } else if (stage === '$project' || stage === '$addFields' || stage === '$set') {
+      const leakyOperator = mongoOperators(spec).find(op => MONGO_LEAKY_ACCUMULATORS.includes(op));
+      if (leakyOperator) {
+        throw new AggregateOnlyViolationError(`${leakyOperator} is not allowed in ${stage} after the last grouping stage`);
+      }
+      if (sizeField in spec && !(stage === '$project' && (spec[sizeField] === 1 || spec[sizeField] === true))) {
+        throw new AggregateOnlyViolationError(`${stage} may not change the group size field "${sizeField}"`);
+      }
+      // { _id: 1 } alone is an inclusion too; otherwise _id doesn't decide the projection's kind
+      const included = (value: any) => value !== 0 && value !== false;
+      const inclusion = stage === '$project' && (
+        Object.entries(spec).some(([key, value]) => key !== '_id' && included(value))
+        || (Object.keys(spec).length === 1 && '_id' in spec && included(spec._id))
+      );
+      if (inclusion) {
+        postStages[postStages.length - 1] = { $project: { ...spec, [sizeField]: 1 } };
+      }
+    }
+  }
+
+  return { query: { ...query, pipeline: [...pipeline.slice(0, last + 1), ...postStages] }, sizeField };
+}
+
+/**
+ * Drop rows whose group is smaller than `minGroupSize` (rows without a readable
+ * size are dropped too) and strip the injected group-size column.
+ */
+export function suppressSmallGroups<Row = any>(
+  rows: Row[],
+  sizeField: string,
+  minGroupSize: number
+): { rows: Row[]; suppressed: number } {
+  const kept: Row[] = [];
+  for (const row of rows) {
+    const size = Number((row as any)?.[sizeField]);
+    if (!Number.isFinite(size) || size < minGroupSize) continue;
+    if (sizeField === GROUP_SIZE_COLUMN) {
+      const { [GROUP_SIZE_COLUMN]: _size, ...rest } = row as any;
+      kept.push(rest as Row);
+    } else {
+      kept.push(row);
+    }
+  }
+  return { rows: kept, suppressed: rows.length - kept.length };
+}
+
+/**
+ * Column statistics fit for aggregate-only mode: min / max are single rows'
+ * values, so they go, and top values stay only when they account for at least
+ * `minGroupSize` of the table's `rowCount` rows (none when the count is unknown).
+ */
+export function suppressRareStats(stats: ColumnStats, rowCount: number | undefined, options: AggregateOnlyOptions): ColumnStats {
+  const { min: _min, max: _max, topValues, ...counts } = stats;
+  const kept = rowCount ? (topValues ?? []).filter(entry => Math.round(entry.frequency * rowCount) >= options.minGroupSize) : [];
+  return kept.length ? { ...counts, topValues: kept } : counts;
+}
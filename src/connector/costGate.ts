@@ -0,0 +1,70 @@
+/**
+ * Cost Gate
+ * Plans each statement before running it and refuses those whose estimated cost
+ * or scanned rows exceed the configured thresholds, handing the estimate back so
+ * the caller can add filters or a LIMIT.
+ */
+
+import { analyzePlan, lookupRelation, PlanNode } from './queryPlan';
+
+export interface CostGateOptions {
+  maxCost?: number;        // root plan cost, in the engine's units (Postgres, MySQL)
+  maxScannedRows?: number; // rows read from tables and collections
+}
+
+export interface CostEstimate {
+  cost: number | null;
+  scannedRows: number | null;
+  warnings: string[]; // full scans of large tables, see analyzePlan
+}
+
+export class CostLimitExceededError extends Error {
+  constructor(readonly reason: string, readonly estimate: CostEstimate) {
+    super(`Query rejected by the cost gate: ${reason}. Add selective filters (ideally on indexed columns), a LIMIT, or aggregate in the database`);
+    this.name = 'CostLimitExceededError';
+  }
+}
+
+/**
+ * Estimate what running `plan` costs. Full scans count the whole table when its
+ * size is known, since planners without statistics badly underestimate them.
+ */
+export function estimateCost(
+  plan: PlanNode,
+  databaseType: string,
+  indexMap: Record<string, any[]>,
+  tableSizeCache: Record<string, number>
+): CostEstimate {
+  let scannedRows: number | null = null;
+  const visit = (node: PlanNode) => {
+    if (node.relation) {
+      const cached = node.fullScan ? lookupRelation(tableSizeCache, node.relation)?.[1] : undefined;
+      const rows = Math.max(node.estimatedRows ?? -1, cached !== undefined ? Number(cached) : -1);
+      if (rows >= 0) scannedRows = (scannedRows ?? 0) + rows;
+    }
+    node.children.forEach(visit);
+  };
+  visit(plan);
+
+  return {
+    cost: plan.cost ?? null,
+    scannedRows,
+    warnings: analyzePlan(plan, databaseType, indexMap, tableSizeCache).map(warning => warning.message),
+  };
+}
+
+/** Throw CostLimitExceededError when `estimate` is over a threshold; unknown figures pass. */
+export function assertWithinCost(estimate: CostEstimate, options: CostGateOptions) {
+  if (options.maxScannedRows && estimate.scannedRows !== null && estimate.scannedRows > options.maxScannedRows) {
+    throw new CostLimitExceededError(
+      `it would scan ~${estimate.scannedRows.toLocaleString('en-US')} rows, over the limit of ${options.maxScannedRows.toLocaleString('en-US')}`,
+      estimate
+    );
+  }
+  if (options.maxCost && estimate.cost !== null && estimate.cost > options.maxCost) {
+    throw new CostLimitExceededError(
+      `its estimated cost of ${Math.round(estimate.cost).toLocaleString('en-US')} is over the limit of ${options.maxCost.toLocaleString('en-US')}`,
+      estimate
+    );
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Databricks Scope
+ * Which catalogs, schemas and tables of a Unity Catalog metastore the schema
+ * map covers. Include / exclude globs (DATABRICKS_CATALOGS, DATABRICKS_SCHEMAS,
+ * DATABRICKS_TABLES) and table tags (DATABRICKS_TABLE_TAGS) narrow it; without
+ * any, the configured catalog is loaded whole.
+ */
+
+import type { ConnectorCfg } from './index';
+
+export type DatabricksScope = Pick<NonNullable<ConnectorCfg['databricksOptions']>, 'catalogs' | 'schemas' | 'tables' | 'tags'>;
+
+/** One statement over an open session, all rows fetched. */
+export type DatabricksFetch = (statement: string, maxRows?: number) => Promise<any[]>;
+
+function listFromEnv(value: string | undefined): string[] | undefined {
+  const items = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length ? items : undefined;
+}
+
+export function databricksScopeFromEnv(): DatabricksScope {
+  return {
+    catalogs: listFromEnv(process.env.DATABRICKS_CATALOGS),
+    schemas: listFromEnv(process.env.DATABRICKS_SCHEMAS),
+    tables: listFromEnv(process.env.DATABRICKS_TABLES),
+    tags: listFromEnv(process.env.DATABRICKS_TABLE_TAGS),
+  };
+}
+
+/** Whether the scope narrows anything, i.e. loads differ from a whole-catalog load. */
+export function isDatabricksScoped(scope: DatabricksScope | undefined): boolean {
+  return Boolean(scope?.catalogs?.length || scope?.schemas?.length || scope?.tables?.length || scope?.tags?.length);
+}
+
+/* ── Name patterns ──────────────────────────────────────────────────── */
+
+// A pattern with n dots matches the last n + 1 parts of a qualified name,
+// so "sales" matches any schema of that name and "main.sales" only one.
+function matchesPattern(pattern: string, name: string): boolean {
+  const parts = pattern.split('.').length;
+  const suffix = name.split('.').slice(-parts).join('.');
+  const regex = new RegExp(
+    '^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$',
+    'i'
+  );
+  return regex.test(suffix);
+}
+
+/** Included by some pattern (or no include patterns are given) and excluded by no "!" pattern. */
+export function matchesPatterns(patterns: string[] | undefined, name: string): boolean {
+  if (!patterns?.length) return true;
+  const include = patterns.filter(p => !p.startsWith('!'));
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => p.slice(1));
+  return (include.length === 0 || include.some(p => matchesPattern(p, name))) && !exclude.some(p => matchesPattern(p, name));
+}
+
+/** Whether catalog.schema.table passes the catalog, schema and table patterns (tags aside). */
+export function inDatabricksScope(scope: DatabricksScope | undefined, qualifiedName: string): boolean {
+  const [catalogName, schemaName] = qualifiedName.split('.');
+  return matchesPatterns(scope?.catalogs, catalogName)
+    && matchesPatterns(scope?.schemas, `${catalogName}.${schemaName}`)
+    && matchesPatterns(scope?.tables, qualifiedName);
+}
+
+/* ── SQL ────────────────────────────────────────────────────────────── */
+
+export function databricksLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+}
+
+export function databricksLiterals(values: string[]): string {
+  return values.map(databricksLiteral).join(', ');
+}
+
+// Glob → LIKE pattern, with ! as the escape character
+function likePattern(pattern: string): string {
+  return pattern.toLowerCase().replace(/[!%_]/g, '!$&').replace(/\*/g, '%').replace(/\?/g, '_');
+}
+
+function patternCondition(patterns: string[] | undefined, columns: string[]): string | undefined {
+  if (!patterns?.length) return undefined;
+  const like = (pattern: string) => {
+    const parts = columns.slice(-pattern.split('.').length);
+    const name = parts.length > 1 ? `concat_ws('.', ${parts.join(', ')})` : parts[0];
+    return `lower(${name}) LIKE ${databricksLiteral(likePattern(pattern))} ESCAPE '!'`;
+  };
+  const include = patterns.filter(p => !p.startsWith('!')).map(like);
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => like(p.slice(1)));
+  return [
+    ...(include.length ? [`(${include.join(' OR ')})`] : []),
+    ...(exclude.length ? [`NOT (${exclude.join(' OR ')})`] : []),
+  ].join(' AND ');
+}
+
+/**
+ * `AND ...` restricting an information_schema query to the scope's schemas and
+ * tables, or '' when they are unrestricted. `prefix` qualifies the
+ * table_catalog / table_schema / table_name columns, e.g. 'fk.'.
+ */
+export function databricksScopeCondition(scope: DatabricksScope | undefined, prefix = ''): string {
+  const columns = ['table_catalog', 'table_schema', 'table_name'].map(column => prefix + column);
+  const conditions = [patternCondition(scope?.schemas, columns.slice(0, 2)), patternCondition(scope?.tables, columns)].filter(Boolean);
+  return conditions.length ? ` AND ${conditions.join(' AND ')}` : '';
+}
+
+/* ── Catalogs and tags ──────────────────────────────────────────────── */
+
+/** Catalogs to load: `defaultCatalog`, or those of SHOW CATALOGS matching the catalog patterns. */
+export async function databricksCatalogs(fetch: DatabricksFetch, defaultCatalog: string, scope: DatabricksScope | undefined): Promise<string[]> {
+  if (!scope?.catalogs?.length) return [defaultCatalog];
+  const rows = await fetch('SHOW CATALOGS', 10000);
+  return rows
+    .map(row => String(row.catalog ?? row.catalog_name ?? Object.values(row)[0]))
+    .filter(name => matchesPatterns(scope.catalogs, name))
+    .sort();
+}
+
+/** Unity Catalog tags of the tables in `catalogs`, keyed catalog.schema.table. */
+export async function loadDatabricksTableTags(fetch: DatabricksFetch, catalogs: string[]): Promise<Record<string, Record<string, string>>> {
+  if (catalogs.length === 0) return {};
+  const rows = await fetch(`
+    SELECT catalog_name, schema_name, table_name, tag_name, tag_value
+    FROM system.information_schema.table_tags
+    WHERE catalog_name IN (${databricksLiterals(catalogs)})
+  `, 50000);
+  const tags: Record<string, Record<string, string>> = {};
+  for (const row of rows) {
+    const table = `${row.catalog_name}.${row.schema_name}.${row.table_name}`;
+    (tags[table] ??= {})[row.tag_name] = row.tag_value ?? '';
+  }
+  return tags;
+}
+
+/** Whether `tags` carry one of `wanted`: a tag name, or name=value (names compare case-insensitively). */
+export function hasDatabricksTag(tags: Record<string, string> | undefined, wanted: string[] | undefined): boolean {
+  if (!wanted?.length) return true;
+  const entries = Object.entries(tags ?? {});
+  return wanted.some(tag => {
+    const separator = tag.indexOf('=');
+    const name = (separator >= 0 ? tag.slice(0, separator) : tag).toLowerCase();
+    return entries.some(([tagName, value]) => tagName.toLowerCase() === name && (separator < 0 || value === tag.slice(separator + 1)));
+  });
+}
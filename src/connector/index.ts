@@ -1,14 +1,33 @@
 // Connector Module – Data Layer (RESTORED & ENHANCED)
 // Keeps every credential-touching concern local. Public API:
 //   • withTunnel(cfg, fn)   – wraps callback with optional SSH tunnel
-//   • runQuery(sql, params, cfg) – executes SQL via mysql2 or pg
+//   • runQuery(sql, params, cfg) – executes SQL / Mongo queries via the registered adapter
+//   • runLimitedQuery – runQuery under the row cap / byte budget, masking policy and
+//     optional aggregate-only mode, with truncation metadata
+//   • explainQuery – normalized execution plan, flagging full scans of large tables
+//   • viewDefinition – SQL (or pipeline) behind a view or materialized view
+//   • profileTable – null rate, distinct count, min / max and top values of a table's columns
+//   • assertReadOnlyQuery – read-only guard for orchestrator-issued statements
+//   • registerAdapter / getAdapter – pluggable DatabaseAdapter registry (see ./adapters)
 //   • issueToken / verifyToken – ephemeral auth tokens
-//   • initMetadata(cfg) – loads schema / index / tableSize maps using same cfg
-//   • Re-exports schemaMap, indexMap, tableSizeCache + low-level loaders
+//   • initMetadata(cfg) – loads schema / table kind / index / tableSize / relationship maps into the
+//     SchemaCatalog of cfg's connection and returns it, through the on-disk schema cache
+//   • Re-exports getCatalog, the compatibility maps (schemaMap, indexMap, ...) + low-level loaders
 
-import mysql from 'mysql2/promise';
-import pg from 'pg';
 import crypto from 'crypto';
+import { getAdapter, DatabaseAdapter, ExecuteOptions } from './adapters';
+import { withTunnel } from './tunnel';
+import { assertReadOnlyQuery } from './readOnlyGuard';
+import { limitResult, resolveResultLimits, inferColumns, ColumnMeta, QueryResult, ResultLimits } from './resultGuard';
+import { getMaskingPolicy } from './maskingPolicy';
+import { rewriteAggregateMongo, rewriteAggregateSql, suppressSmallGroups, AggregateOnlyOptions, GROUP_SIZE_COLUMN } from './aggregateGuard';
+import { analyzePlan, planToMarkdown, lookupRelation, ExplainOptions, ExplainResult, PlanNode } from './queryPlan';
+import { estimateCost, assertWithinCost, CostGateOptions, CostEstimate } from './costGate';
+import { profileColumns, ProfileOptions, TableProfile } from './tableProfile';
+import { loadValueCatalog, valueCatalogOptionsFromEnv } from './valueCatalog';
+import { schemaCacheOptionsFromEnv, readSchemaCache, writeSchemaCache, isSchemaCacheExpired, changedTables } from './schemaCache';
+
+export * from './adapters';
 
 // Define MongoDB query types without importing MongoDB yet to avoid errors
 export interface MongoQuery {
@@ -84,8 +103,11 @@ interface AnalysisContext {
   runQueryFn?: (sql: string, params: any[], cfg: any, context: AnalysisContext) => Promise<any>;
 }
 
+// Built-in engines; plugin adapters may register any other type name.
+export type DatabaseType = 'mysql' | 'postgres' | 'mongodb' | 'databricks' | (string & {});
+
 export interface ConnectorCfg {
-  databaseType?: 'mysql' | 'postgres' | 'mongodb' | 'databricks';
+  databaseType?: DatabaseType;
   host: string;
   port?: number;
   user: string;
@@ -107,54 +129,33 @@ export interface ConnectorCfg {
     httpPath: string;     // /sql/1.0/warehouses/<warehouse-id> (REQUIRED)
     schema?: string;      // default schema within catalog (optional)
     timeout?: number;     // query timeout in ms (optional)
+    catalogs?: string[];  // catalog globs to load, "!" excludes (default: `database` only)
+    schemas?: string[];   // schema globs, "sales" or "main.sales"
+    tables?: string[];    // table globs, "orders", "sales.orders" or "main.sales.orders"
+    tags?: string[];      // only tables carrying one of these Unity Catalog tags, "certified" or "tier=gold"
+  };
+  databricksHttpPath?: string; // legacy alias for databricksOptions.httpPath
+  pool?: {                // postgres / mysql connection pool (env: DB_POOL_*)
+    min?: number;
+    max?: number;
+    idleTimeoutMs?: number;
+    acquireTimeoutMs?: number;
   };
   ssh?: {
     host: string;
     port?: number;
     username: string;
     privateKeyPath: string;
+    passphrase?: string;             // for encrypted private keys
+    knownHostsPath?: string;         // defaults to ~/.ssh/known_hosts
+    strictHostKeyChecking?: boolean; // reject hosts missing from known_hosts (default true)
   };
+  // Set on the config withTunnel hands out: the configured server behind the local port
+  tunnelled?: Pick<ConnectorCfg, 'host' | 'port' | 'url'>;
   telemetry?: boolean;
   pgDisableSsl?: boolean;
 }
 
-// Add MongoDB connection string builder
-export function buildMongoConnectionString(cfg: ConnectorCfg): string {
-  const { host, port, user, password, database, mongoOptions } = cfg;
-  // If a full connection URL is already provided, use it directly.
-  if (cfg.url) {
-    return cfg.url;
-}
-  
-  let connectionString = 'mongodb://';
-  
-  if (user && password) {
-    connectionString += `${encodeURIComponent(user)}:${encodeURIComponent(password)}@`;
-  }
-  
-  connectionString += `${host}:${port || 27017}/${database}`;
-  
-  if (mongoOptions) {
-    const options = new URLSearchParams();
-    if (mongoOptions.authSource) options.append('authSource', mongoOptions.authSource);
-    if (mongoOptions.ssl) options.append('ssl', mongoOptions.ssl.toString());
-    if (mongoOptions.replicaSet) options.append('replicaSet', mongoOptions.replicaSet);
-    if (mongoOptions.readPreference) options.append('readPreference', mongoOptions.readPreference);
-    if (mongoOptions.maxPoolSize) options.append('maxPoolSize', mongoOptions.maxPoolSize.toString());
-    if (mongoOptions.minPoolSize) options.append('minPoolSize', mongoOptions.minPoolSize.toString());
-    if (mongoOptions.serverSelectionTimeoutMS) options.append('serverSelectionTimeoutMS', mongoOptions.serverSelectionTimeoutMS.toString());
-    if (mongoOptions.socketTimeoutMS) options.append('socketTimeoutMS', mongoOptions.socketTimeoutMS.toString());
-    if (mongoOptions.connectTimeoutMS) options.append('connectTimeoutMS', mongoOptions.connectTimeoutMS.toString());
-    
-    const optionsString = options.toString();
-    if (optionsString) {
-      connectionString += `?${optionsString}`;
-    }
-  }
-  
-  return connectionString;
-}
-
 // Parameter binding helper for MongoDB queries
 export function applyParamsToMongoQuery(queryObj: any, paramMap: Record<string, any>): any {
   if (!queryObj || typeof queryObj !== 'object') {
@@ -197,14 +198,30 @@ export function applyParamsToMongoQuery(queryObj: any, paramMap: Record<string,
 }
 
 // --------------------------- withTunnel ---------------------------
-// (Simplified for now; would need more SSH tunnel work for MongoDB)
-export async function withTunnel<T>(
-  cfg: ConnectorCfg,
-  fn: (localCfg: ConnectorCfg) => Promise<T>
-): Promise<T> {
-  // For now, just pass through. Real SSH tunneling would create a local port forward.
-  return await fn(cfg);
-}
+export { withTunnel, tunnelManager, sshConfigFromEnv } from './tunnel';
+
+export { ReadOnlyViolationError, assertReadOnlyQuery, assertReadOnlySql, assertReadOnlyMongo } from './readOnlyGuard';
+
+export { resolveResultLimits, inferColumns, serializedSize, jsonReplacer } from './resultGuard';
+export type { ColumnMeta, QueryResult, ResultLimits } from './resultGuard';
+
+export { MaskingPolicy, getMaskingPolicy } from './maskingPolicy';
+export type { MaskingAction, MaskingRule, MaskingPolicyFile, MaskingScope } from './maskingPolicy';
+
+export { AggregateOnlyViolationError, aggregateOnlyFromEnv, rewriteAggregateSql, rewriteAggregateMongo, suppressSmallGroups, suppressRareStats } from './aggregateGuard';
+export type { AggregateOnlyOptions } from './aggregateGuard';
+
+export { analyzePlan, planToMarkdown, lookupRelation } from './queryPlan';
+export type { PlanNode, PlanWarning, ExplainOptions, ExplainResult } from './queryPlan';
+
+export { CostLimitExceededError, estimateCost, assertWithinCost } from './costGate';
+export type { CostGateOptions, CostEstimate } from './costGate';
+
+export { tableProfileToMarkdown } from './tableProfile';
+export type { ProfileOptions, TableProfile } from './tableProfile';
+
+export { databricksScopeFromEnv } from './databricksScope';
+export type { DatabricksScope } from './databricksScope';
 
 // --------------------------- Token utilities ---------------------------
 const tokenStore = new Map<string, { expires: number; data: any }>();
@@ -229,163 +246,258 @@ export async function runQuery<T = any[]>(
   query: string | MongoQuery,
   params: any[] = [],
   cfg: ConnectorCfg,
-  context?: AnalysisContext
+  context?: AnalysisContext,
+  options: ExecuteOptions = {}
 ): Promise<T> {
-    return await execQuery<T>(query, params, cfg);
+    options = prepareQuery(query, cfg, context, options);
+    return await withTunnel(cfg, (localCfg) =>
+      withConnection(localCfg, options, (adapter, conn, execOptions) =>
+        adapter.execute<T>(conn, query, params, localCfg, execOptions)
+      )
+    );
   }
 
+export interface LimitedQueryOptions extends ExecuteOptions, Partial<ResultLimits> {
+  // Only run statements returning aggregated rows, and suppress groups smaller than minGroupSize
+  aggregateOnly?: AggregateOnlyOptions;
+  // EXPLAIN first and refuse statements over these thresholds (CostLimitExceededError)
+  costGate?: CostGateOptions;
+  // Statements running at least this long (ms) come back with `slowQuery` and their plan
+  slowQueryThreshold?: number;
+  recordSlowQueries?: boolean;
+}
+
+export interface LimitedQueryResult<Row = any> extends QueryResult<Row> {
+  costEstimate?: CostEstimate; // when the cost gate planned the statement
+  slowQuery?: { durationMs: number; plan?: PlanNode };
+}
+
 /**
- * Internal query execution function that handles the actual database interaction
- * @param context Optional AnalysisContext containing configuration settings
+ * runQuery under the result-size guard: at most `maxRows` rows and `maxBytes` of
+ * serialized rows are returned (defaults: QUERY_MAX_ROWS / QUERY_MAX_BYTES), and the
+ * result says whether, and by how much, it was truncated. Values are redacted
+ * according to the masking policy (CELP_MASKING_POLICY) first. With `costGate`
+ * the statement is planned first and refused when it would be too expensive.
  */
-async function execQuery<T = any[]>(
+export async function runLimitedQuery<Row = any>(
   query: string | MongoQuery,
   params: any[] = [],
   cfg: ConnectorCfg,
-): Promise<T> {
-  if (cfg.databaseType === 'mongodb') {
-    try {
-      // Dynamic import to handle optional MongoDB dependency
-      const mongodb = await import('mongodb');
-      const MongoClient = mongodb.MongoClient;
-      
-      const connectionString = buildMongoConnectionString(cfg);
-      const client = new MongoClient(connectionString, cfg.mongoOptions);
-      
-      await client.connect();
-      try {
-        const db = client.db(cfg.database);
-        
-        if (typeof query === 'object' && 'operation' in query) {
-          const mongoQuery = query as MongoQuery;
-          const collection = db.collection(mongoQuery.collection);
-          switch (mongoQuery.operation) {
-                case 'find':
-                  const findCursor = collection.find(
-                    mongoQuery.filter || {},
-                    mongoQuery.options || {}
-                  );
-                  if (mongoQuery.sort) findCursor.sort(mongoQuery.sort);
-                  if (mongoQuery.limit) findCursor.limit(mongoQuery.limit);
-                  if (mongoQuery.skip) findCursor.skip(mongoQuery.skip);
-                  return await findCursor.toArray() as unknown as T;
-                  
-                case 'aggregate':
-                  const aggCursor = collection.aggregate(
-                    mongoQuery.pipeline || [],
-                    mongoQuery.options || {}
-                  );
-                  return await aggCursor.toArray() as unknown as T;
-                  
-                case 'distinct':
-                  return await collection.distinct(
-                    mongoQuery.field!,
-                    mongoQuery.filter || {}
-                  ) as unknown as T;
-                  
-                case 'count':
-                  const count = await collection.countDocuments(
-                    mongoQuery.filter || {},
-                    mongoQuery.options || {}
-                  );
-                  return [{ count }] as unknown as T;
-                  
-                default:
-                  throw new Error(`Unsupported MongoDB operation: ${mongoQuery.operation}`);
-              }
-            
-        } else {
-          throw new Error('Invalid MongoDB query format');
+  context?: AnalysisContext,
+  options: LimitedQueryOptions = {}
+): Promise<LimitedQueryResult<Row>> {
+    const { maxBytes, aggregateOnly, costGate, slowQueryThreshold, recordSlowQueries, ...executeOptions } = options;
+    const limits = resolveResultLimits({ maxRows: options.maxRows, maxBytes });
+    const prepared = prepareQuery(query, cfg, context, executeOptions);
+    // Load (and validate) the policy before touching the database
+    const policy = getMaskingPolicy();
+    const scope = { query, databaseType: cfg.databaseType };
+    // Aggregate-only mode runs a rewritten statement that also returns each group's size
+    const aggregate = aggregateOnly
+      ? (typeof query === 'object' ? rewriteAggregateMongo(query) : rewriteAggregateSql(query, cfg.databaseType))
+      : undefined;
+    const statement = aggregate ? aggregate.query : query;
+    const slowThreshold = slowQueryThreshold ?? context?.slowQueryThreshold;
+    const recordSlow = (recordSlowQueries ?? context?.recordSlowQueries) && slowThreshold !== undefined;
+    return await withTunnel(cfg, (localCfg) =>
+      withConnection(localCfg, prepared, async (adapter, conn, execOptions) => {
+        // Plans come without ANALYZE, so nothing runs before the gate has passed
+        const explain = () => adapter.explain
+          ? adapter.explain(conn, statement, params, localCfg, { timeoutMs: execOptions.timeoutMs, signal: execOptions.signal })
+          : Promise.resolve(undefined);
+        let plan: PlanNode | undefined;
+        let costEstimate: CostEstimate | undefined;
+        if (costGate && adapter.explain) {
+          plan = await explain();
+          const catalog = schemaUtils.getCatalog(cfg);
+          costEstimate = estimateCost(plan!, adapter.type, catalog.indexMap, catalog.tableSizeCache);
+          assertWithinCost(costEstimate, costGate);
         }
-      } finally {
-        await client.close();
-      }
-    } catch (error) {
-      if ((error as any).code === 'MODULE_NOT_FOUND') {
-        throw new Error('MongoDB driver not found. Please install mongodb package: npm install mongodb');
-      }
-      throw error;
-    }
+
+        let columns: ColumnMeta[] | undefined;
+        const started = Date.now();
+        const result = await adapter.execute<any>(conn, statement, params, localCfg, {
+          ...execOptions,
+          maxRows: limits.maxRows,
+          onColumns: (reported) => { columns = reported; },
+        });
+        const durationMs = Date.now() - started;
+        let slowQuery: LimitedQueryResult['slowQuery'];
+        if (recordSlow && durationMs >= slowThreshold!) {
+          // Best effort: a plan that fails to load shouldn't fail the query
+          slowQuery = { durationMs, plan: plan ?? await explain().catch(() => undefined) };
+        }
+        let rows: Row[] = Array.isArray(result) ? result : [result];
+        const fetchedRows = rows.length;
+        let suppressedGroups = 0;
+        if (aggregate) {
+          ({ rows, suppressed: suppressedGroups } = suppressSmallGroups(rows, aggregate.sizeField, aggregateOnly!.minGroupSize));
+          columns = columns?.filter(column => column.name !== GROUP_SIZE_COLUMN);
+        }
+
+        const masked = policy.applyToRows(rows, columns ?? inferColumns(rows), scope);
+        const limited = await limitResult(masked.rows, limits, masked.columns, async () =>
+          adapter.estimateRows ? await adapter.estimateRows(conn, statement, params, localCfg) : null,
+          fetchedRows
+        );
+        return {
+          ...limited,
+          ...(aggregate ? { suppressedGroups } : {}),
+          ...(costEstimate ? { costEstimate } : {}),
+          ...(slowQuery ? { slowQuery } : {}),
+        };
+      })
+    );
   }
 
-  if (cfg.databaseType === 'databricks') {
-    // Forward to the main index's connection manager if available
-    // This is a fallback implementation for cases where the connector is used directly
-    try {
-      // Dynamic import to handle optional Databricks dependency
-      const databricksSql = await import('@databricks/sql');
-      
-      const httpPath = (cfg.databricksOptions && cfg.databricksOptions.httpPath) || (cfg as any).databricksHttpPath;
-      if (!httpPath) {
-        throw new Error('Missing Databricks httpPath in configuration');
+/**
+ * The engine's execution plan for `query`, normalized across engines, with full
+ * scans of large tables (per the index map and table size cache) flagged.
+ */
+export async function explainQuery(
+  query: string | MongoQuery,
+  params: any[] = [],
+  cfg: ConnectorCfg,
+  options: ExplainOptions = {}
+): Promise<ExplainResult> {
+    // ANALYZE and Mongo's executionStats execute the statement, so it must pass the read-only guard
+    const prepared = prepareQuery(query, cfg, undefined, { readOnly: true, timeoutMs: options.timeoutMs, signal: options.signal });
+    return await withTunnel(cfg, (localCfg) =>
+      withConnection(localCfg, prepared, async (adapter, conn, execOptions) => {
+        if (!adapter.explain) {
+          throw new Error(`EXPLAIN is not supported for ${adapter.type} databases`);
+        }
+        const plan = await adapter.explain(conn, query, params, localCfg, { ...options, timeoutMs: execOptions.timeoutMs, signal: execOptions.signal });
+        const catalog = schemaUtils.getCatalog(cfg);
+        if (Object.keys(catalog.tableSizeCache).length === 0) {
+          // No metadata loaded for this database yet (get-schema / an orchestration load it)
+          await adapter.loadIndexes(conn, localCfg, catalog);
+          await adapter.loadSizes(conn, localCfg, catalog);
+        }
+        const warnings = analyzePlan(plan, adapter.type, catalog.indexMap, catalog.tableSizeCache);
+        return { databaseType: adapter.type, plan, warnings, markdown: planToMarkdown(adapter.type, plan, warnings) };
+      })
+    );
+  }
+
+export interface ViewDefinition {
+  name: string; // schemaMap key of the view
+  kind: schemaUtils.TableKind;
+  definition: string;
+}
+
+/**
+ * Definition of the view (or materialized view) `name`, which may be bare or
+ * qualified like any schemaMap key.
+ */
+export async function viewDefinition(name: string, cfg: ConnectorCfg): Promise<ViewDefinition> {
+  return await withTunnel(cfg, (localCfg) =>
+    withConnection(localCfg, {}, async (adapter, conn) => {
+      if (!adapter.viewDefinition) {
+        throw new Error(`View definitions are not supported for ${adapter.type} databases`);
+      }
+      const catalog = schemaUtils.getCatalog(cfg);
+      if (!lookupRelation(catalog.tableInfoMap, name)) {
+        // Not loaded for this database yet, or created since
+        await adapter.loadSchema(conn, localCfg, catalog);
+      }
+      const [key, info] = lookupRelation(catalog.tableInfoMap, name) ?? [];
+      if (!key || !info) {
+        throw new Error(`Unknown view: ${name}`);
+      }
+      if (info.kind !== 'view' && info.kind !== 'materialized_view') {
+        throw new Error(`${key} is a ${info.kind.replace('_', ' ')}, not a view`);
       }
+      const definition = await adapter.viewDefinition(conn, key, localCfg);
+      if (definition === null) {
+        throw new Error(`No definition is visible for ${key}; the user may lack privileges on it`);
+      }
+      return { name: key, kind: info.kind, definition };
+    })
+  );
+}
 
-      const client = new databricksSql.DBSQLClient();
-      const connection = await client.connect({
-        host: cfg.host,
-        path: httpPath,
-        token: cfg.password, // token stored in password field
-      });
-
-      try {
-        const session = await connection.openSession();
-        const operation = await session.executeStatement(query as string, {
-          runAsync: true,
-          maxRows: 10000,
-        });
-        
-        const result = await operation.fetchAll();
-        await operation.close();
-        await session.close();
-        return result as unknown as T;
-        
-      } finally {
-        await connection.close();
+/**
+ * Statistics of `table` (bare or qualified like any schemaMap key), computed by
+ * querying it under the timeout, with values redacted by the masking policy.
+ */
+export async function profileTable(table: string, cfg: ConnectorCfg, options: ProfileOptions = {}): Promise<TableProfile> {
+  return await withTunnel(cfg, (localCfg) =>
+    withConnection(localCfg, { timeoutMs: options.timeoutMs, signal: options.signal }, async (adapter, conn, execOptions) => {
+      const catalog = schemaUtils.getCatalog(cfg);
+      if (!lookupRelation(catalog.schemaMap, table)) {
+        // Not loaded for this database yet, or created since
+        await adapter.loadSchema(conn, localCfg, catalog);
       }
-    } catch (error) {
-      if ((error as any).code === 'MODULE_NOT_FOUND') {
-        throw new Error('Databricks SQL driver not found. Please install: npm install @databricks/sql');
+      const [key, columns] = lookupRelation(catalog.schemaMap, table) ?? [];
+      if (!key || !columns) {
+        throw new Error(`Unknown table: ${table}`);
       }
-      throw error;
-    }
+      return await profileColumns(adapter, conn, localCfg, key, columns, { ...options, signal: execOptions.signal });
+    })
+  );
+}
+
+/** Guard and default the options shared by runQuery, runLimitedQuery and explainQuery. */
+function prepareQuery(
+  query: string | MongoQuery,
+  cfg: ConnectorCfg,
+  context: AnalysisContext | undefined,
+  options: ExecuteOptions
+): ExecuteOptions {
+  if (options.readOnly) {
+    // Reject before a connection (or tunnel) is even opened
+    assertReadOnlyQuery(query, cfg.databaseType);
   }
+  const timeoutMs = options.timeoutMs
+    ?? context?.maxQueryExecutionTime
+    ?? (cfg.databaseType === 'databricks' ? cfg.databricksOptions?.timeout : undefined);
+  return { ...options, timeoutMs };
+}
 
-  if (cfg.databaseType === 'postgres') {
-    // Use pgDisableSsl from context if available, otherwise fall back to environment variable
-    const pgDisableSsl = cfg?.pgDisableSsl
-    
-    const client = new pg.Client({
-      host: cfg.host,
-      port: cfg.port || 5432,
-      user: cfg.user,
-      password: cfg.password,
-      database: cfg.database,
-      ...(pgDisableSsl
-        ? {}
-        : { ssl: { rejectUnauthorized: false } }),
-    } as any);
-    await client.connect();
-    try {
-      const { rows } = await client.query(query as string, params);
-      return rows as unknown as T;
-    } finally {
-      await client.end();
-    }
+// Extra time given to the engine's own timeout before the connector cancels actively
+const TIMEOUT_GRACE_MS = 2000;
+
+/**
+ * Internal query execution function that handles the actual database interaction
+ * through the adapter registered for `cfg.databaseType`. `fn` runs with a borrowed
+ * connection and options whose signal also fires on timeout.
+ */
+async function withConnection<T>(
+  cfg: ConnectorCfg,
+  options: ExecuteOptions,
+  fn: (adapter: DatabaseAdapter, conn: any, options: ExecuteOptions) => Promise<T>,
+): Promise<T> {
+  // Combine the caller's signal with a timeout backstop, in case the engine
+  // ignores (or doesn't support) its native limit
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(options.signal!.reason);
+  if (options.signal?.aborted) {
+    forwardAbort();
+  } else {
+    options.signal?.addEventListener('abort', forwardAbort, { once: true });
   }
+  const backstop = options.timeoutMs
+    ? setTimeout(
+        () => controller.abort(new Error(`Query exceeded the ${options.timeoutMs}ms timeout and was cancelled`)),
+        options.timeoutMs + TIMEOUT_GRACE_MS
+      )
+    : undefined;
 
-  // default mysql
-  const conn = await mysql.createConnection({
-    host: cfg.host,
-    port: cfg.port || 3306,
-    user: cfg.user,
-    password: cfg.password,
-    database: cfg.database,
-  });
+  const adapter = getAdapter(cfg.databaseType);
+  const conn = await adapter.connect(cfg);
   try {
-    const [rows] = await conn.query(query as string, params);
-    return rows as unknown as T;
+    return await fn(adapter, conn, { ...options, signal: controller.signal });
+  } catch (error) {
+    // Surface why the statement stopped rather than the driver's generic cancel error
+    if (controller.signal.aborted && controller.signal.reason instanceof Error) {
+      throw controller.signal.reason;
+    }
+    throw error;
   } finally {
-    await conn.end();
+    clearTimeout(backstop);
+    options.signal?.removeEventListener('abort', forwardAbort);
+    await adapter.close(conn);
   }
 }
 
@@ -393,119 +505,84 @@ async function execQuery<T = any[]>(
 import * as schemaUtils from '../connector/schemaManager';
 export * from '../connector/schemaManager';
 
-const {
-  loadSchemaMap,
-  loadTableSizes,
-  loadAllPostgresIndexes,
-  schemaMap,
-  indexMap,
-  tableSizeCache,
-} = schemaUtils as any;
+export interface InitMetadataOptions {
+  refresh?: boolean; // ignore the on-disk schema cache and reload everything
+}
 
 /**
- * Load schema, indexes & table sizes into in-memory maps so orchestrator can reason.
- * Returns the actual maps for convenience.
+ * Load schema, indexes, table sizes & relationships (and column statistics /
+ * observed enum values with SCHEMA_COLUMN_STATS / SCHEMA_VALUE_CATALOG=true) into
+ * the catalog of cfg's database so orchestrator can reason, and make it the active catalog behind
+ * the compatibility maps. Returns that catalog.
+ *
+ * Metadata comes from the on-disk schema cache while it is fresh and the
+ * adapter's fingerprint shows no DDL since; tables whose data changed get their
+ * sizes reloaded.
  */
-export async function initMetadata(cfg: ConnectorCfg, context?: AnalysisContext): Promise<{
-  schemaMap: typeof schemaMap;
-  indexMap: typeof indexMap;
-  tableSizeCache: typeof tableSizeCache;
-}> {
-  const inner = async () => {
-    
-    if (cfg.databaseType === 'mongodb') {
-      try {
-        const mongodb = await import('mongodb');
-        const MongoClient = mongodb.MongoClient;
-        const connectionString = buildMongoConnectionString(cfg);
-        const client = new MongoClient(connectionString, cfg.mongoOptions);
-        await client.connect();
-        await loadSchemaMap(client, cfg.database, 'mongodb');
-        await loadTableSizes(client, cfg.database, 'mongodb');
-        await client.close();
-      } catch (error) {
-        if ((error as any).code === 'MODULE_NOT_FOUND') {
-          throw new Error('MongoDB driver not found. Please install mongodb package: npm install mongodb');
-        }
-        throw error;
-      }
-    } else if (cfg.databaseType === 'databricks') {
-      // throw new Error(JSON.stringify(cfg));
-      try {
-        // Dynamic import to handle optional Databricks dependency
-        const databricksSql = await import('@databricks/sql');
-        
-        const httpPath = (cfg.databricksOptions && cfg.databricksOptions.httpPath) || (cfg as any).databricksHttpPath;
-        if (!httpPath) {
-          throw new Error('Missing Databricks httpPath in configuration');
-        }
-        const client = new databricksSql.DBSQLClient();
-        const connection = await client.connect({
-          host: cfg.host,
-          path: httpPath,
-          token: cfg.password, // token stored in password field
-        });
+export async function initMetadata(cfg: ConnectorCfg, context?: AnalysisContext, options: InitMetadataOptions = {}): Promise<schemaUtils.SchemaCatalog> {
+  // Keyed by the configured server, even when cfg is a tunnel's local config (see catalogKey)
+  const catalog = schemaUtils.getCatalog(cfg);
+  schemaUtils.setActiveCatalog(catalog);
+  const cacheOptions = schemaCacheOptionsFromEnv();
+  const cached = cacheOptions && !options.refresh ? await readSchemaCache(catalog.key, cacheOptions) : undefined;
 
+  await withTunnel(cfg, async (localCfg) => {
+    const adapter = getAdapter(localCfg.databaseType);
+    const conn = await adapter.connect(localCfg);
+    try {
+      let fingerprint: schemaUtils.MetadataFingerprint | undefined;
+      if (cacheOptions && adapter.fingerprint) {
         try {
-          await loadSchemaMap(connection, cfg.database, 'databricks', cfg);
-          await loadTableSizes(connection, cfg.database, 'databricks', cfg);
-          // Note: Databricks doesn't have traditional indexes, but we call this for consistency
-          // The actual implementation will handle clustering keys and partitioning info
-        } finally {
-          await connection.close();
+          // Taken before loading, so changes made meanwhile show up next time
+          fingerprint = await adapter.fingerprint(conn, localCfg);
+        } catch (error) {
+          console.error(`⚠️  Schema change detection failed, reloading metadata: ${(error as any).message}`);
         }
-      } catch (error) {
-        if ((error as any).code === 'MODULE_NOT_FOUND') {
-          throw new Error('Databricks SQL driver not found. Please install: npm install @databricks/sql');
+      }
+
+      if (cached && !isSchemaCacheExpired(cached, cacheOptions!)) {
+        const unchanged = adapter.fingerprint
+          ? fingerprint !== undefined && cached.fingerprint?.schema === fingerprint.schema
+          : true; // nothing to compare: trust the cache until it expires
+        if (unchanged) {
+          schemaUtils.setMetadata(cached.maps, catalog);
+          schemaUtils.suppressRareColumnStats(catalog);
+          const changed = fingerprint ? changedTables(cached.fingerprint!, fingerprint) : [];
+          if (changed.length) {
+            await adapter.loadSizes(conn, localCfg, catalog, changed);
+            await writeSchemaCache(catalog, fingerprint, cacheOptions!, cached.loadedAt);
+          }
+          return;
         }
-        throw error;
       }
-    } else if (cfg.databaseType === 'postgres') {
-      // Use pgDisableSsl from context if available, otherwise fall back to environment variable
-      // const pgDisableSsl = context.pgDisableSsl
-      
-      const client = new pg.Client({
-        host: cfg.host,
-        port: cfg.port || 5432,
-        user: cfg.user,
-        password: cfg.password,
-        database: cfg.database,
-        ssl: cfg.pgDisableSsl ? undefined : { rejectUnauthorized: false },
-      } as any);
-      await client.connect();
-      await loadSchemaMap(client, cfg.database, 'postgres');
-      await loadAllPostgresIndexes(client);
-      await loadTableSizes(client, cfg.database, 'postgres');
-      await client.end();
-    } else {
-      const conn = await mysql.createConnection({
-        host: cfg.host,
-        port: cfg.port || 3306,
-        user: cfg.user,
-        password: cfg.password,
-        database: cfg.database,
-      });
-      
-      await loadSchemaMap(conn as any, cfg.database, 'mysql');
-      await loadTableSizes(conn as any, cfg.database, 'mysql');
-      await conn.end();
-    }
-  };
 
-  await (inner());
-  
-  // Get fresh references AFTER loading is complete
-  const { schemaMap: finalSchema, indexMap: finalIndex, tableSizeCache: finalSizes } = 
-    await import('../connector/schemaManager');
-  
-  return { 
-    schemaMap: finalSchema, 
-    indexMap: finalIndex, 
-    tableSizeCache: finalSizes 
-  };
+      // Adapters that don't report table kinds leave this empty
+      schemaUtils.setMetadata({ tableInfoMap: {} }, catalog);
+      await adapter.loadSchema(conn, localCfg, catalog);
+      await adapter.loadIndexes(conn, localCfg, catalog);
+      await adapter.loadSizes(conn, localCfg, catalog);
+      if (adapter.loadRelationships) {
+        await adapter.loadRelationships(conn, localCfg, catalog);
+      } else {
+        // Don't leave stale foreign keys behind on a reload
+        schemaUtils.setMetadata({ relationshipMap: {} }, catalog);
+      }
+      if (adapter.loadColumnStats && process.env.SCHEMA_COLUMN_STATS === 'true') {
+        await adapter.loadColumnStats(conn, localCfg, catalog);
+      }
+      const valueCatalogOptions = valueCatalogOptionsFromEnv();
+      if (valueCatalogOptions) {
+        await loadValueCatalog(adapter, conn, localCfg, catalog, valueCatalogOptions);
+      }
+      // Loaders report failures by leaving maps empty; don't keep that around
+      if (cacheOptions && Object.keys(catalog.schemaMap).length > 0) {
+        await writeSchemaCache(catalog, fingerprint, cacheOptions);
+      }
+    } finally {
+      await adapter.close(conn);
+    }
+  });
+  return catalog;
 }
 
-// Final explicit exports so downstream TS consumers can import directly.
-export { schemaMap, indexMap, tableSizeCache };
-
 // --------------------------- EOF ---------------------------- 
\ No newline at end of file
@@ -0,0 +1,403 @@
+/**
+ * Column Lineage
+ * Which tables a statement reads and which source columns each of its result
+ * columns is computed from, so masking rules written for `ssn` also cover
+ * `SELECT ssn AS x` or `lower(ssn)`. The analysis errs towards more sources:
+ * a result column it can't trace is attributed to every column read by the
+ * statement's unnamed expressions.
+ */
+
+import { tokenize, toDialect, Token } from './readOnlyGuard';
+import type { MongoQuery } from './index';
+
+export interface ColumnSources {
+  columns: string[];  // lower-case source column names, the result column's own name included
+  wholeRow: boolean;  // a whole row (or document) of a table is returned under this name
+}
+
+export interface ColumnLineage {
+  tables: string[];     // FROM / JOIN targets (collections for MongoDB), with the unqualified forms of qualified names
+  opaque: boolean;      // the statement runs SQL text the parser can't see, so sources are unknown
+  valueColumn?: string; // rows are bare values of this column (MongoDB distinct)
+  sources(column: string): ColumnSources;
+}
+
+interface Output {
+  columns: Set<string>;
+  wholeRow: boolean;
+}
+
+class LineageBuilder {
+  readonly tables = new Set<string>();
+  readonly outputs = new Map<string, Output>();
+  // Sources of expressions whose result column name is chosen by the engine
+  readonly untraced: Output = { columns: new Set(), wholeRow: false };
+  opaque = false;
+
+  addTable(name: string) {
+    const parts = name.toLowerCase().split('.');
+    for (let i = 0; i < parts.length; i++) {
+      this.tables.add(parts.slice(i).join('.'));
+    }
+  }
+
+  add(output: string | undefined, columns: Iterable<string>, wholeRow = false) {
+    let entry = this.untraced;
+    if (output !== undefined) {
+      const name = output.toLowerCase();
+      entry = this.outputs.get(name) ?? { columns: new Set(), wholeRow: false };
+      this.outputs.set(name, entry);
+    }
+    for (const column of columns) entry.columns.add(column.toLowerCase());
+    entry.wholeRow ||= wholeRow;
+  }
+
+  build(valueColumn?: string): ColumnLineage {
+    const { outputs, untraced } = this;
+    const resolve = (name: string): ColumnSources => {
+      const columns = new Set([name]);
+      let wholeRow = false;
+      const queue = [name];
+      if (!outputs.has(name)) {
+        // Not named by any select item: an engine-named expression, or a column of `*`
+        wholeRow = untraced.wholeRow;
+        for (const column of untraced.columns) {
+          if (!columns.has(column)) {
+            columns.add(column);
+            queue.push(column);
+          }
+        }
+      }
+      while (queue.length) {
+        const entry = outputs.get(queue.pop()!);
+        if (!entry) continue;
+        wholeRow ||= entry.wholeRow;
+        for (const column of entry.columns) {
+          if (!columns.has(column)) {
+            columns.add(column);
+            queue.push(column);
+          }
+        }
+      }
+      return { columns: Array.from(columns), wholeRow };
+    };
+
+    return {
+      tables: Array.from(this.tables),
+      opaque: this.opaque,
+      ...(valueColumn !== undefined ? { valueColumn } : {}),
+      sources(column: string) {
+        const name = column.toLowerCase();
+        const result = resolve(name);
+        const dot = name.indexOf('.');
+        if (dot > 0) {
+          // Nested field: follow the top-level column, then append the path
+          const head = resolve(name.slice(0, dot));
+          const rest = name.slice(dot);
+          result.columns.push(...head.columns.map(source => source + rest));
+          result.wholeRow ||= head.wholeRow;
+        }
+        return result;
+      },
+    };
+  }
+}
+
+/* ── SQL ────────────────────────────────────────────────────────────── */
+
+// Words that can't be a table or column alias
+const NOT_ALIAS = new Set([
+  'FROM', 'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'WINDOW', 'QUALIFY', 'INTO',
+  'UNION', 'INTERSECT', 'EXCEPT', 'MINUS', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS',
+  'NATURAL', 'ON', 'USING', 'LATERAL', 'TABLESAMPLE', 'PIVOT', 'UNPIVOT', 'FOR', 'AS', 'END', 'AND', 'OR',
+  'NOT', 'NULL', 'TRUE', 'FALSE', 'IS', 'IN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'ASC', 'DESC', 'SELECT',
+]);
+
+// Words that end the select list of a SELECT
+const SELECT_LIST_END = new Set(['FROM', 'INTO', 'WHERE', 'GROUP', 'HAVING', 'WINDOW', 'QUALIFY', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS']);
+
+// Words that end the relations of a FROM clause
+const FROM_LIST_END = new Set(['WHERE', 'GROUP', 'HAVING', 'WINDOW', 'QUALIFY', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'FOR', 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS']);
+
+const SET_OPERATIONS = new Set(['UNION', 'INTERSECT', 'EXCEPT', 'MINUS']);
+
+// FROM inside these calls is part of the call, e.g. EXTRACT(YEAR FROM ts)
+const FROM_FUNCTIONS = new Set(['EXTRACT', 'SUBSTRING', 'TRIM', 'OVERLAY', 'POSITION']);
+
+// Functions that run a query given as text, or read a table named in a string
+const OPAQUE_FUNCTIONS = new Set([
+  'QUERY_TO_XML', 'QUERY_TO_XMLSCHEMA', 'QUERY_TO_XML_AND_XMLSCHEMA', 'CURSOR_TO_XML',
+  'TABLE_TO_XML', 'TABLE_TO_XMLSCHEMA', 'TABLE_TO_XML_AND_XMLSCHEMA', 'SCHEMA_TO_XML', 'DATABASE_TO_XML',
+  'DBLINK',
+]);
+
+interface SelectItem {
+  output?: string;    // alias, or the column name of a plain column reference
+  columns: string[];  // identifiers read by the item
+  wholeRow: boolean;
+  expression: boolean;
+}
+
+interface SelectList {
+  selectIndex: number;
+  depth: number;
+  items: SelectItem[];
+}
+
+/** Lineage of a SQL statement; `databaseType` selects the quoting rules. */
+export function sqlLineage(sql: string, databaseType?: string): ColumnLineage {
+  const tokens = tokenize(sql, toDialect(databaseType));
+  const builder = new LineageBuilder();
+
+  const depths: number[] = [];
+  const matching = new Map<number, number>(); // '(' index → ')' index
+  const openers: number[] = [];
+  let depth = 0;
+  tokens.forEach((token, i) => {
+    if (token.value === ')') {
+      depth--;
+      const open = openers.pop();
+      if (open !== undefined) matching.set(open, i);
+    }
+    depths.push(depth);
+    if (token.value === '(') {
+      depth++;
+      openers.push(i);
+    }
+  });
+
+  const identifier = (token: Token | undefined): string | undefined => {
+    if (!token) return undefined;
+    if (token.text !== undefined) return token.text;
+    return token.type === 'word' ? token.value.toLowerCase() : undefined;
+  };
+  const isAlias = (token: Token | undefined) =>
+    token !== undefined && (token.text !== undefined || (token.type === 'word' && !NOT_ALIAS.has(token.value)));
+
+  // Names defined by WITH: `name AS (` or `name (columns) AS (`
+  const cteNames = new Set<string>();
+  tokens.forEach((token, i) => {
+    const name = identifier(token);
+    if (!name || !['WITH', 'RECURSIVE', ','].includes(tokens[i - 1]?.value ?? '')) return;
+    let next = i + 1;
+    if (tokens[next]?.value === '(') next = (matching.get(next) ?? next) + 1;
+    if (tokens[next]?.value === 'AS' && tokens[next + 1]?.value === '(') cteNames.add(name);
+  });
+
+  // FROM / JOIN targets; their aliases let whole-row references be recognized
+  const relationNames = new Set<string>();
+  const readRelation = (start: number): number => {
+    let i = start;
+    while (['LATERAL', 'ONLY'].includes(tokens[i]?.value ?? '')) i++;
+    if (tokens[i]?.value === '(') {
+      i = (matching.get(i) ?? tokens.length - 1) + 1; // derived table, read on its own
+    } else {
+      const parts: string[] = [];
+      while (identifier(tokens[i]) !== undefined) {
+        parts.push(identifier(tokens[i])!);
+        i++;
+        if (tokens[i]?.value !== '.') break;
+        i++;
+      }
+      if (parts.length && tokens[i]?.value === '(') {
+        i = (matching.get(i) ?? tokens.length - 1) + 1; // table function
+      } else if (parts.length) {
+        const name = parts.join('.');
+        if (!(parts.length === 1 && cteNames.has(name))) builder.addTable(name);
+        relationNames.add(parts[parts.length - 1]);
+      }
+    }
+    if (tokens[i]?.value === 'AS') i++;
+    if (isAlias(tokens[i])) {
+      relationNames.add(identifier(tokens[i])!);
+      i++;
+      if (tokens[i]?.value === '(') i = (matching.get(i) ?? tokens.length - 1) + 1; // column aliases
+    }
+    return i;
+  };
+
+  tokens.forEach((token, i) => {
+    if (token.value === 'JOIN') {
+      readRelation(i + 1);
+    } else if (token.value === 'FROM') {
+      const open = [...matching.entries()].find(([o, c]) => o < i && c > i && depths[o] === depths[i] - 1)?.[0];
+      if (open !== undefined && FROM_FUNCTIONS.has(tokens[open - 1]?.value ?? '')) return;
+      if (tokens[i - 1]?.value === 'DISTINCT' && tokens[i - 2]?.value === 'IS') return; // IS [NOT] DISTINCT FROM
+      // Comma-separated relations, also after a JOIN's ON condition
+      for (let next = readRelation(i + 1); next < tokens.length && depths[next] >= depths[i]; next++) {
+        if (depths[next] !== depths[i]) continue;
+        if (FROM_LIST_END.has(tokens[next].value) || tokens[next].value === ';') break;
+        if (tokens[next].value === ',') next = readRelation(next + 1) - 1;
+      }
+    } else if (token.type === 'word' && tokens[i + 1]?.value === '(' && OPAQUE_FUNCTIONS.has(token.value)) {
+      builder.opaque = true;
+    }
+  });
+
+  // Select lists, at every depth
+  const lists: SelectList[] = [];
+  tokens.forEach((token, s) => {
+    if (token.value !== 'SELECT') return;
+    const d = depths[s];
+    let start = s + 1;
+    while (['DISTINCT', 'ALL'].includes(tokens[start]?.value ?? '')) {
+      start++;
+      if (tokens[start - 1].value === 'DISTINCT' && tokens[start]?.value === 'ON' && tokens[start + 1]?.value === '(') {
+        start = (matching.get(start + 1) ?? tokens.length - 1) + 1;
+      }
+    }
+    let end = start;
+    while (end < tokens.length && depths[end] >= d
+      && !(depths[end] === d && (SELECT_LIST_END.has(tokens[end].value) || tokens[end].value === ';'))) {
+      end++;
+    }
+
+    const items: SelectItem[] = [];
+    let itemStart = start;
+    for (let i = start; i <= end; i++) {
+      if (i === end || (depths[i] === d && tokens[i].value === ',')) {
+        if (i > itemStart) items.push(selectItem(tokens.slice(itemStart, i)));
+        itemStart = i + 1;
+      }
+    }
+    lists.push({ selectIndex: s, depth: d, items });
+  });
+
+  function selectItem(item: Token[]): SelectItem {
+    let body = item;
+    let alias: string | undefined;
+    const last = item[item.length - 1];
+    const beforeLast = item[item.length - 2];
+    // A bare alias follows a complete operand; `x::text` ends in a type name instead
+    const aliasable = beforeLast?.value === 'AS' || beforeLast?.type === 'word' || /^[)'"`\d]$/.test(beforeLast?.value ?? '');
+    if (item.length > 1 && isAlias(last) && aliasable) {
+      alias = identifier(last);
+      body = item.slice(0, beforeLast?.value === 'AS' ? -2 : -1);
+    }
+
+    // `*`, `t.*`, or a column reference such as `t.ssn`
+    const names = body.filter((_, i) => i % 2 === 0);
+    const plain = names.length > 0
+      && body.every((token, i) => (i % 2 === 1 ? token.value === '.' : identifier(token) !== undefined || (i === body.length - 1 && token.value === '*')));
+    if (plain && body[body.length - 1].value === '*') {
+      return { columns: [], wholeRow: false, expression: false };
+    }
+    if (plain) {
+      const column = identifier(names[names.length - 1])!;
+      return { output: alias ?? column, columns: [column], wholeRow: relationNames.has(column), expression: false };
+    }
+
+    const columns: string[] = [];
+    let wholeRow = false;
+    body.forEach((token, i) => {
+      const name = identifier(token);
+      if (name === undefined || body[i + 1]?.value === '(' || body[i + 1]?.value === '.') return;
+      columns.push(name);
+      // A table or its alias as a value: the whole row, e.g. row_to_json(p)
+      if (relationNames.has(name) && body[i - 1]?.value !== '.') wholeRow = true;
+    });
+    return { output: alias, columns, wholeRow, expression: true };
+  }
+
+  // Items of a set operation's later branches come out under the first branch's names
+  const branchOf = (selectIndex: number) => lists.find(list => list.selectIndex === selectIndex);
+  tokens.forEach((token, u) => {
+    if (!SET_OPERATIONS.has(token.value)) return;
+    const du = depths[u];
+    let left: SelectList | undefined;
+    if (tokens[u - 1]?.value === ')') {
+      const open = [...matching.entries()].find(([, close]) => close === u - 1)?.[0] ?? -1;
+      left = lists.find(list => list.selectIndex > open && list.depth === du + 1);
+    } else {
+      left = [...lists].reverse().find(list => list.selectIndex < u && list.depth === du);
+    }
+    let next = u + 1;
+    while (['ALL', 'DISTINCT', '('].includes(tokens[next]?.value ?? '')) next++;
+    const right = branchOf(next);
+    if (!left || !right) {
+      // Unrecognized shape: attribute the branch to every name
+      for (const item of right?.items ?? []) builder.add(undefined, item.columns, true);
+      return;
+    }
+    right.items.forEach((item, position) => {
+      const target = left!.items[position];
+      builder.add(target?.output, [...item.columns, ...(item.output ? [item.output] : [])], item.wholeRow);
+    });
+  });
+
+  for (const list of lists) {
+    for (const item of list.items) {
+      builder.add(item.output, item.columns, item.wholeRow);
+      // In case the alias was misread, untraced names also get every expression's sources
+      if (item.expression && item.output !== undefined) builder.add(undefined, item.columns, item.wholeRow);
+    }
+  }
+  return builder.build();
+}
+
+/* ── MongoDB ────────────────────────────────────────────────────────── */
+
+// Stages whose keys name output fields
+const MONGO_SHAPING_STAGES = ['$project', '$addFields', '$set', '$group'];
+
+/** Field paths referenced as "$path" anywhere in an expression. */
+function fieldReferences(expression: any, references: string[] = []): string[] {
+  if (typeof expression === 'string') {
+    if (expression.startsWith('$') && !expression.startsWith('$$')) references.push(expression.slice(1));
+  } else if (Array.isArray(expression)) {
+    expression.forEach(child => fieldReferences(child, references));
+  } else if (expression && typeof expression === 'object') {
+    Object.values(expression).forEach(child => fieldReferences(child, references));
+  }
+  return references;
+}
+
+/** Lineage of a MongoDB query: renamed and computed fields, and $lookup / $unionWith collections. */
+export function mongoLineage(query: MongoQuery): ColumnLineage {
+  const builder = new LineageBuilder();
+  builder.addTable(query.collection);
+
+  const shape = (spec: Record<string, any>) => {
+    for (const [field, expression] of Object.entries(spec ?? {})) {
+      if (field.startsWith('$') || expression === 0 || expression === 1 || typeof expression === 'boolean') continue;
+      builder.add(field, fieldReferences(expression));
+    }
+  };
+  const visitPipeline = (pipeline: any[]) => {
+    for (const stage of pipeline ?? []) {
+      const [name] = Object.keys(stage ?? {});
+      const spec = stage?.[name];
+      if (MONGO_SHAPING_STAGES.includes(name)) {
+        shape(spec);
+      } else if (name === '$bucket' || name === '$bucketAuto') {
+        builder.add('_id', fieldReferences(spec?.groupBy));
+        shape(spec?.output);
+      } else if (name === '$sortByCount') {
+        builder.add('_id', fieldReferences(spec));
+      } else if (name === '$replaceRoot' || name === '$replaceWith') {
+        // The new root's fields can't be told apart
+        builder.add(undefined, fieldReferences(spec), true);
+      } else if (name === '$lookup' || name === '$graphLookup') {
+        if (spec?.from) builder.addTable(String(spec.from));
+        visitPipeline(spec?.pipeline);
+        builder.add(spec?.as, [], true);
+      } else if (name === '$unionWith') {
+        const collection = typeof spec === 'string' ? spec : spec?.coll;
+        if (collection) builder.addTable(String(collection));
+        visitPipeline(spec?.pipeline);
+      } else if (name === '$facet') {
+        for (const [field, subPipeline] of Object.entries(spec ?? {})) {
+          visitPipeline(subPipeline as any[]);
+          builder.add(field, [], true);
+        }
+      }
+    }
+  };
+
+  if (query.operation === 'aggregate') {
+    visitPipeline(query.pipeline ?? []);
+  } else if (query.operation === 'find' && query.options?.projection) {
+    shape(query.options.projection);
+  }
+  return builder.build(query.operation === 'distinct' ? query.field : undefined);
+}
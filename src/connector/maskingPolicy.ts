@@ -0,0 +1,381 @@
+/**
+ * Masking Policy
+ * Redacts values before they leave the machine. A JSON policy file
+ * (CELP_MASKING_POLICY) marks columns by table/column glob, or values by
+ * detected pattern (email, phone, card, or a custom regex), as masked,
+ * hashed or dropped. Applied to query results and to Mongo sample values;
+ * column rules follow result columns back to their source columns (see lineage.ts).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { ColumnMeta } from './resultGuard';
+import type { MongoQuery } from './index';
+import { sqlLineage, mongoLineage, ColumnLineage } from './lineage';
+
+export type MaskingAction = 'mask' | 'hash' | 'drop';
+
+const ruleSchema = z.object({
+  table: z.string().optional(),   // glob, e.g. "users" or "crm.*"
+  column: z.string().optional(),  // glob, e.g. "*email*"; dotted paths match nested fields
+  pattern: z.string().optional(), // "email" | "phone" | "card" or a regular expression; with `column`, only searched there
+  action: z.enum(['mask', 'hash', 'drop']),
+}).refine(rule => rule.column || rule.pattern, { message: 'rule needs a column glob or a pattern' });
+
+const policySchema = z.object({
+  hashSalt: z.string().optional(),
+  rules: z.array(ruleSchema),
+});
+
+export type MaskingRule = z.infer<typeof ruleSchema>;
+export type MaskingPolicyFile = z.infer<typeof policySchema>;
+
+/** Where the values being redacted came from. */
+export interface MaskingScope {
+  tables?: string[];            // tables (or collections) the values may belong to
+  query?: string | MongoQuery;  // statement that produced them; its tables and column lineage are taken from it
+  databaseType?: string;        // SQL dialect of `query`
+}
+
+interface ResolvedScope {
+  tables: string[];
+  lineage?: ColumnLineage;
+}
+
+// When one result column comes from several sources, the strictest action wins
+const SEVERITY: Record<MaskingAction, number> = { mask: 1, hash: 2, drop: 3 };
+
+// Luhn check keeps order numbers and timestamps from being treated as card numbers
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const BUILT_IN_PATTERNS: Record<string, { regex: RegExp; accept?: (match: string) => boolean }> = {
+  email: { regex: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  phone: {
+    regex: /(?<![\w+])\+?\(?\d{1,4}\)?[\s.-]?\(?\d{2,4}\)?(?:[\s.-]?\d{2,4}){2,3}(?!\w)/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, '');
+      return digits.length >= 7 && digits.length <= 15;
+    },
+  },
+  card: {
+    regex: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    accept: (match) => passesLuhn(match.replace(/\D/g, '')),
+  },
+};
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.split('').map(ch => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&'))).join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** Parse the statement once, rather than per value. */
+function resolveScope(scope: MaskingScope | ResolvedScope): ResolvedScope {
+  if (!('query' in scope) || scope.query === undefined) {
+    return { tables: scope.tables ?? [], ...('lineage' in scope ? { lineage: scope.lineage } : {}) };
+  }
+  let lineage: ColumnLineage;
+  try {
+    lineage = typeof scope.query === 'object' ? mongoLineage(scope.query) : sqlLineage(scope.query, scope.databaseType);
+  } catch {
+    // Unparseable: sources unknown
+    lineage = { tables: [], opaque: true, sources: (column) => ({ columns: [column.toLowerCase()], wholeRow: false }) };
+  }
+  return { tables: [...(scope.tables ?? []), ...lineage.tables], lineage };
+}
+
+function tableMatches({ table }: CompiledRule, scope: ResolvedScope): boolean {
+  if (!table) return true;
+  // Unknown provenance: assume it matches, over-masking is the safe side
+  return !scope.tables.length || scope.lineage?.opaque === true || scope.tables.some(name => table.test(name));
+}
+
+function strictest(actions: Array<MaskingAction | undefined>): MaskingAction | undefined {
+  return actions.reduce<MaskingAction | undefined>(
+    (worst, action) => (action && (!worst || SEVERITY[action] > SEVERITY[worst]) ? action : worst),
+    undefined
+  );
+}
+
+interface CompiledRule {
+  rule: MaskingRule;
+  table?: RegExp;
+  column?: RegExp;
+  pattern?: { regex: RegExp; accept?: (match: string) => boolean };
+}
+
+export class MaskingPolicy {
+  private readonly rules: CompiledRule[];
+  private readonly salt: string;
+
+  constructor(policy: MaskingPolicyFile) {
+    this.salt = policy.hashSalt ?? process.env.CELP_MASKING_SALT ?? crypto.randomBytes(16).toString('hex');
+    this.rules = policy.rules.map(rule => ({
+      rule,
+      table: rule.table ? globToRegExp(rule.table) : undefined,
+      column: rule.column ? globToRegExp(rule.column) : undefined,
+      pattern: rule.pattern
+        ? BUILT_IN_PATTERNS[rule.pattern.toLowerCase()] ?? { regex: new RegExp(rule.pattern, 'g') }
+        : undefined,
+    }));
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /** Action for a whole column path, from the first matching table/column rule. */
+  columnAction(columnPath: string, scope: MaskingScope): MaskingAction | undefined {
+    const resolved = resolveScope(scope);
+    for (const compiled of this.rules) {
+      if (compiled.pattern || !compiled.column?.test(columnPath)) continue;
+      if (!tableMatches(compiled, resolved)) continue;
+      return compiled.rule.action;
+    }
+    return undefined;
+  }
+
+  /**
+   * Action for a result column of the scope's statement: the strictest action of
+   * its source columns. A whole row counts as every column of the statement's
+   * tables; a statement whose sources can't be seen counts as every column.
+   */
+  resultColumnAction(name: string, scope: MaskingScope): MaskingAction | undefined {
+    const resolved = resolveScope(scope);
+    const lineage = resolved.lineage;
+    if (!lineage) return this.columnAction(name, resolved);
+    const columnRules = this.rules.filter(compiled => !compiled.pattern && compiled.column);
+    if (lineage.opaque) return strictest(columnRules.map(compiled => compiled.rule.action));
+
+    const { columns, wholeRow } = lineage.sources(name);
+    const actions = columns.map(column => this.columnAction(column, resolved));
+    if (wholeRow) {
+      actions.push(...columnRules.filter(compiled => tableMatches(compiled, resolved)).map(compiled => compiled.rule.action));
+    }
+    return strictest(actions);
+  }
+
+  /** Apply `action` to a whole value. */
+  redactValue(value: any, action: Exclude<MaskingAction, 'drop'>): any {
+    if (value === null || value === undefined) return value;
+    if (action === 'hash') return this.hash(value);
+    return typeof value === 'string' ? maskString(value) : '***';
+  }
+
+  /**
+   * Replace pattern matches inside string and numeric values (recursing into
+   * objects and arrays); a number with a match becomes the redacted string.
+   * `columnPath` is the column the value belongs to, or its source columns.
+   * `dropped` is set when a match hits a rule whose action is `drop`.
+   */
+  redactPatterns(value: any, columnPath: string | string[] | undefined, scope: MaskingScope): { value: any; dropped: boolean } {
+    const resolved = resolveScope(scope);
+    const paths = columnPath === undefined ? [] : Array.isArray(columnPath) ? columnPath : [columnPath];
+    const rules = this.rules.filter((compiled) =>
+      compiled.pattern
+      && (!compiled.column || resolved.lineage?.opaque || paths.some(path => compiled.column!.test(path)))
+      && tableMatches(compiled, resolved)
+    );
+    if (!rules.length) {
+      return { value, dropped: false };
+    }
+
+    let dropped = false;
+    const visit = (current: any): any => {
+      // Card and phone numbers are often stored in numeric columns
+      if (typeof current === 'string' || typeof current === 'number' || typeof current === 'bigint') {
+        let result = String(current);
+        let redacted = false;
+        for (const { rule, pattern } of rules) {
+          if (!pattern) continue;
+          result = result.replace(pattern.regex, (match) => {
+            if (pattern.accept && !pattern.accept(match)) return match;
+            if (rule.action === 'drop') {
+              dropped = true;
+              return match;
+            }
+            redacted = true;
+            return rule.action === 'hash' ? this.hash(match) : maskString(match);
+          });
+        }
+        return redacted ? result : current;
+      }
+      if (Array.isArray(current)) return current.map(visit);
+      if (current && typeof current === 'object' && current.constructor === Object) {
+        return Object.fromEntries(Object.entries(current).map(([key, child]) => [key, visit(child)]));
+      }
+      return current;
+    };
+    const result = visit(value);
+    return { value: result, dropped };
+  }
+
+  /**
+   * Redact result rows. Columns matched by a `drop` rule (or holding a value that
+   * matches a `drop` pattern) are removed from both the rows and `columns`.
+   */
+  applyToRows<Row = any>(rows: Row[], columns: ColumnMeta[], scope: MaskingScope): { rows: Row[]; columns: ColumnMeta[] } {
+    if (this.isEmpty) {
+      return { rows, columns };
+    }
+    const resolved = resolveScope(scope);
+    const lineage = resolved.lineage;
+    // Pattern rules limited to a column apply to values computed from it
+    const sourcesOf = (name: string) => (lineage ? lineage.sources(name).columns : name);
+
+    const actions = new Map<string, MaskingAction | undefined>();
+    const actionFor = (name: string) => {
+      if (!actions.has(name)) actions.set(name, this.resultColumnAction(name, resolved));
+      return actions.get(name);
+    };
+    const dropped = new Set<string>();
+
+    const redactField = (name: string, value: any): any => {
+      const action = actionFor(name);
+      if (action === 'drop') {
+        dropped.add(name);
+        return undefined;
+      }
+      if (action) return this.redactValue(value, action);
+      if (value && typeof value === 'object' && value.constructor === Object) {
+        // Nested documents: column globs also match dotted paths
+        return Object.fromEntries(
+          Object.entries(value)
+            .map(([key, child]) => [key, redactField(`${name}.${key}`, child)] as const)
+            .filter(([key]) => !dropped.has(`${name}.${key}`))
+        );
+      }
+      const redacted = this.redactPatterns(value, sourcesOf(name), resolved);
+      if (redacted.dropped) dropped.add(name);
+      return redacted.value;
+    };
+
+    const valueColumn = lineage?.valueColumn;
+    const valueAction = valueColumn !== undefined ? actionFor(valueColumn) : undefined;
+    if (valueAction === 'drop') {
+      // distinct() of a dropped field
+      return { rows: [], columns };
+    }
+
+    const redactedRows = rows.map((row: any) => {
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        // distinct() returns bare values
+        if (valueAction) return this.redactValue(row, valueAction);
+        return this.redactPatterns(row, valueColumn !== undefined ? sourcesOf(valueColumn) : undefined, resolved).value;
+      }
+      const out: Record<string, any> = {};
+      for (const [name, value] of Object.entries(row)) {
+        out[name] = redactField(name, value);
+      }
+      return out;
+    });
+
+    // A column dropped because of one row's value is dropped from every row
+    for (const row of redactedRows as any[]) {
+      if (row && typeof row === 'object' && !Array.isArray(row)) {
+        for (const name of dropped) delete row[name];
+      }
+    }
+
+    return {
+      rows: redactedRows as Row[],
+      columns: columns
+        .filter(column => !dropped.has(column.name))
+        .map(column => {
+          const action = actionFor(column.name);
+          return action && action !== 'drop' ? { ...column, masking: action } : column;
+        }),
+    };
+  }
+
+  /**
+   * Redact sample values collected for a field during schema inference.
+   * Returns an empty list when the field is dropped.
+   */
+  applyToSamples(table: string, field: string, samples: any[]): any[] {
+    if (this.isEmpty) {
+      return samples;
+    }
+    const scope = { tables: [table] };
+    const action = this.columnAction(field, scope);
+    if (action === 'drop') return [];
+    if (action) return samples.map(sample => this.redactValue(sample, action));
+
+    const redacted = samples.map(sample => this.redactPatterns(sample, field, scope));
+    return redacted.some(sample => sample.dropped) ? [] : redacted.map(sample => sample.value);
+  }
+
+  private hash(value: any): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    // Deterministic, so joins and GROUP BYs over hashed values still line up
+    return `hash:${crypto.createHash('sha256').update(this.salt).update(text ?? '').digest('hex').slice(0, 16)}`;
+  }
+}
+
+function maskString(value: string): string {
+  const at = value.indexOf('@');
+  if (at > 0) {
+    // Keep the domain of email addresses
+    return `${value[0]}***${value.slice(at)}`;
+  }
+  // Keep the last 4 characters of long values (card / phone suffix)
+  return value.length > 8 ? `${'*'.repeat(value.length - 4)}${value.slice(-4)}` : '*'.repeat(value.length);
+}
+
+/* ── Policy loading ─────────────────────────────────────────────────── */
+const EMPTY_POLICY = new MaskingPolicy({ rules: [] });
+let cached: { file: string; mtimeMs: number; policy: MaskingPolicy } | undefined;
+
+/**
+ * The policy configured through CELP_MASKING_POLICY, re-read when the file
+ * changes. An unreadable or invalid policy throws rather than letting data through.
+ */
+export function getMaskingPolicy(file = process.env.CELP_MASKING_POLICY): MaskingPolicy {
+  if (!file) {
+    return EMPTY_POLICY;
+  }
+
+  const resolved = path.resolve(file);
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(resolved).mtimeMs;
+  } catch (error) {
+    throw new Error(`Masking policy ${resolved} could not be read: ${(error as any).message}`);
+  }
+  if (cached && cached.file === resolved && cached.mtimeMs === mtimeMs) {
+    return cached.policy;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+  } catch (error) {
+    throw new Error(`Masking policy ${resolved} is not valid JSON: ${(error as any).message}`);
+  }
+  const result = policySchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid masking policy ${resolved}: ${result.error.issues.map(issue => `${issue.path.join('.') || 'policy'}: ${issue.message}`).join('; ')}`);
+  }
+
+  let policy: MaskingPolicy;
+  try {
+    policy = new MaskingPolicy(result.data);
+  } catch (error) {
+    // Custom patterns are compiled as regular expressions
+    throw new Error(`Invalid masking policy ${resolved}: ${(error as any).message}`);
+  }
+  cached = { file: resolved, mtimeMs, policy };
+  return cached.policy;
+}
@@ -0,0 +1,141 @@
+/**
+ * Query Plans
+ * Engine-neutral execution plan tree produced by the adapters' explain(), and
+ * the summary that cross-references it with the index map and table sizes.
+ */
+
+export interface PlanNode {
+  nodeType: string;        // the engine's operator name (Seq Scan, COLLSCAN, HashAggregate, ...)
+  relation?: string;       // table / collection read by this node
+  index?: string;          // index used to read it
+  fullScan?: boolean;      // reads every row of `relation`
+  estimatedRows?: number;  // planner estimate
+  actualRows?: number;     // rows produced when the plan was executed (ANALYZE / executionStats)
+  cost?: number;           // cumulative cost in the engine's own units
+  detail?: string;         // filter / join condition
+  children: PlanNode[];
+}
+
+export interface ExplainOptions {
+  /** Execute the statement to collect actual row counts (read-only, under the timeout). */
+  analyze?: boolean;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface PlanWarning {
+  relation: string;
+  rows: number | null; // table size the warning is based on
+  message: string;
+}
+
+export interface ExplainResult {
+  databaseType: string;
+  plan: PlanNode;
+  warnings: PlanWarning[];
+  markdown: string;
+}
+
+/** Row count from which a full scan is worth flagging (EXPLAIN_LARGE_TABLE_ROWS). */
+export function largeTableRows(): number {
+  return process.env.EXPLAIN_LARGE_TABLE_ROWS ? parseInt(process.env.EXPLAIN_LARGE_TABLE_ROWS, 10) : 100000;
+}
+
+function walk(node: PlanNode, visit: (node: PlanNode, depth: number) => void, depth = 0) {
+  visit(node, depth);
+  for (const child of node.children) walk(child, visit, depth + 1);
+}
+
+/**
+ * Entry for `relation` in a metadata map keyed by bare (MySQL, Mongo) or
+ * schema-qualified (Postgres, Databricks) names; plans may use either form.
+ */
+export function lookupRelation<T>(map: Record<string, T>, relation: string): [string, T] | undefined {
+  const name = relation.replace(/[`"]/g, '').toLowerCase();
+  const bare = name.split('.').pop()!;
+  const keys = Object.keys(map);
+  const key = keys.find(k => k.toLowerCase() === name)
+    ?? keys.find(k => k.toLowerCase().endsWith(`.${name}`))
+    ?? keys.find(k => k.toLowerCase() === bare)
+    ?? keys.find(k => k.toLowerCase().endsWith(`.${bare}`));
+  return key !== undefined ? [key, map[key]] : undefined;
+}
+
+/** Leading columns of each index; only these let the engine avoid a full scan. */
+function leadingIndexColumns(entries: any[] = []): string[] {
+  const columns = new Set<string>();
+  for (const entry of entries) {
+    if (Array.isArray(entry?.fields)) {
+      if (entry.fields[0]) columns.add(entry.fields[0]); // MongoDB
+    } else if (entry?.columnName && !entry.isExpression && entry.isValid !== false && (entry.seqInIndex ?? 1) === 1) {
+      // Expression keys don't serve plain column lookups; invalid (unfinished) indexes serve none
+      columns.add(entry.columnName);
+    }
+  }
+  return Array.from(columns);
+}
+
+/**
+ * Flag full scans of large tables. Sizes come from `tableSizeCache`, falling
+ * back to the plan's own row counts for tables it doesn't know.
+ */
+export function analyzePlan(
+  plan: PlanNode,
+  databaseType: string,
+  indexMap: Record<string, any[]>,
+  tableSizeCache: Record<string, number>,
+  threshold = largeTableRows()
+): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+  const seen = new Set<string>();
+  walk(plan, (node) => {
+    if (!node.fullScan || !node.relation || seen.has(node.relation)) return;
+    const cached = lookupRelation(tableSizeCache, node.relation);
+    const rows = cached ? Number(cached[1]) : node.actualRows ?? node.estimatedRows ?? null;
+    if (rows === null || rows < threshold) return;
+    seen.add(node.relation);
+
+    const name = cached?.[0] ?? node.relation;
+    const indexed = leadingIndexColumns(lookupRelation(indexMap, node.relation)?.[1]);
+    // Databricks tables have no indexes; pruning comes from partition / clustering columns
+    const advice = databaseType === 'databricks'
+      ? 'no partition filter applies – filter on a partition or clustering column'
+      : indexed.length
+        ? `indexes lead with ${indexed.map(c => `\`${c}\``).join(', ')} but none was used – filter or join on one of them, or add an index matching the filter`
+        : 'the table has no indexes – add one on the filtered or joined columns';
+    warnings.push({
+      relation: name,
+      rows,
+      message: `${node.nodeType} reads all of \`${name}\` (~${rows.toLocaleString('en-US')} rows${cached ? '' : ', planner estimate'})${node.detail ? ` to apply \`${node.detail.replace(/`/g, '')}\`` : ''}; ${advice}`,
+    });
+  });
+  return warnings;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toFixed(2);
+}
+
+export function planToMarkdown(databaseType: string, plan: PlanNode, warnings: PlanWarning[]): string {
+  const lines = [`### Execution plan (${databaseType})`, ''];
+  walk(plan, (node, depth) => {
+    const facts: string[] = [];
+    if (node.estimatedRows !== undefined) facts.push(`est. ${formatNumber(node.estimatedRows)} rows`);
+    if (node.actualRows !== undefined) facts.push(`actual ${formatNumber(node.actualRows)} rows`);
+    if (node.cost !== undefined) facts.push(`cost ${formatNumber(node.cost)}`);
+    const target = [
+      node.relation ? ` on \`${node.relation}\`` : '',
+      node.index ? ` using \`${node.index}\`` : '',
+    ].join('');
+    lines.push(`${'  '.repeat(depth)}- **${node.nodeType}**${target}${facts.length ? ` — ${facts.join(' · ')}` : ''}${node.fullScan ? ' ⚠️' : ''}`);
+    if (node.detail) lines.push(`${'  '.repeat(depth + 1)}\`${node.detail.replace(/`/g, '')}\``);
+  });
+
+  lines.push('', '### Warnings', '');
+  if (warnings.length) {
+    lines.push(...warnings.map(warning => `- ⚠️ ${warning.message}`));
+  } else {
+    lines.push('- No full scans of large tables.');
+  }
+  return lines.join('\n');
+}
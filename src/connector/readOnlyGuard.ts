@@ -0,0 +1,248 @@
+/**
+ * Read-Only Guard
+ * Statically inspects statements received from the remote orchestrator and
+ * rejects anything that could modify data, schema, permissions or the host.
+ * Adapters additionally run guarded statements inside read-only transactions.
+ */
+
+import type { MongoQuery } from './index';
+
+export class ReadOnlyViolationError extends Error {
+  constructor(readonly reason: string) {
+    super(`Query rejected by read-only guard: ${reason}`);
+    this.name = 'ReadOnlyViolationError';
+  }
+}
+
+export type Dialect = 'postgres' | 'mysql' | 'databricks' | 'ansi';
+
+// Statements may only start with one of these keywords
+const ALLOWED_LEADING = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW', 'DESCRIBE', 'DESC', 'EXPLAIN']);
+
+// Reserved words that signal a write wherever they appear (covers data-modifying CTEs,
+// EXPLAIN ANALYZE <dml>, SELECT ... FOR UPDATE, etc.)
+const FORBIDDEN_KEYWORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT',
+  'DROP', 'TRUNCATE', 'ALTER', 'CREATE', 'RENAME',
+  'GRANT', 'REVOKE', 'COPY', 'CALL', 'EXEC', 'EXECUTE',
+  'VACUUM', 'REINDEX', 'OPTIMIZE', 'INTO', 'OUTFILE', 'DUMPFILE',
+]);
+
+// Functions with side effects outside of the transaction
+const FORBIDDEN_FUNCTIONS: Record<Dialect, string[]> = {
+  postgres: [
+    'pg_terminate_backend', 'pg_cancel_backend', 'pg_reload_conf', 'pg_rotate_logfile',
+    'lo_import', 'lo_export', 'set_config', 'nextval', 'setval', 'pg_advisory_lock',
+    // dblink runs its SQL in a separate session that isn't read-only
+    'dblink', 'dblink_exec', 'dblink_send_query', 'dblink_open', 'dblink_connect', 'dblink_connect_u',
+    'pg_read_file', 'pg_read_binary_file', 'pg_ls_dir',
+  ],
+  mysql: ['load_file', 'get_lock', 'release_lock'],
+  databricks: [],
+  ansi: [],
+};
+
+// Aggregation stages that write to collections
+const MONGO_WRITE_STAGES = ['$out', '$merge'];
+
+export interface Token {
+  type: 'word' | 'symbol';
+  value: string;
+  start: number; // offset in the statement
+  text?: string;  // name inside a quoted identifier ("..." on Postgres, `...`)
+}
+
+export function toDialect(databaseType?: string): Dialect {
+  if (databaseType === 'postgres' || databaseType === 'mysql' || databaseType === 'databricks') {
+    return databaseType;
+  }
+  return databaseType ? 'ansi' : 'mysql';
+}
+
+/**
+ * Tokenize a statement into bare words and symbols, dropping comments, string
+ * literals and quoted identifiers so their contents can't trip (or hide from) the checks.
+ * Quoted identifiers keep their name in `text` for callers that resolve names.
+ */
+export function tokenize(sql: string, dialect: Dialect): Token[] {
+  const tokens: Token[] = [];
+  const backslashEscapes = dialect === 'mysql' || dialect === 'databricks';
+  let i = 0;
+
+  const skipQuoted = (quote: string, allowBackslash: boolean) => {
+    i++;
+    while (i < sql.length) {
+      const ch = sql[i];
+      if (allowBackslash && ch === '\\') {
+        i += 2;
+        continue;
+      }
+      if (ch === quote) {
+        if (sql[i + 1] === quote) {
+          i += 2;
+          continue;
+        }
+        i++;
+        return;
+      }
+      i++;
+    }
+    throw new ReadOnlyViolationError('unterminated quoted string or identifier');
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '-' && next === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (ch === '#' && dialect === 'mysql') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (ch === '/' && next === '*') {
+      if (dialect === 'mysql' && (sql[i + 2] === '!' || sql[i + 2] === '+')) {
+        // MySQL executes the body of /*! ... */ comments
+        throw new ReadOnlyViolationError('MySQL executable comments (/*! ... */) are not allowed');
+      }
+      if (dialect === 'postgres') {
+        // Postgres block comments nest
+        let depth = 0;
+        do {
+          if (sql[i] === '/' && sql[i + 1] === '*') {
+            depth++;
+            i += 2;
+          } else if (sql[i] === '*' && sql[i + 1] === '/') {
+            depth--;
+            i += 2;
+          } else {
+            i++;
+          }
+        } while (depth > 0 && i < sql.length);
+        if (depth > 0) {
+          throw new ReadOnlyViolationError('unterminated block comment');
+        }
+      } else {
+        const end = sql.indexOf('*/', i + 2);
+        if (end === -1) {
+          throw new ReadOnlyViolationError('unterminated block comment');
+        }
+        i = end + 2;
+      }
+    } else if (ch === "'") {
+      // Postgres E'...' strings honour backslash escapes
+      const escapeString = dialect === 'postgres' && /[eE]/.test(sql[i - 1] ?? '') && tokens[tokens.length - 1]?.value === 'E';
+      const start = i;
+      skipQuoted("'", backslashEscapes || escapeString);
+      tokens.push({ type: 'symbol', value: "'", start });
+    } else if (ch === '"') {
+      const start = i;
+      skipQuoted('"', backslashEscapes);
+      // MySQL and Databricks read "..." as a string
+      const identifier = dialect === 'postgres' || dialect === 'ansi';
+      tokens.push({ type: 'symbol', value: '"', start, ...(identifier ? { text: unquote(sql.slice(start, i), '"') } : {}) });
+    } else if (ch === '`' && dialect !== 'postgres') {
+      const start = i;
+      skipQuoted('`', false);
+      tokens.push({ type: 'symbol', value: '`', start, text: unquote(sql.slice(start, i), '`') });
+    } else if (ch === '$' && dialect === 'postgres' && /^\$([A-Za-z_][A-Za-z_0-9]*)?\$/.test(sql.slice(i))) {
+      const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z_0-9]*)?\$/)![0];
+      const end = sql.indexOf(tag, i + tag.length);
+      if (end === -1) {
+        throw new ReadOnlyViolationError('unterminated dollar-quoted string');
+      }
+      tokens.push({ type: 'symbol', value: "'", start: i });
+      i = end + tag.length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const start = i;
+      while (i < sql.length && /[A-Za-z0-9_$]/.test(sql[i])) i++;
+      tokens.push({ type: 'word', value: sql.slice(start, i).toUpperCase(), start });
+    } else {
+      tokens.push({ type: 'symbol', value: ch, start: i });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+function unquote(quoted: string, quote: string): string {
+  return quoted.slice(1, -1).split(quote + quote).join(quote);
+}
+
+/**
+ * Throw ReadOnlyViolationError unless `sql` is a single read-only statement.
+ */
+export function assertReadOnlySql(sql: string, databaseType?: string): void {
+  const dialect = toDialect(databaseType);
+
+  if (typeof sql !== 'string' || !sql.trim()) {
+    throw new ReadOnlyViolationError('empty statement');
+  }
+
+  const tokens = tokenize(sql, dialect);
+
+  // Only a single statement, optionally terminated by ';'
+  const semicolon = tokens.findIndex(t => t.value === ';');
+  if (semicolon !== -1 && tokens.slice(semicolon + 1).some(t => t.value !== ';')) {
+    throw new ReadOnlyViolationError('multi-statement batches are not allowed');
+  }
+
+  const words = tokens.filter(t => t.type === 'word').map(t => t.value);
+
+  if (words.includes('COPY') && words.includes('PROGRAM')) {
+    throw new ReadOnlyViolationError('COPY ... TO/FROM PROGRAM is not allowed');
+  }
+
+  const leading = tokens.find(t => t.value !== '(');
+  if (!leading || leading.type !== 'word' || !ALLOWED_LEADING.has(leading.value)) {
+    throw new ReadOnlyViolationError(`${leading?.value ?? 'statement'} statements are not allowed; only SELECT/WITH/SHOW/DESCRIBE/EXPLAIN`);
+  }
+
+  const forbidden = words.find(w => FORBIDDEN_KEYWORDS.has(w));
+  if (forbidden) {
+    throw new ReadOnlyViolationError(`${forbidden} is not allowed in read-only queries`);
+  }
+
+  const functions = new Set(FORBIDDEN_FUNCTIONS[dialect].map(f => f.toUpperCase()));
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (tokens[i].type === 'word' && tokens[i + 1].value === '(' && functions.has(tokens[i].value)) {
+      throw new ReadOnlyViolationError(`function ${tokens[i].value.toLowerCase()}() is not allowed in read-only queries`);
+    }
+  }
+}
+
+/**
+ * Throw ReadOnlyViolationError if the Mongo query could write (e.g. $out / $merge stages).
+ */
+export function assertReadOnlyMongo(query: MongoQuery): void {
+  if (!['find', 'aggregate', 'distinct', 'count'].includes(query.operation)) {
+    throw new ReadOnlyViolationError(`MongoDB operation "${query.operation}" is not allowed`);
+  }
+
+  const visit = (value: any) => {
+    if (!value || typeof value !== 'object') return;
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (MONGO_WRITE_STAGES.includes(key)) {
+        throw new ReadOnlyViolationError(`aggregation stage ${key} writes to a collection`);
+      }
+      visit(child);
+    }
+  };
+  visit(query.pipeline);
+}
+
+/**
+ * Dispatch to the SQL or Mongo check based on the query shape.
+ */
+export function assertReadOnlyQuery(query: string | MongoQuery, databaseType?: string): void {
+  if (typeof query === 'object' && query !== null) {
+    assertReadOnlyMongo(query);
+  } else {
+    assertReadOnlySql(query, databaseType);
+  }
+}
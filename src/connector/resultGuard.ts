@@ -0,0 +1,129 @@
+/**
+ * Result-Size Guard
+ * Caps how much of a result set leaves the machine. Adapters stop fetching after
+ * `maxRows + 1` rows (the extra row only proves there was more); the connector
+ * then trims to the row cap and the byte budget and reports what was cut.
+ */
+
+export interface ColumnMeta {
+  name: string;
+  type?: string; // engine type name when the driver reports it, otherwise the JS type of the values
+  masking?: 'mask' | 'hash'; // values were redacted by the masking policy
+}
+
+export interface ResultLimits {
+  maxRows: number;  // rows returned per result
+  maxBytes: number; // serialized (JSON) size of the returned rows
+}
+
+export interface QueryResult<Row = any> {
+  rows: Row[];
+  rowCount: number;
+  columns: ColumnMeta[];
+  truncated: boolean;
+  truncatedBy?: 'rows' | 'bytes';
+  // Exact when the result was not truncated; the engine's estimate (or null if it has none) otherwise
+  totalRowsEstimate: number | null;
+  suppressedGroups?: number; // aggregate-only mode: groups below the minimum size
+}
+
+export function resolveResultLimits(overrides: Partial<ResultLimits> = {}): ResultLimits {
+  const env = (name: string, fallback: number) =>
+    process.env[name] ? parseInt(process.env[name]!, 10) : fallback;
+
+  return {
+    maxRows: Math.max(1, overrides.maxRows ?? env('QUERY_MAX_ROWS', 10000)),
+    maxBytes: Math.max(1, overrides.maxBytes ?? env('QUERY_MAX_BYTES', 5 * 1024 * 1024)), // 5 MB
+  };
+}
+
+// JSON.stringify throws on BigInt, which some drivers return for 64-bit integers
+export const jsonReplacer = (_key: string, value: any) => (typeof value === 'bigint' ? value.toString() : value);
+
+export function serializedSize(value: any): number {
+  return Buffer.byteLength(JSON.stringify(value, jsonReplacer) ?? '', 'utf8');
+}
+
+function describeValue(value: any): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) return 'date';
+  if (Buffer.isBuffer(value)) return 'binary';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object') {
+    // BSON values (ObjectId, Decimal128, Long, ...) carry their type name
+    return typeof value._bsontype === 'string' ? value._bsontype : 'object';
+  }
+  return typeof value;
+}
+
+/**
+ * Derive column metadata from the rows themselves, for engines whose drivers
+ * don't report result columns (MongoDB, Databricks).
+ */
+export function inferColumns(rows: any[]): ColumnMeta[] {
+  const columns = new Map<string, ColumnMeta>();
+  for (const row of rows) {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      // distinct() returns bare values
+      if (!columns.has('value')) columns.set('value', { name: 'value' });
+      const column = columns.get('value')!;
+      column.type = column.type ?? describeValue(row);
+      continue;
+    }
+    for (const [name, value] of Object.entries(row)) {
+      const column = columns.get(name) ?? { name };
+      column.type = column.type ?? describeValue(value);
+      columns.set(name, column);
+    }
+  }
+  return Array.from(columns.values());
+}
+
+/**
+ * Trim `rows` (as fetched by an adapter with `maxRows` set) to the configured
+ * limits. `estimate` is consulted only when rows were dropped. `fetchedRows` is
+ * the adapter's row count when rows were filtered locally before this.
+ */
+export async function limitResult<Row = any>(
+  rows: Row[],
+  limits: ResultLimits,
+  columns: ColumnMeta[] | undefined,
+  estimate: () => Promise<number | null>,
+  fetchedRows = rows.length
+): Promise<QueryResult<Row>> {
+  let kept = rows;
+  let truncatedBy: QueryResult['truncatedBy'];
+
+  if (fetchedRows > limits.maxRows) {
+    kept = kept.slice(0, limits.maxRows);
+    truncatedBy = 'rows';
+  }
+
+  // Brackets and separating commas of the JSON array count towards the budget too
+  let bytes = 2;
+  for (let i = 0; i < kept.length; i++) {
+    bytes += serializedSize(kept[i]) + (i > 0 ? 1 : 0);
+    if (bytes > limits.maxBytes) {
+      kept = kept.slice(0, i);
+      truncatedBy = 'bytes';
+      break;
+    }
+  }
+
+  // Unless the adapter stopped at the lookahead row, it fetched the whole result
+  let totalRowsEstimate: number | null = rows.length;
+  if (truncatedBy && fetchedRows === limits.maxRows + 1) {
+    const estimated = await estimate().catch(() => null);
+    // Never report fewer rows than were actually seen
+    totalRowsEstimate = estimated !== null ? Math.max(estimated, fetchedRows) : null;
+  }
+
+  return {
+    rows: kept,
+    rowCount: kept.length,
+    columns: columns && columns.length ? columns : inferColumns(rows),
+    truncated: Boolean(truncatedBy),
+    ...(truncatedBy ? { truncatedBy } : {}),
+    totalRowsEstimate,
+  };
+}
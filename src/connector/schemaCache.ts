@@ -0,0 +1,121 @@
+/**
+ * Schema Cache
+ * Keeps each connection's SchemaCatalog on disk so metadata survives restarts
+ * instead of being re-read from information_schema for every orchestration.
+ * Entries expire after a TTL; until then the adapter's fingerprint() decides
+ * whether the whole catalog is reloaded (DDL changed), only the sizes of tables
+ * whose data changed, or nothing.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { jsonReplacer } from './resultGuard';
+import { aggregateOnlyFromEnv } from './aggregateGuard';
+import { valueCatalogOptionsFromEnv } from './valueCatalog';
+import type { CatalogMaps, MetadataFingerprint, SchemaCatalog } from './schemaManager';
+
+export interface SchemaCacheOptions {
+  dir: string;
+  ttlMs: number; // a full reload is forced once the last one is older than this
+}
+
+export interface SchemaCacheEntry {
+  version: number;
+  key: string;                      // catalogKey of the connection
+  loadedAt: string;                 // last full load, which the TTL counts from
+  refreshedAt: string;              // last full load or partial refresh
+  fingerprint?: MetadataFingerprint; // taken just before loadedAt / refreshedAt
+  settings?: string;                 // schemaCacheSettings() the maps were loaded under
+  maps: CatalogMaps;
+}
+
+// Bump when the shape of the cached maps changes, so old entries are reloaded
+const CACHE_VERSION = 1;
+
+export function schemaCacheOptionsFromEnv(): SchemaCacheOptions | undefined {
+  if (process.env.SCHEMA_CACHE_DISABLED === 'true') {
+    return undefined;
+  }
+  const ttlSeconds = process.env.SCHEMA_CACHE_TTL_SECONDS ? parseInt(process.env.SCHEMA_CACHE_TTL_SECONDS, 10) : 24 * 60 * 60;
+  return {
+    dir: process.env.SCHEMA_CACHE_DIR || path.join(os.homedir(), '.celp-mcp', 'schema-cache'),
+    ttlMs: ttlSeconds * 1000,
+  };
+}
+
+/**
+ * Signature of the settings that shape sample values, column statistics and
+ * enum values as they are loaded: the masking policy file's contents,
+ * SCHEMA_COLUMN_STATS, the value catalog and aggregate-only mode. Entries
+ * loaded under other settings are not used.
+ */
+export function schemaCacheSettings(): string {
+  const policyFile = process.env.CELP_MASKING_POLICY;
+  let maskingPolicy: string | null = null;
+  if (policyFile) {
+    try {
+      maskingPolicy = crypto.createHash('sha256').update(fs.readFileSync(path.resolve(policyFile))).digest('hex');
+    } catch {
+      maskingPolicy = 'unreadable'; // the load itself reports it
+    }
+  }
+  const settings = {
+    maskingPolicy,
+    columnStats: process.env.SCHEMA_COLUMN_STATS === 'true',
+    valueCatalog: valueCatalogOptionsFromEnv() ?? null,
+    aggregateOnly: aggregateOnlyFromEnv() ?? null,
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+}
+
+function cacheFile(options: SchemaCacheOptions, key: string): string {
+  // Keys contain host and user names; keep them out of file names
+  return path.join(options.dir, `${crypto.createHash('sha256').update(key).digest('hex').slice(0, 16)}.json`);
+}
+
+/** The cached entry for `key`, or undefined when there is none, it can't be used or it was loaded under other settings. */
+export async function readSchemaCache(key: string, options: SchemaCacheOptions): Promise<SchemaCacheEntry | undefined> {
+  try {
+    const entry: SchemaCacheEntry = JSON.parse(await fs.promises.readFile(cacheFile(options, key), 'utf8'));
+    return entry.version === CACHE_VERSION && entry.key === key && entry.settings === schemaCacheSettings() ? entry : undefined;
+  } catch {
+    return undefined; // missing, or torn by a crash mid-write
+  }
+}
+
+export function isSchemaCacheExpired(entry: SchemaCacheEntry, options: SchemaCacheOptions, now = Date.now()): boolean {
+  return now - Date.parse(entry.loadedAt) > options.ttlMs;
+}
+
+/** Tables whose data version differs from the cached fingerprint. */
+export function changedTables(cached: MetadataFingerprint, current: MetadataFingerprint): string[] {
+  return Object.keys(current.tables).filter(table => cached.tables[table] !== current.tables[table]);
+}
+
+/**
+ * Store `catalog`. Failures are reported on stderr: the catalog is still loaded
+ * in memory, it just has to be read from the database again next time.
+ */
+export async function writeSchemaCache(
+  catalog: SchemaCatalog,
+  fingerprint: MetadataFingerprint | undefined,
+  options: SchemaCacheOptions,
+  loadedAt = new Date().toISOString()
+) {
+  const { key, ...maps } = catalog;
+  const entry: SchemaCacheEntry = {
+    version: CACHE_VERSION, key, loadedAt, refreshedAt: new Date().toISOString(), fingerprint, settings: schemaCacheSettings(), maps,
+  };
+  const file = cacheFile(options, key);
+  try {
+    await fs.promises.mkdir(options.dir, { recursive: true, mode: 0o700 });
+    // Write then rename, so concurrent processes never read a partial file
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(entry, jsonReplacer), { mode: 0o600 });
+    await fs.promises.rename(temp, file);
+  } catch (error) {
+    console.error(`❌ Failed to write schema cache ${file}: ${(error as any).message}`);
+  }
+}
@@ -3,8 +3,25 @@
  * Handles loading and managing database schema information
  */
 
+import crypto from "crypto";
 import mysql from "mysql2/promise";
 import pg from "pg";
+import { getAdapter } from "./adapters/registry";
+import { getMaskingPolicy, MaskingPolicy } from "./maskingPolicy";
+import { aggregateOnlyFromEnv, suppressRareStats } from "./aggregateGuard";
+import {
+  databricksCatalogs,
+  databricksLiteral,
+  databricksLiterals,
+  databricksScopeCondition,
+  hasDatabricksTag,
+  inDatabricksScope,
+  isDatabricksScoped,
+  loadDatabricksTableTags,
+  matchesPatterns,
+  DatabricksFetch,
+} from "./databricksScope";
+import type { ConnectorCfg } from "./index";
 
 
 const debugLog = (...args: any[]) => {
@@ -18,13 +35,241 @@ const debugError = (...args: any[]) => {
 
 
 /**
- * Example in-memory references to "schemaMap", "indexMap", and table sizes.
- * In a real setup, you might load these on startup from MySQL's information_schema,
- * or from your own metadata store.
+ * A join path between two tables (or collections), keyed in relationshipMap by
+ * the referencing table. Table names use the same form as schemaMap keys.
  */
-export let schemaMap: Record<string, Array<{ columnName: string }>> = {};
-export let indexMap: Record<string, Array<any>> = {};
-export let tableSizeCache: Record<string, number> = {};
+export interface Relationship {
+  fromTable: string;
+  fromColumns: string[];
+  toTable: string;
+  toColumns: string[];
+  constraintName?: string;
+  source: 'foreign_key' | 'inferred'; // declared constraint, or guessed from field names (MongoDB)
+}
+
+export type TableKind =
+  | 'table'
+  | 'partitioned_table'  // Postgres: partitions are folded into it
+  | 'view'
+  | 'materialized_view'
+  | 'foreign_table'
+  | 'external_table'     // Databricks: data lives outside the metastore's storage
+  | 'collection';        // MongoDB
+
+export interface TableInfo {
+  kind: TableKind;
+  partitions?: string[]; // partitioned_table: its partitions, which are not listed separately
+  description?: string;  // table comment (MySQL, Postgres, Databricks) or $jsonSchema description (MongoDB)
+  tags?: Record<string, string>; // Unity Catalog table tags (Databricks)
+}
+
+/**
+ * Cheap signature of a database's metadata, compared against the on-disk schema
+ * cache (see schemaCache.ts) to decide what to reload.
+ */
+export interface MetadataFingerprint {
+  schema: string;                 // changes with any DDL: tables, columns, indexes, constraints, comments
+  tables: Record<string, string>; // per table, keyed like tableSizeCache: changes when its data does
+}
+
+/**
+ * Statistics of one column, attached to its schemaMap entry as `stats` when
+ * SCHEMA_COLUMN_STATS is on, or returned by profile-table. Values are redacted
+ * by the masking policy like MongoDB sample values.
+ */
+export interface ColumnStats {
+  nullFraction?: number;   // 0..1
+  distinctCount?: number;  // non-null distinct values
+  min?: any;
+  max?: any;
+  topValues?: Array<{ value: any; frequency: number }>; // most common first, frequency 0..1 of all rows
+  source: 'statistics' | 'sample' | 'scan'; // engine-maintained (may be stale), sampled documents, or profile-table's full scan
+}
+
+/**
+ * Everything known about one database. initMetadata keeps a catalog per
+ * connection (see catalogKey), so loads against different databases never
+ * overwrite each other. Loaders replace whole maps rather than mutating them.
+ */
+export interface SchemaCatalog {
+  readonly key: string;
+  schemaMap: Record<string, Array<{ columnName: string }>>;
+  indexMap: Record<string, Array<any>>;
+  tableSizeCache: Record<string, number>;
+  relationshipMap: Record<string, Relationship[]>;
+  tableInfoMap: Record<string, TableInfo>; // what each schemaMap entry is, keyed like schemaMap
+}
+
+export type CatalogMaps = Omit<SchemaCatalog, 'key'>;
+
+export function createCatalog(key: string): SchemaCatalog {
+  return { key, schemaMap: {}, indexMap: {}, tableSizeCache: {}, relationshipMap: {}, tableInfoMap: {} };
+}
+
+/**
+ * Identity of the database `cfg` points at: the configured server, also for the
+ * config of an SSH tunnel's local port. Connection strings are hashed since
+ * they may embed credentials.
+ */
+export function catalogKey(cfg: Pick<ConnectorCfg, 'databaseType' | 'host' | 'port' | 'user' | 'database' | 'url' | 'tunnelled'>): string {
+  const target = cfg.tunnelled ?? cfg;
+  const server = target.url ? crypto.createHash('sha256').update(target.url).digest('hex').slice(0, 12) : `${target.host}:${target.port ?? ''}`;
+  return `${cfg.databaseType || 'mysql'}:${server}:${cfg.user ?? ''}:${cfg.database}`;
+}
+
+const catalogs = new Map<string, SchemaCatalog>();
+
+/** The catalog of `cfg`'s database, empty until initMetadata has loaded it. */
+export function getCatalog(cfg: Parameters<typeof catalogKey>[0]): SchemaCatalog {
+  const key = catalogKey(cfg);
+  let catalog = catalogs.get(key);
+  if (!catalog) {
+    catalog = createCatalog(key);
+    catalogs.set(key, catalog);
+  }
+  return catalog;
+}
+
+// The catalog behind the module-level maps below
+let activeCatalog = createCatalog('default');
+
+/**
+ * Compatibility view: the maps of the catalog most recently loaded by
+ * initMetadata. Prefer the catalog initMetadata returns, since a concurrent load
+ * of another database switches these over.
+ */
+export let schemaMap: CatalogMaps['schemaMap'] = activeCatalog.schemaMap;
+export let indexMap: CatalogMaps['indexMap'] = activeCatalog.indexMap;
+export let tableSizeCache: CatalogMaps['tableSizeCache'] = activeCatalog.tableSizeCache;
+export let relationshipMap: CatalogMaps['relationshipMap'] = activeCatalog.relationshipMap;
+export let tableInfoMap: CatalogMaps['tableInfoMap'] = activeCatalog.tableInfoMap;
+
+function syncCompatibilityView() {
+  ({ schemaMap, indexMap, tableSizeCache, relationshipMap, tableInfoMap } = activeCatalog);
+  globalDataStructureMetadata.tables = tableInfoMap;
+  globalDataStructureMetadata.relationships = relationshipMap;
+}
+
+/** Point the module-level maps at `catalog`. */
+export function setActiveCatalog(catalog: SchemaCatalog) {
+  activeCatalog = catalog;
+  syncCompatibilityView();
+}
+
+/**
+ * Replace any of the maps of `catalog` (by default the active one). Adapters
+ * living outside this module (e.g. plugin packages) use this to fill the catalog
+ * their load methods receive.
+ */
+export function setMetadata(maps: Partial<CatalogMaps>, catalog: SchemaCatalog = activeCatalog) {
+  if (maps.schemaMap) catalog.schemaMap = maps.schemaMap;
+  if (maps.indexMap) catalog.indexMap = maps.indexMap;
+  if (maps.tableSizeCache) catalog.tableSizeCache = maps.tableSizeCache;
+  if (maps.relationshipMap) catalog.relationshipMap = maps.relationshipMap;
+  if (maps.tableInfoMap) catalog.tableInfoMap = maps.tableInfoMap;
+  if (catalog === activeCatalog) syncCompatibilityView();
+}
+
+// Long strings (documents, blobs rendered as text) are cut to this many characters
+const STAT_VALUE_MAX_LENGTH = 100;
+
+/** A statistic value as it is stored: JSON-friendly and short. */
+function statValue(value: any): any {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) && typeof value.toHexString === 'function') {
+    return value.toHexString(); // ObjectId
+  }
+  const text = typeof value === 'string' ? value : value !== null && typeof value === 'object' ? JSON.stringify(value) : undefined;
+  if (text !== undefined && text.length > STAT_VALUE_MAX_LENGTH) {
+    return `${text.slice(0, STAT_VALUE_MAX_LENGTH)}…`;
+  }
+  return value;
+}
+
+/**
+ * `stats` with its values redacted per the masking policy. Columns the policy
+ * drops keep only their counts.
+ */
+export function maskColumnStats(table: string, column: string, stats: ColumnStats, policy: MaskingPolicy = getMaskingPolicy()): ColumnStats {
+  const { min, max, topValues, ...counts } = stats;
+  const masked: ColumnStats = { ...counts };
+  const bounds = [min, max].filter(value => value !== undefined && value !== null).map(statValue);
+  if (bounds.length === 2) {
+    const redacted = policy.applyToSamples(table, column, bounds);
+    if (redacted.length === 2) [masked.min, masked.max] = redacted;
+  }
+  if (topValues?.length) {
+    const redacted = policy.applyToSamples(table, column, topValues.map(entry => statValue(entry.value)));
+    if (redacted.length === topValues.length) {
+      masked.topValues = topValues.map((entry, i) => ({ value: redacted[i], frequency: entry.frequency }));
+    }
+  }
+  return masked;
+}
+
+/**
+ * Attach `stats` (table → column → stats, keyed like schemaMap) to the columns
+ * of `catalog`'s schema map, masking their values (and, in aggregate-only mode,
+ * dropping values of single rows and small groups).
+ */
+export function setColumnStats(stats: Record<string, Record<string, ColumnStats>>, catalog: SchemaCatalog = activeCatalog) {
+  const policy = getMaskingPolicy();
+  const aggregateOnly = aggregateOnlyFromEnv();
+  const localSchemaMap: CatalogMaps['schemaMap'] = {};
+  for (const [table, columns] of Object.entries(catalog.schemaMap)) {
+    localSchemaMap[table] = columns.map(column => {
+      const columnStats = stats[table]?.[column.columnName];
+      if (!columnStats) return column;
+      const masked = maskColumnStats(table, column.columnName, columnStats, policy);
+      return { ...column, stats: aggregateOnly ? suppressRareStats(masked, catalog.tableSizeCache[table], aggregateOnly) : masked };
+    });
+  }
+  setMetadata({ schemaMap: localSchemaMap }, catalog);
+}
+
+/**
+ * Apply aggregate-only mode to the statistics already in `catalog`, e.g. restored
+ * from a schema cache written while the mode was off.
+ */
+export function suppressRareColumnStats(catalog: SchemaCatalog = activeCatalog, aggregateOnly = aggregateOnlyFromEnv()) {
+  if (!aggregateOnly) return;
+  const localSchemaMap: CatalogMaps['schemaMap'] = {};
+  for (const [table, columns] of Object.entries(catalog.schemaMap)) {
+    localSchemaMap[table] = columns.map((column: any) =>
+      column.stats ? { ...column, stats: suppressRareStats(column.stats, catalog.tableSizeCache[table], aggregateOnly) } : column
+    );
+  }
+  setMetadata({ schemaMap: localSchemaMap }, catalog);
+}
+
+/** Group relationships by referencing table. */
+function groupRelationships(relationships: Relationship[]): CatalogMaps['relationshipMap'] {
+  const map: CatalogMaps['relationshipMap'] = {};
+  for (const relationship of relationships) {
+    (map[relationship.fromTable] ??= []).push(relationship);
+  }
+  return map;
+}
+
+/**
+ * Collect multi-column foreign keys from rows with one column pair each,
+ * ordered by constraint and column position.
+ */
+function foreignKeysFromRows(rows: Array<{ constraintName: string; fromTable: string; fromColumn: string; toTable: string; toColumn: string }>): Relationship[] {
+  const byConstraint = new Map<string, Relationship>();
+  for (const row of rows) {
+    const key = `${row.fromTable}\u0000${row.constraintName}`;
+    let relationship = byConstraint.get(key);
+    if (!relationship) {
+      relationship = { fromTable: row.fromTable, fromColumns: [], toTable: row.toTable, toColumns: [], constraintName: row.constraintName, source: 'foreign_key' };
+      byConstraint.set(key, relationship);
+    }
+    relationship.fromColumns.push(row.fromColumn);
+    relationship.toColumns.push(row.toColumn);
+  }
+  return Array.from(byConstraint.values());
+}
 
 /**
  * If you want to maintain any data sets or chunked data in memory,
@@ -48,16 +293,26 @@ export let globalDataStructureMetadata: any = {
 };
 
 // MongoDB schema inference functions
-export async function loadMongoSchemaMap(client: any, dbName: string) {
+export async function loadMongoSchemaMap(client: any, dbName: string, catalog: SchemaCatalog = activeCatalog) {
   debugLog('SchemaManager', 'Loading MongoDB schema map');
   
   const db = client.db(dbName);
   const collections = await db.listCollections().toArray();
+  // Sample values end up in schema_info, so they are redacted like query results
+  const maskingPolicy = getMaskingPolicy();
   
   const localSchemaMap: Record<string, Array<any>> = {};
+  const localTableInfo: Record<string, TableInfo> = {};
   
   for (const collectionInfo of collections) {
     const collectionName = collectionInfo.name;
+    localTableInfo[collectionName] = { kind: collectionInfo.type === 'view' ? 'view' : 'collection' };
+    // Collections validated by $jsonSchema may document themselves
+    const jsonSchema = collectionInfo.options?.validator?.$jsonSchema;
+    const fieldDescriptions = jsonSchemaDescriptions(jsonSchema);
+    if (typeof jsonSchema?.description === 'string') {
+      localTableInfo[collectionName].description = jsonSchema.description;
+    }
     debugLog('SchemaManager', `Analyzing collection: ${collectionName}`);
     
     try {
@@ -76,7 +331,11 @@ export async function loadMongoSchemaMap(client: any, dbName: string) {
       }
       
       // Infer field schema from sample documents
-      const fieldSchema = inferFieldsFromDocuments(sampleDocs);
+      const fieldSchema = inferFieldsFromDocuments(sampleDocs, collectionName, maskingPolicy);
+      for (const field of fieldSchema) {
+        const description = fieldDescriptions[field.columnName.replace(/\[\d+\]/g, '')];
+        if (description) field.description = description;
+      }
       localSchemaMap[collectionName] = fieldSchema;
       
       debugLog('SchemaManager', `Inferred ${fieldSchema.length} fields for ${collectionName}`);
@@ -87,11 +346,22 @@ export async function loadMongoSchemaMap(client: any, dbName: string) {
     }
   }
   
-  schemaMap = localSchemaMap;
+  setMetadata({ schemaMap: localSchemaMap, tableInfoMap: localTableInfo }, catalog);
   debugLog('SchemaManager', `Loaded schema for ${Object.keys(localSchemaMap).length} collections`);
 }
 
-function inferFieldsFromDocuments(docs: any[]): Array<any> {
+/** `description`s of a $jsonSchema's properties, keyed by dotted field path. */
+function jsonSchemaDescriptions(schema: any, prefix = '', descriptions: Record<string, string> = {}): Record<string, string> {
+  for (const [name, property] of Object.entries<any>(schema?.properties ?? {})) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    if (typeof property?.description === 'string') descriptions[path] = property.description;
+    // Array elements share the array's path (sampled paths have their [n] stripped)
+    jsonSchemaDescriptions(property?.items ?? property, path, descriptions);
+  }
+  return descriptions;
+}
+
+function inferFieldsFromDocuments(docs: any[], collectionName: string, maskingPolicy: MaskingPolicy): Array<any> {
   const fieldMap = new Map<string, {
     name: string;
     types: Set<string>;
@@ -122,7 +392,7 @@ function inferFieldsFromDocuments(docs: any[]): Array<any> {
       isArray: fieldInfo.isArray,
       isNested: fieldInfo.isNested,
       allTypes: types,
-      sampleValues: fieldInfo.sampleValues.slice(0, 5), // Keep top 5 sample values
+      sampleValues: maskingPolicy.applyToSamples(collectionName, fieldPath, fieldInfo.sampleValues.slice(0, 5)), // Keep top 5 sample values
       occurrenceCount: fieldInfo.totalCount - fieldInfo.nullCount
     });
   });
@@ -209,7 +479,14 @@ function getMostCommonType(types: string[]): string {
   return types[0] || 'unknown';
 }
 
-export async function loadMongoIndexes(client: any, dbName: string) {
+/** A MongoDB view is its source collection plus an aggregation pipeline. */
+export async function loadMongoViewDefinition(client: any, dbName: string, viewName: string): Promise<string | null> {
+  const [info] = await client.db(dbName).listCollections({ name: viewName }).toArray();
+  if (!info?.options?.viewOn) return null;
+  return JSON.stringify({ viewOn: info.options.viewOn, pipeline: info.options.pipeline ?? [] }, null, 2);
+}
+
+export async function loadMongoIndexes(client: any, dbName: string, catalog: SchemaCatalog = activeCatalog) {
   debugLog('SchemaManager', 'Loading MongoDB indexes');
   
   const db = client.db(dbName);
@@ -244,19 +521,21 @@ export async function loadMongoIndexes(client: any, dbName: string) {
     }
   }
   
-  indexMap = localIndexMap;
+  setMetadata({ indexMap: localIndexMap }, catalog);
 }
 
-export async function loadMongoCollectionStats(client: any, dbName: string) {
+/** Collection counts; with `tables`, only those collections are refreshed. */
+export async function loadMongoCollectionStats(client: any, dbName: string, catalog: SchemaCatalog = activeCatalog, tables?: string[]) {
   debugLog('SchemaManager', 'Loading MongoDB collection statistics');
   
   const db = client.db(dbName);
   const collections = await db.listCollections().toArray();
   
-  const localSizeCache: Record<string, number> = {};
+  const localSizeCache: Record<string, number> = tables ? { ...catalog.tableSizeCache } : {};
   
   for (const collectionInfo of collections) {
     const collectionName = collectionInfo.name;
+    if (tables && !tables.includes(collectionName)) continue;
     
     try {
       const stats = await db.command({ collStats: collectionName });
@@ -271,46 +550,157 @@ export async function loadMongoCollectionStats(client: any, dbName: string) {
     }
   }
   
-  tableSizeCache = localSizeCache;
+  setMetadata({ tableSizeCache: localSizeCache }, catalog);
 }
 
-export async function loadDatabricksSchemaMap(conn: any, catalogName: string, schemaName: string = 'default', config?: any) {
+/**
+ * Collection names, options (validators, view pipelines) and index keys, and
+ * each collection's estimated count. The sampled field list is not covered:
+ * documents can gain fields without any of these changing.
+ */
+export async function loadMongoFingerprint(client: any, dbName: string): Promise<MetadataFingerprint> {
+  const db = client.db(dbName);
+  const collections = await db.listCollections().toArray();
+  const hash = crypto.createHash('sha256');
+  const tables: Record<string, string> = {};
+  for (const info of [...collections].sort((a: any, b: any) => a.name.localeCompare(b.name))) {
+    hash.update(JSON.stringify([info.name, info.type, info.options ?? {}]));
+    if (info.type === 'view') continue;
+    const collection = db.collection(info.name);
+    try {
+      hash.update(JSON.stringify((await collection.indexes()).map((index: any) => [index.name, index.key, index.unique ?? false])));
+      tables[info.name] = String(await collection.estimatedDocumentCount());
+    } catch (error) {
+      debugError('SchemaManager', `Error fingerprinting ${info.name}:`, error);
+    }
+  }
+  return { schema: hash.digest('hex'), tables };
+}
+
+/**
+ * MongoDB has no foreign keys: guess them from field names. A field called
+ * `customer_id` / `customerId` (at any depth) is taken to reference the `_id` of a
+ * `customer`, `customers` or similarly named collection. Needs the schema map loaded.
+ */
+export async function loadMongoRelationships(client: any, dbName: string, catalog: SchemaCatalog = activeCatalog) {
+  const db = client.db(dbName);
+  const collections: string[] = (await db.listCollections().toArray()).map((info: any) => info.name);
+  // Compare names without case, separators or a plural ending
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/(ies|es|s)$/, (ending) => (ending === 'ies' ? 'y' : ''));
+  const byName = new Map<string, string>();
+  for (const name of collections) {
+    if (!byName.has(normalize(name))) byName.set(normalize(name), name);
+  }
+
+  const relationships: Relationship[] = [];
+  for (const collectionName of collections) {
+    const seen = new Set<string>();
+    for (const field of catalog.schemaMap[collectionName] ?? []) {
+      // Array elements are sampled as items[0].product_id – relate the field path itself
+      const path = field.columnName.replace(/\[\d+\]/g, '');
+      const match = path.split('.').pop()!.match(/^(.+?)(?:_id|Id|ID)$/);
+      if (!match || seen.has(path)) continue;
+      const target = byName.get(normalize(match[1]));
+      if (!target || (target === collectionName && path === '_id')) continue;
+      seen.add(path);
+      relationships.push({ fromTable: collectionName, fromColumns: [path], toTable: target, toColumns: ['_id'], source: 'inferred' });
+    }
+  }
+
+  setMetadata({ relationshipMap: groupRelationships(relationships) }, catalog);
+  debugLog('SchemaManager', `Inferred ${relationships.length} MongoDB relationships`);
+}
+
+/** Runs statements over `session`, fetching every row. */
+function databricksFetch(session: any): DatabricksFetch {
+  return async (statement: string, maxRows = 100) => {
+    const operation = await session.executeStatement(statement, { runAsync: true, maxRows });
+    const rows = await operation.fetchAll();
+    await operation.close();
+    return rows;
+  };
+}
+
+/**
+ * Columns, kinds, comments and tags of the tables in scope (see
+ * databricksScope.ts): every schema of `catalogName` by default, or of each
+ * catalog the DATABRICKS_CATALOGS patterns match, narrowed by the schema, table
+ * and tag filters of `config.databricksOptions`.
+ */
+export async function loadDatabricksSchemaMap(conn: any, catalogName: string, config?: ConnectorCfg, catalog: SchemaCatalog = activeCatalog) {
   debugLog('SchemaManager', `Loading Databricks schema from catalog ${catalogName}`);
+  const scope = config?.databricksOptions;
   
+  let session: any;
   try {
     // Use the existing connection directly instead of creating new ones
-    const session = await conn.openSession();
-    
-    // Load schema information for ALL schemas in the catalog, not just 'default'
-    // This matches the behavior of loadDatabricksTableSizes
-    const query = `
-      SELECT 
-        table_catalog,
-        table_schema, 
-        table_name,
-        column_name,
-        data_type,
-        is_nullable,
-        column_default,
-        ordinal_position
-      FROM ${catalogName}.information_schema.columns
-      WHERE table_catalog = '${catalogName}'
-      ORDER BY table_schema, table_name, ordinal_position
-    `;
-    
-    const operation = await session.executeStatement(query, { runAsync: true, maxRows: 50000 });
-    const rows = await operation.fetchAll();
-    await operation.close();
-    await session.close();
+    session = await conn.openSession();
+    const fetch = databricksFetch(session);
+    const catalogNames = await databricksCatalogs(fetch, catalogName, scope);
+    const condition = databricksScopeCondition(scope);
+
+    const rows: any[] = [];
+    const localTableInfo: Record<string, TableInfo> = {};
+    for (const name of catalogNames) {
+      try {
+        rows.push(...await fetch(`
+          SELECT 
+            table_catalog,
+            table_schema, 
+            table_name,
+            column_name,
+            data_type,
+            is_nullable,
+            column_default,
+            ordinal_position,
+            comment
+          FROM \`${name}\`.information_schema.columns
+          WHERE table_catalog = ${databricksLiteral(name)}${condition}
+          ORDER BY table_schema, table_name, ordinal_position
+        `, 50000));
+      } catch (error) {
+        // e.g. hive_metastore, which has no information_schema
+        debugError('SchemaManager', `Error loading Databricks columns for catalog ${name}:`, error);
+        continue;
+      }
+
+      try {
+        const tables = await fetch(`
+          SELECT table_catalog, table_schema, table_name, table_type, comment
+          FROM \`${name}\`.information_schema.tables
+          WHERE table_catalog = ${databricksLiteral(name)}${condition}
+        `, 50000);
+        for (const table of tables) {
+          localTableInfo[`${table.table_catalog}.${table.table_schema}.${table.table_name}`] = {
+            kind: databricksTableKind(table.table_type),
+            ...(table.comment ? { description: table.comment } : {}),
+          };
+        }
+      } catch (error) {
+        debugError('SchemaManager', `Error loading Databricks table types for catalog ${name}:`, error);
+      }
+    }
+
+    let tags: Record<string, Record<string, string>> = {};
+    try {
+      tags = await loadDatabricksTableTags(fetch, catalogNames);
+    } catch (error) {
+      // Without tags a tag filter would let every table through
+      if (scope?.tags?.length) throw error;
+      debugError('SchemaManager', 'Error loading Databricks table tags:', error);
+    }
     
     const localSchemaMap: Record<string, Array<any>> = {};
     
     for (const row of rows) {
       // Use catalog.schema.table naming convention
       const qualifiedTableName = `${row.table_catalog}.${row.table_schema}.${row.table_name}`;
+      if (!hasDatabricksTag(tags[qualifiedTableName], scope?.tags)) continue;
       
       if (!localSchemaMap[qualifiedTableName]) {
         localSchemaMap[qualifiedTableName] = [];
+        localTableInfo[qualifiedTableName] ??= { kind: 'table' };
+        if (tags[qualifiedTableName]) localTableInfo[qualifiedTableName].tags = tags[qualifiedTableName];
       }
       
       localSchemaMap[qualifiedTableName].push({
@@ -318,27 +708,83 @@ export async function loadDatabricksSchemaMap(conn: any, catalogName: string, sc
         dataType: row.data_type,
         nullable: row.is_nullable === 'YES',
         defaultValue: row.column_default,
-        position: row.ordinal_position
+        position: row.ordinal_position,
+        ...(row.comment ? { description: row.comment } : {}),
       });
     }
+    for (const table of Object.keys(localTableInfo)) {
+      if (!localSchemaMap[table]) delete localTableInfo[table];
+    }
     
-    schemaMap = localSchemaMap;
-    debugLog('SchemaManager', `Loaded ${Object.keys(localSchemaMap).length} Databricks tables`);
+    setMetadata({ schemaMap: localSchemaMap, tableInfoMap: localTableInfo }, catalog);
+    debugLog('SchemaManager', `Loaded ${Object.keys(localSchemaMap).length} Databricks tables from ${catalogNames.length} catalog(s)`);
     
   } catch (error) {
-    debugError('SchemaManager', `Error loading Databricks schema from ${catalogName}.${schemaName}:`, error);
-    schemaMap = {};
+    debugError('SchemaManager', `Error loading Databricks schema from ${catalogName}:`, error);
+    setMetadata({ schemaMap: {}, tableInfoMap: {} }, catalog);
+  } finally {
+    await session?.close().catch(() => undefined);
   }
 }
 
-export async function loadDatabricksTableSizes(conn: any, catalogName: string, config?: any) {
+/** Definition of a view or materialized view; `qualifiedName` is catalog.schema.name. */
+export async function loadDatabricksViewDefinition(conn: any, qualifiedName: string): Promise<string | null> {
+  const [catalogName, schemaName, viewName] = qualifiedName.split('.');
+  const session = await conn.openSession();
+  try {
+    const operation = await session.executeStatement(`
+      SELECT view_definition
+      FROM ${catalogName}.information_schema.views
+      WHERE table_schema = '${schemaName.replace(/'/g, "''")}' AND table_name = '${viewName.replace(/'/g, "''")}'
+    `, { runAsync: true, maxRows: 1 });
+    const rows = await operation.fetchAll();
+    await operation.close();
+    return rows[0]?.view_definition ?? null;
+  } finally {
+    await session.close();
+  }
+}
+
+// information_schema.tables.table_type → TableKind
+function databricksTableKind(tableType: string): TableKind {
+  switch (tableType) {
+    case 'VIEW':
+      return 'view';
+    case 'MATERIALIZED_VIEW':
+      return 'materialized_view';
+    case 'FOREIGN':
+      return 'foreign_table';
+    case 'EXTERNAL':
+    case 'EXTERNAL_SHALLOW_CLONE':
+      return 'external_table';
+    default:
+      return 'table'; // MANAGED, MANAGED_SHALLOW_CLONE, STREAMING_TABLE
+  }
+}
+
+// DESCRIBE DETAIL rows of loadDatabricksIndexes, for the full sizes load that follows it
+const databricksDetails = new WeakMap<SchemaCatalog, Record<string, any>>();
+
+/**
+ * Row counts via DESCRIBE DETAIL of the tables in scope; with `tables`
+ * (qualified names), only those are refreshed. A full load reuses the rows
+ * loadDatabricksIndexes just fetched instead of describing each table again.
+ */
+export async function loadDatabricksTableSizes(conn: any, catalogName: string, config?: ConnectorCfg, catalog: SchemaCatalog = activeCatalog, tables?: string[]) {
   debugLog('SchemaManager', `Loading Databricks table sizes for catalog ${catalogName}`);
+  const scope = config?.databricksOptions;
+  const described = tables ? undefined : databricksDetails.get(catalog);
+  databricksDetails.delete(catalog);
   
   try {
     // Use the existing connection directly instead of creating new ones
     const session = await conn.openSession();
+    const catalogNames = await databricksCatalogs(databricksFetch(session), catalogName, scope);
+    // Tag filters are applied by the schema load; sizes follow its tables
+    const loaded = Object.keys(catalog.schemaMap).length > 0;
+    const wanted = (table: string) => (!tables || tables.includes(table)) && (!loaded || table in catalog.schemaMap);
     
-    const localSizeCache: Record<string, number> = {};
+    const localSizeCache: Record<string, number> = tables ? { ...catalog.tableSizeCache } : {};
     
     try {
       // Try to get table list from system information_schema (more efficient than SHOW commands)
@@ -349,42 +795,42 @@ export async function loadDatabricksTableSizes(conn: any, catalogName: string, c
           table_schema,
           table_name
         FROM system.information_schema.tables
-        WHERE table_catalog = '${catalogName}'
-        AND table_type = 'MANAGED'
+        WHERE table_catalog IN (${databricksLiterals(catalogNames)})
+        AND table_type IN ('MANAGED', 'EXTERNAL', 'MATERIALIZED_VIEW', 'STREAMING_TABLE')${databricksScopeCondition(scope)}
         ORDER BY table_catalog, table_schema, table_name
       `;
       
       const tablesOperation = await session.executeStatement(tablesQuery, { runAsync: true, maxRows: 10000 });
-      const tables = await tablesOperation.fetchAll();
+      const allTables = await tablesOperation.fetchAll();
       await tablesOperation.close();
       
-      debugLog('SchemaManager', `Found ${tables.length} tables to process from system.information_schema`);
+      debugLog('SchemaManager', `Found ${allTables.length} tables to process from system.information_schema`);
       
       // If we got tables from information_schema, use those (much more efficient)
-      if (tables.length > 0) {
+      if (allTables.length > 0) {
+        const pending = allTables.filter((table: any) => wanted(table.qualified_name));
         // Process tables in batches to avoid overwhelming the connection
         const batchSize = 10;
-        for (let i = 0; i < tables.length; i += batchSize) {
-          const batch = tables.slice(i, i + batchSize);
+        for (let i = 0; i < pending.length; i += batchSize) {
+          const batch = pending.slice(i, i + batchSize);
           
           // Process batch in parallel for better performance
           const batchPromises = batch.map(async (table: any) => {
             const qualifiedName = table.qualified_name;
             try {
-              // Use DESCRIBE DETAIL to get table statistics (this is the standard Databricks approach)
-              const describeQuery = `DESCRIBE DETAIL ${qualifiedName}`;
-              const describeOperation = await session.executeStatement(describeQuery, { runAsync: true, maxRows: 100 });
-              const description = await describeOperation.fetchAll();
-              await describeOperation.close();
-              
-              // Extract row count from DESCRIBE DETAIL results
-              let rowCount = 0;
-              if (description && description.length > 0) {
-                const tableInfo = description[0];
-                // DESCRIBE DETAIL returns numRows field directly
-                rowCount = parseInt(tableInfo.numRows, 10) || 0;
+              let tableInfo = described?.[qualifiedName];
+              if (!tableInfo) {
+                // Use DESCRIBE DETAIL to get table statistics (this is the standard Databricks approach)
+                const describeQuery = `DESCRIBE DETAIL ${qualifiedName}`;
+                const describeOperation = await session.executeStatement(describeQuery, { runAsync: true, maxRows: 100 });
+                const description = await describeOperation.fetchAll();
+                await describeOperation.close();
+                tableInfo = description?.[0];
               }
               
+              // DESCRIBE DETAIL returns numRows field directly
+              const rowCount = parseInt(tableInfo?.numRows, 10) || 0;
+              
               return { qualifiedName, rowCount };
             } catch (error) {
               debugError('SchemaManager', `Error getting size for ${qualifiedName}:`, error);
@@ -401,11 +847,11 @@ export async function loadDatabricksTableSizes(conn: any, catalogName: string, c
             debugLog('SchemaManager', `Table ${result.qualifiedName}: ${result.rowCount} rows`);
           }
           
-          debugLog('SchemaManager', `Processed batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(tables.length/batchSize)}`);
+          debugLog('SchemaManager', `Processed batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(pending.length/batchSize)}`);
         }
         
         await session.close();
-        tableSizeCache = localSizeCache;
+        setMetadata({ tableSizeCache: localSizeCache }, catalog);
         debugLog('SchemaManager', `Loaded sizes for ${Object.keys(localSizeCache).length} Databricks tables via optimized batch processing`);
         return;
       }
@@ -416,99 +862,320 @@ export async function loadDatabricksTableSizes(conn: any, catalogName: string, c
     // Fallback: Use the original method with individual SHOW/DESCRIBE queries
     debugLog('SchemaManager', 'Using fallback method with SHOW commands');
     
-    // Query all schemas in the catalog
-    const schemasQuery = `SHOW SCHEMAS IN ${catalogName}`;
-    let schemasOperation = await session.executeStatement(schemasQuery, { runAsync: true, maxRows: 1000 });
-    const schemas = await schemasOperation.fetchAll();
-    await schemasOperation.close();
-    
-    for (const schema of schemas) {
-      const schemaName = schema.databaseName || schema.namespace_name || schema.schema_name;
+    // Query all schemas in each catalog
+    for (const catalogName of catalogNames) {
+      const schemasQuery = `SHOW SCHEMAS IN ${catalogName}`;
+      let schemasOperation = await session.executeStatement(schemasQuery, { runAsync: true, maxRows: 1000 });
+      const schemas = await schemasOperation.fetchAll();
+      await schemasOperation.close();
       
-      try {
-        const tablesQuery = `SHOW TABLES IN ${catalogName}.${schemaName}`;
-        let tablesOperation = await session.executeStatement(tablesQuery, { runAsync: true, maxRows: 1000 });
-        const tables = await tablesOperation.fetchAll();
-        await tablesOperation.close();
+      for (const schema of schemas) {
+        const schemaName = schema.databaseName || schema.namespace_name || schema.schema_name;
+        if (!matchesPatterns(scope?.schemas, `${catalogName}.${schemaName}`)) continue;
         
-        for (const table of tables) {
-          const tableName = table.tableName || table.table_name;
-          const qualifiedName = `${catalogName}.${schemaName}.${tableName}`;
+        try {
+          const tablesQuery = `SHOW TABLES IN ${catalogName}.${schemaName}`;
+          let tablesOperation = await session.executeStatement(tablesQuery, { runAsync: true, maxRows: 1000 });
+          const schemaTables = await tablesOperation.fetchAll();
+          await tablesOperation.close();
           
-          try {
-            // Use DESCRIBE EXTENDED to get table statistics
-            const describeQuery = `DESCRIBE EXTENDED ${qualifiedName}`;
-            let describeOperation = await session.executeStatement(describeQuery, { runAsync: true, maxRows: 1000 });
-            const description = await describeOperation.fetchAll();
-            await describeOperation.close();
+          for (const table of schemaTables) {
+            const tableName = table.tableName || table.table_name;
+            const qualifiedName = `${catalogName}.${schemaName}.${tableName}`;
+            if (!wanted(qualifiedName) || !inDatabricksScope(scope, qualifiedName)) continue;
             
-            // Parse statistics from description
-            let rowCount = 0;
-            for (const row of description) {
-              if (row.col_name === 'Statistics' && row.data_type) {
-                // Extract row count from statistics string
-                const rowCountMatch = row.data_type.match(/(\d+)\s+rows?/i);
-                if (rowCountMatch) {
-                  rowCount = parseInt(rowCountMatch[1], 10);
+            try {
+              // Use DESCRIBE EXTENDED to get table statistics
+              const describeQuery = `DESCRIBE EXTENDED ${qualifiedName}`;
+              let describeOperation = await session.executeStatement(describeQuery, { runAsync: true, maxRows: 1000 });
+              const description = await describeOperation.fetchAll();
+              await describeOperation.close();
+              
+              // Parse statistics from description
+              let rowCount = 0;
+              for (const row of description) {
+                if (row.col_name === 'Statistics' && row.data_type) {
+                  // Extract row count from statistics string
+                  const rowCountMatch = row.data_type.match(/(\d+)\s+rows?/i);
+                  if (rowCountMatch) {
+                    rowCount = parseInt(rowCountMatch[1], 10);
+                  }
+                  break;
                 }
-                break;
               }
+              
+              localSizeCache[qualifiedName] = rowCount;
+              debugLog('SchemaManager', `Table ${qualifiedName}: ${rowCount} rows`);
+              
+            } catch (error) {
+              debugError('SchemaManager', `Error getting size for ${qualifiedName}:`, error);
+              localSizeCache[qualifiedName] = 0;
             }
-            
-            localSizeCache[qualifiedName] = rowCount;
-            debugLog('SchemaManager', `Table ${qualifiedName}: ${rowCount} rows`);
-            
-          } catch (error) {
-            debugError('SchemaManager', `Error getting size for ${qualifiedName}:`, error);
-            localSizeCache[qualifiedName] = 0;
           }
+          
+        } catch (error) {
+          debugError('SchemaManager', `Error loading tables from schema ${schemaName}:`, error);
         }
-        
-      } catch (error) {
-        debugError('SchemaManager', `Error loading tables from schema ${schemaName}:`, error);
       }
     }
     
     await session.close();
     
-    tableSizeCache = localSizeCache;
+    setMetadata({ tableSizeCache: localSizeCache }, catalog);
     debugLog('SchemaManager', `Loaded sizes for ${Object.keys(localSizeCache).length} Databricks tables via individual queries`);
     
   } catch (error) {
     debugError('SchemaManager', `Error loading Databricks table sizes for catalog ${catalogName}:`, error);
-    tableSizeCache = {};
+    if (!tables) setMetadata({ tableSizeCache: {} }, catalog);
+  }
+}
+
+/**
+ * Checksums of the columns, tables and constraints in scope from each
+ * catalog's information_schema, and each table's last_altered, which Delta
+ * commits bump. With a tag filter, tag changes count as structural too.
+ */
+export async function loadDatabricksFingerprint(conn: any, catalogName: string, config?: ConnectorCfg): Promise<MetadataFingerprint> {
+  const scope = config?.databricksOptions;
+  const session = await conn.openSession();
+  try {
+    const fetch = databricksFetch(session);
+    const catalogNames = await databricksCatalogs(fetch, catalogName, scope);
+    const condition = databricksScopeCondition(scope);
+
+    // The scope is part of the signature, so changing it reloads everything
+    const checksums: string[] = isDatabricksScoped(scope) ? [JSON.stringify([scope!.catalogs, scope!.schemas, scope!.tables, scope!.tags])] : [];
+    for (const name of catalogNames) {
+      const checksum = (columns: string, from: string) =>
+        `(SELECT md5(concat_ws(',', sort_array(collect_list(concat_ws(':', ${columns}))))) FROM \`${name}\`.information_schema.${from} WHERE table_catalog = ${databricksLiteral(name)}${condition})`;
+      const [row] = await fetch(`
+        SELECT
+          ${checksum("table_schema, table_name, column_name, data_type, is_nullable, coalesce(comment, '')", 'columns')} AS columns_checksum,
+          ${checksum("table_schema, table_name, table_type, coalesce(comment, '')", 'tables')} AS tables_checksum,
+          ${checksum('table_schema, table_name, constraint_name, constraint_type', 'table_constraints')} AS constraints_checksum
+      `, 1);
+      checksums.push(row.columns_checksum, row.tables_checksum, row.constraints_checksum);
+    }
+    if (scope?.tags?.length) {
+      const [row] = await fetch(`
+        SELECT md5(concat_ws(',', sort_array(collect_list(concat_ws(':', catalog_name, schema_name, table_name, tag_name, coalesce(tag_value, '')))))) AS tags_checksum
+        FROM system.information_schema.table_tags
+        WHERE catalog_name IN (${databricksLiterals(catalogNames)})
+      `, 1);
+      checksums.push(row.tags_checksum);
+    }
+
+    const tableRows = await fetch(`
+      SELECT
+        CONCAT(table_catalog, '.', table_schema, '.', table_name) AS qualified_name,
+        CAST(last_altered AS STRING) AS last_altered
+      FROM system.information_schema.tables
+      WHERE table_catalog IN (${databricksLiterals(catalogNames)})
+      AND table_type IN ('MANAGED', 'EXTERNAL', 'MATERIALIZED_VIEW', 'STREAMING_TABLE')${condition}
+    `, 50000);
+
+    const tables: Record<string, string> = {};
+    for (const table of tableRows) {
+      tables[table.qualified_name] = String(table.last_altered);
+    }
+    return { schema: checksums.join(':'), tables };
+  } finally {
+    await session.close();
+  }
+}
+
+/** Foreign keys declared in Unity Catalog (informational constraints) on the tables in scope. */
+export async function loadDatabricksRelationships(conn: any, catalogName: string, config?: ConnectorCfg, catalog: SchemaCatalog = activeCatalog) {
+  const scope = config?.databricksOptions;
+  let session: any;
+  try {
+    session = await conn.openSession();
+    const fetch = databricksFetch(session);
+    const catalogNames = await databricksCatalogs(fetch, catalogName, scope);
+    const loaded = Object.keys(catalog.schemaMap).length > 0;
+
+    const rows: any[] = [];
+    for (const name of catalogNames) {
+      try {
+        rows.push(...await fetch(`
+          SELECT
+            rc.constraint_name,
+            CONCAT(fk.table_catalog, '.', fk.table_schema, '.', fk.table_name) AS from_table,
+            fk.column_name AS from_column,
+            CONCAT(pk.table_catalog, '.', pk.table_schema, '.', pk.table_name) AS to_table,
+            pk.column_name AS to_column
+          FROM \`${name}\`.information_schema.referential_constraints rc
+          JOIN \`${name}\`.information_schema.key_column_usage fk
+            ON fk.constraint_catalog = rc.constraint_catalog
+            AND fk.constraint_schema = rc.constraint_schema
+            AND fk.constraint_name = rc.constraint_name
+          JOIN \`${name}\`.information_schema.key_column_usage pk
+            ON pk.constraint_catalog = rc.unique_constraint_catalog
+            AND pk.constraint_schema = rc.unique_constraint_schema
+            AND pk.constraint_name = rc.unique_constraint_name
+            AND pk.ordinal_position = fk.position_in_unique_constraint
+          WHERE TRUE${databricksScopeCondition(scope, 'fk.')}
+          ORDER BY from_table, rc.constraint_name, fk.ordinal_position
+        `, 10000));
+      } catch (error) {
+        // Catalogs without Unity Catalog (e.g. hive_metastore) have no constraint views
+        debugError('SchemaManager', `Error loading Databricks foreign keys for catalog ${name}:`, error);
+      }
+    }
+
+    setMetadata({ relationshipMap: groupRelationships(foreignKeysFromRows(rows
+      // Tag filters are applied by the schema load
+      .filter((row: any) => !loaded || row.from_table in catalog.schemaMap)
+      .map((row: any) => ({
+        constraintName: row.constraint_name,
+        fromTable: row.from_table,
+        fromColumn: row.from_column,
+        toTable: row.to_table,
+        toColumn: row.to_column,
+      })))) }, catalog);
+    debugLog('SchemaManager', `Loaded foreign keys for ${Object.keys(catalog.relationshipMap).length} Databricks tables`);
+  } catch (error) {
+    debugError('SchemaManager', `Error loading Databricks foreign keys for catalog ${catalogName}:`, error);
+    setMetadata({ relationshipMap: {} }, catalog);
+  } finally {
+    await session?.close().catch(() => undefined);
   }
 }
 
-export async function loadDatabricksIndexes(conn: any, catalogName: string, config?: any) {
+/** A list column of DESCRIBE DETAIL / DESCRIBE HISTORY, which the driver may return as JSON text. */
+function databricksList(value: any): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+// Commits searched for the last OPTIMIZE ... ZORDER BY
+const ZORDER_HISTORY_DEPTH = 100;
+
+/**
+ * Data layout of each Delta table in place of indexes: partition columns and
+ * liquid clustering keys from DESCRIBE DETAIL, Z-order columns of the latest
+ * OPTIMIZE ... ZORDER BY in DESCRIBE HISTORY. One entry per column in the
+ * shared index map shape, with indexName / indexType partition, clustering or
+ * zorder; every entry carries the table's sizeInBytes and numFiles, and a table
+ * with no layout columns gets a single entry without columnName for them.
+ */
+export async function loadDatabricksIndexes(conn: any, catalogName: string, config?: ConnectorCfg, catalog: SchemaCatalog = activeCatalog) {
   debugLog('SchemaManager', 'Loading Databricks clustering information');
-  
-  // Databricks doesn't have traditional indexes, but has clustering keys
-  // For now, just initialize empty index map
-  // Could be extended to include:
-  // - Clustering columns from DESCRIBE EXTENDED
-  // - Partition columns
-  // - Z-order columns
-  
-  indexMap = {};
-  debugLog('SchemaManager', 'Databricks index map initialized (clustering keys not yet implemented)');
+
+  let session: any;
+  try {
+    session = await conn.openSession();
+    const fetch = databricksFetch(session);
+
+    let tables = Object.keys(catalog.schemaMap).filter(table => catalog.tableInfoMap[table]?.kind !== 'view');
+    if (tables.length === 0) {
+      // Schema not loaded (explain-query on a fresh catalog)
+      const scope = config?.databricksOptions;
+      const rows = await fetch(`
+        SELECT CONCAT(table_catalog, '.', table_schema, '.', table_name) AS qualified_name
+        FROM system.information_schema.tables
+        WHERE table_catalog IN (${databricksLiterals(await databricksCatalogs(fetch, catalogName, scope))})
+        AND table_type IN ('MANAGED', 'EXTERNAL', 'MATERIALIZED_VIEW', 'STREAMING_TABLE')${databricksScopeCondition(scope)}
+      `, 10000);
+      tables = rows.map(row => row.qualified_name);
+    }
+
+    const localIndexMap: Record<string, Array<any>> = {};
+    const details: Record<string, any> = {};
+    const batchSize = 10;
+    for (let i = 0; i < tables.length; i += batchSize) {
+      await Promise.all(tables.slice(i, i + batchSize).map(async (table) => {
+        try {
+          const [detail] = await fetch(`DESCRIBE DETAIL ${table}`);
+          if (!detail) return;
+          details[table] = detail;
+          const size = {
+            ...(detail.sizeInBytes != null ? { sizeInBytes: Number(detail.sizeInBytes) } : {}),
+            ...(detail.numFiles != null ? { numFiles: Number(detail.numFiles) } : {}),
+          };
+
+          let zorder: string[] = [];
+          if (String(detail.format ?? '').toLowerCase() === 'delta') {
+            const history = await fetch(`DESCRIBE HISTORY ${table} LIMIT ${ZORDER_HISTORY_DEPTH}`, ZORDER_HISTORY_DEPTH);
+            const optimize = history.find(commit => commit.operation === 'OPTIMIZE' && databricksList(databricksParameters(commit.operationParameters).zOrderBy).length);
+            zorder = optimize ? databricksList(databricksParameters(optimize.operationParameters).zOrderBy) : [];
+          }
+
+          const layouts: Array<[string, string[]]> = [
+            ['partition', databricksList(detail.partitionColumns)],
+            ['clustering', databricksList(detail.clusteringColumns)],
+            ['zorder', zorder],
+          ];
+          const entries = layouts.flatMap(([kind, columns]) => columns.map((columnName, position) => ({
+            indexName: kind,
+            columnName,
+            nonUnique: 1,
+            seqInIndex: position + 1,
+            indexType: kind.toUpperCase(),
+            ...size,
+          })));
+          localIndexMap[table] = entries.length ? entries : [{ indexName: 'none', indexType: 'NONE', ...size }];
+        } catch (error) {
+          debugError('SchemaManager', `Error getting data layout for ${table}:`, error);
+        }
+      }));
+    }
+
+    setMetadata({ indexMap: localIndexMap }, catalog);
+    databricksDetails.set(catalog, details);
+    debugLog('SchemaManager', `Loaded data layout of ${Object.keys(localIndexMap).length} Databricks tables`);
+  } catch (error) {
+    debugError('SchemaManager', `Error loading Databricks data layout for ${catalogName}:`, error);
+    setMetadata({ indexMap: {} }, catalog);
+    databricksDetails.delete(catalog);
+  } finally {
+    await session?.close().catch(() => undefined);
+  }
 }
 
-export async function loadSchemaMap(conn: mysql.Connection | pg.Client | any, dbName: string, databaseType: string = "mysql", config?: any) {
-  if (databaseType === "mysql") {
-    await loadMysqlSchemaMap(conn as mysql.Connection, dbName);
-  } else if (databaseType === "postgres") {
-    // For PostgreSQL, load all schemas
-    await loadAllPostgresSchemas(conn as pg.Client, dbName);
-  } else if (databaseType === "mongodb") {
-    await loadMongoSchemaMap(conn, dbName);
-  } else if (databaseType === "databricks") {
-    // throw new Error("trying databricks");
-    await loadDatabricksSchemaMap(conn, dbName, config?.databricksOptions?.schema || 'default', config);
+/** operationParameters of a DESCRIBE HISTORY row: a map, or its JSON text. */
+function databricksParameters(value: any): Record<string, any> {
+  if (typeof value !== 'string') return value ?? {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
   }
 }
 
-export async function loadMysqlSchemaMap(conn: mysql.Connection, dbName: string) {
+/**
+ * Load the schema map through the adapter registered for `databaseType`.
+ * Kept for callers that already hold a driver connection; `conn` must be the
+ * same kind of handle that adapter's connect() returns.
+ */
+export async function loadSchemaMap(conn: mysql.Connection | pg.Client | any, dbName: string, databaseType: string = "mysql", config?: any, catalog: SchemaCatalog = activeCatalog) {
+  await getAdapter(databaseType).loadSchema(conn, { ...config, databaseType, database: dbName }, catalog);
+}
+
+/** Labels of a MySQL enum from its COLUMN_TYPE, e.g. enum('new','it''s'). */
+function mysqlEnumValues(columnType: string): string[] {
+  return Array.from(columnType.matchAll(/'((?:[^']|'')*)'/g), match => match[1].replace(/''/g, "'"));
+}
+
+/**
+ * `enumValues` for a column of a native enum type, redacted like sample values.
+ * Values observed in the data are added by the value catalog (valueCatalog.ts).
+ */
+function enumColumn(maskingPolicy: MaskingPolicy, table: string, column: string, labels: string[] | null): { enumValues?: string[]; enumSource?: 'type' } {
+  if (!labels?.length) return {};
+  const enumValues = maskingPolicy.applyToSamples(table, column, labels);
+  return enumValues.length ? { enumValues, enumSource: 'type' } : {};
+}
+
+export async function loadMysqlSchemaMap(conn: mysql.Connection, dbName: string, catalog: SchemaCatalog = activeCatalog) {
   // Load columns from information_schema.COLUMNS
   const [rows] = await conn.query(
     `
@@ -518,11 +1185,13 @@ export async function loadMysqlSchemaMap(conn: mysql.Connection, dbName: string)
       COLUMN_DEFAULT,
       IS_NULLABLE,
       DATA_TYPE,
+      COLUMN_TYPE,
       CHARACTER_MAXIMUM_LENGTH,
       NUMERIC_PRECISION,
       NUMERIC_SCALE,
       COLUMN_KEY,
-      EXTRA
+      EXTRA,
+      COLUMN_COMMENT
     FROM information_schema.COLUMNS
     WHERE TABLE_SCHEMA = ?
     ORDER BY TABLE_NAME, ORDINAL_POSITION
@@ -531,6 +1200,7 @@ export async function loadMysqlSchemaMap(conn: mysql.Connection, dbName: string)
   );
 
   const localSchemaMap: Record<string, Array<any>> = {};
+  const maskingPolicy = getMaskingPolicy();
 
   for (const row of rows as Array<{
     TABLE_NAME: string;
@@ -538,11 +1208,13 @@ export async function loadMysqlSchemaMap(conn: mysql.Connection, dbName: string)
     COLUMN_DEFAULT: any;
     IS_NULLABLE: string;
     DATA_TYPE: string;
+    COLUMN_TYPE: string;
     CHARACTER_MAXIMUM_LENGTH: number | null;
     NUMERIC_PRECISION: number | null;
     NUMERIC_SCALE: number | null;
     COLUMN_KEY: string;
     EXTRA: string;
+    COLUMN_COMMENT: string;
   }>) {
     const tableName = row.TABLE_NAME/*.toLowerCase()*/;
 
@@ -559,63 +1231,231 @@ export async function loadMysqlSchemaMap(conn: mysql.Connection, dbName: string)
       numericScale: row.NUMERIC_SCALE,
       key: row.COLUMN_KEY,
       extra: row.EXTRA,
+      ...(row.COLUMN_COMMENT ? { description: row.COLUMN_COMMENT } : {}),
+      ...enumColumn(maskingPolicy, tableName, row.COLUMN_NAME, row.DATA_TYPE === 'enum' ? mysqlEnumValues(row.COLUMN_TYPE) : null),
     });
   }
 
-  schemaMap = localSchemaMap;
+  const [tableRows] = await conn.query(
+    `
+    SELECT TABLE_NAME, TABLE_TYPE, TABLE_COMMENT
+    FROM information_schema.TABLES
+    WHERE TABLE_SCHEMA = ?
+    `,
+    [dbName]
+  );
+  const localTableInfo: Record<string, TableInfo> = {};
+  for (const row of tableRows as Array<{ TABLE_NAME: string; TABLE_TYPE: string; TABLE_COMMENT: string | null }>) {
+    // BASE TABLE, VIEW or SYSTEM VIEW; MySQL partitions are not tables of their own
+    const isView = row.TABLE_TYPE.endsWith('VIEW');
+    localTableInfo[row.TABLE_NAME] = { kind: isView ? 'view' : 'table' };
+    // Views can't carry comments; MySQL reports the literal 'VIEW' instead
+    if (row.TABLE_COMMENT && !isView) localTableInfo[row.TABLE_NAME].description = row.TABLE_COMMENT;
+  }
+
+  setMetadata({ schemaMap: localSchemaMap, tableInfoMap: localTableInfo }, catalog);
+}
 
+export async function loadMysqlViewDefinition(conn: mysql.Connection, dbName: string, viewName: string): Promise<string | null> {
+  const [rows] = await conn.query(
+    `SELECT VIEW_DEFINITION FROM information_schema.VIEWS WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+    [dbName, viewName]
+  );
+  return (rows as Array<{ VIEW_DEFINITION: string }>)[0]?.VIEW_DEFINITION ?? null;
+}
+
+export async function loadMysqlIndexes(conn: mysql.Connection, dbName: string, catalog: SchemaCatalog = activeCatalog) {
   // Load index information into a separate variable
   const [indexRows] = await conn.query(
     `
     SELECT 
-      TABLE_NAME,
-      INDEX_NAME,
-      COLUMN_NAME,
-      NON_UNIQUE,
-      SEQ_IN_INDEX,
-      INDEX_TYPE
-    FROM information_schema.STATISTICS
-    WHERE TABLE_SCHEMA = ?
-    ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX
+      s.TABLE_NAME,
+      s.INDEX_NAME,
+      s.COLUMN_NAME,
+      s.NON_UNIQUE,
+      s.SEQ_IN_INDEX,
+      s.INDEX_TYPE,
+      tc.CONSTRAINT_TYPE
+    FROM information_schema.STATISTICS s
+    LEFT JOIN information_schema.TABLE_CONSTRAINTS tc
+      ON tc.TABLE_SCHEMA = s.TABLE_SCHEMA AND tc.TABLE_NAME = s.TABLE_NAME AND tc.CONSTRAINT_NAME = s.INDEX_NAME
+      AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'UNIQUE')
+    WHERE s.TABLE_SCHEMA = ?
+    ORDER BY s.TABLE_NAME, s.INDEX_NAME, s.SEQ_IN_INDEX
     `,
     [dbName]
   );
 
-  // Reset the indexMap before populating it to prevent memory leaks
-  indexMap = {};
+  const localIndexMap: Record<string, Array<any>> = {};
 
   for (const row of indexRows as Array<{
     TABLE_NAME: string;
     INDEX_NAME: string;
-    COLUMN_NAME: string;
+    COLUMN_NAME: string | null;
     NON_UNIQUE: number;
     SEQ_IN_INDEX: number;
     INDEX_TYPE: string;
+    CONSTRAINT_TYPE: string | null;
   }>) {
     const tableName = row.TABLE_NAME/*.toLowerCase()*/;
 
-    if (!indexMap[tableName]) {
-      indexMap[tableName] = [];
+    if (!localIndexMap[tableName]) {
+      localIndexMap[tableName] = [];
     }
-    indexMap[tableName].push({
+    localIndexMap[tableName].push({
       indexName: row.INDEX_NAME,
       columnName: row.COLUMN_NAME/*.toLowerCase()*/,
       nonUnique: row.NON_UNIQUE,
       seqInIndex: row.SEQ_IN_INDEX,
       indexType: row.INDEX_TYPE,
+      isPrimary: row.INDEX_NAME === 'PRIMARY',
+      isUnique: Number(row.NON_UNIQUE) === 0,
+      ...(row.CONSTRAINT_TYPE ? { constraintType: row.CONSTRAINT_TYPE } : {}), // PRIMARY KEY or UNIQUE
+      ...(row.COLUMN_NAME === null ? { isExpression: true } : {}),            // MySQL 8 functional key part
     });
   }
 
-  // console.log("Loaded MySQL schema and indexes");
+  setMetadata({ indexMap: localIndexMap }, catalog);
+}
+
+export async function loadMysqlRelationships(conn: mysql.Connection, dbName: string, catalog: SchemaCatalog = activeCatalog) {
+  const [rows] = await conn.query(
+    `
+    SELECT
+      CONSTRAINT_NAME,
+      TABLE_NAME,
+      COLUMN_NAME,
+      REFERENCED_TABLE_SCHEMA,
+      REFERENCED_TABLE_NAME,
+      REFERENCED_COLUMN_NAME
+    FROM information_schema.KEY_COLUMN_USAGE
+    WHERE TABLE_SCHEMA = ?
+      AND REFERENCED_TABLE_NAME IS NOT NULL
+    ORDER BY TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION
+    `,
+    [dbName]
+  );
+
+  setMetadata({ relationshipMap: groupRelationships(foreignKeysFromRows((rows as Array<{
+    CONSTRAINT_NAME: string;
+    TABLE_NAME: string;
+    COLUMN_NAME: string;
+    REFERENCED_TABLE_SCHEMA: string;
+    REFERENCED_TABLE_NAME: string;
+    REFERENCED_COLUMN_NAME: string;
+  }>).map(row => ({
+    constraintName: row.CONSTRAINT_NAME,
+    fromTable: row.TABLE_NAME,
+    fromColumn: row.COLUMN_NAME,
+    // Tables of this database are keyed by bare name, like schemaMap
+    toTable: row.REFERENCED_TABLE_SCHEMA === dbName ? row.REFERENCED_TABLE_NAME : `${row.REFERENCED_TABLE_SCHEMA}.${row.REFERENCED_TABLE_NAME}`,
+    toColumn: row.REFERENCED_COLUMN_NAME,
+  })))) }, catalog);
+}
+
+/**
+ * Columns of the tables, views, materialized views and foreign tables of one
+ * schema ($1), with their comments and the labels of enum types. Materialized views are missing from information_schema,
+ * so their columns come from pg_attribute. Partitions are skipped: their parent stands in for them.
+ */
+const POSTGRES_COLUMNS_QUERY = `
+  SELECT
+    c.table_name::text AS table_name,
+    c.column_name::text AS column_name,
+    c.data_type::text AS data_type,
+    c.character_maximum_length::int AS character_maximum_length,
+    c.numeric_precision::int AS numeric_precision,
+    c.numeric_scale::int AS numeric_scale,
+    c.is_nullable::text AS is_nullable,
+    c.column_default::text AS column_default,
+    c.ordinal_position::int AS ordinal_position,
+    cls.relkind::text AS relkind,
+    col_description(cls.oid, c.ordinal_position::int) AS column_description,
+    obj_description(cls.oid, 'pg_class') AS table_description,
+    (SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder)
+      FROM pg_type t JOIN pg_namespace tn ON tn.oid = t.typnamespace JOIN pg_enum e ON e.enumtypid = t.oid
+      WHERE tn.nspname = c.udt_schema AND t.typname = c.udt_name) AS enum_values
+  FROM information_schema.columns c
+  JOIN pg_namespace n ON n.nspname = c.table_schema
+  JOIN pg_class cls ON cls.relnamespace = n.oid AND cls.relname = c.table_name
+  WHERE c.table_schema = $1
+    AND cls.relkind IN ('r', 'p', 'v', 'f')
+    AND NOT cls.relispartition
+  UNION ALL
+  SELECT
+    cls.relname::text,
+    a.attname::text,
+    format_type(a.atttypid, a.atttypmod),
+    NULL,
+    NULL,
+    NULL,
+    CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END,
+    NULL,
+    a.attnum::int,
+    cls.relkind::text,
+    col_description(cls.oid, a.attnum),
+    obj_description(cls.oid, 'pg_class'),
+    (SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = a.atttypid)
+  FROM pg_class cls
+  JOIN pg_namespace n ON n.oid = cls.relnamespace
+  JOIN pg_attribute a ON a.attrelid = cls.oid AND a.attnum > 0 AND NOT a.attisdropped
+  WHERE n.nspname = $1
+    AND cls.relkind = 'm'
+  ORDER BY table_name, ordinal_position
+`;
+
+const POSTGRES_RELKINDS: Record<string, TableKind> = {
+  r: 'table',
+  p: 'partitioned_table',
+  v: 'view',
+  m: 'materialized_view',
+  f: 'foreign_table',
+};
+
+function postgresTableInfo(row: { relkind: string; table_description: string | null }): TableInfo {
+  return {
+    kind: POSTGRES_RELKINDS[row.relkind] ?? 'table',
+    ...(row.table_description ? { description: row.table_description } : {}),
+  };
 }
 
-export async function loadAllPostgresSchemas(conn: pg.Client, dbName: string) {
+/**
+ * Partitions of each top-level partitioned table (at any depth), keyed by the
+ * schema-qualified name of the partitioned table.
+ */
+async function loadPostgresPartitions(conn: pg.Client): Promise<Record<string, string[]>> {
+  const result = await conn.query(`
+    WITH RECURSIVE parts AS (
+      SELECT i.inhrelid AS relid, i.inhparent AS root
+      FROM pg_inherits i
+      JOIN pg_class parent ON parent.oid = i.inhparent
+      WHERE parent.relkind = 'p' AND NOT parent.relispartition
+      UNION ALL
+      SELECT i.inhrelid, parts.root
+      FROM pg_inherits i
+      JOIN parts ON i.inhparent = parts.relid
+    )
+    SELECT
+      root_ns.nspname || '.' || root.relname AS root_name,
+      part_ns.nspname || '.' || part.relname AS partition_name
+    FROM parts
+    JOIN pg_class root ON root.oid = parts.root
+    JOIN pg_namespace root_ns ON root_ns.oid = root.relnamespace
+    JOIN pg_class part ON part.oid = parts.relid
+    JOIN pg_namespace part_ns ON part_ns.oid = part.relnamespace
+    ORDER BY root_name, partition_name
+  `);
+  const partitions: Record<string, string[]> = {};
+  for (const row of result.rows) {
+    (partitions[row.root_name] ??= []).push(row.partition_name);
+  }
+  return partitions;
+}
+
+export async function loadAllPostgresSchemas(conn: pg.Client, dbName: string, catalog: SchemaCatalog = activeCatalog) {
   try {
     debugLog('MultiSchema', 'Discovering all PostgreSQL schemas');
     
-    // Reset the schemaMap before populating it to prevent memory leaks
-    schemaMap = {};
-    
     // Get all schemas in the database, excluding system schemas
     const schemasResult = await conn.query(`
       SELECT schema_name
@@ -629,29 +1469,14 @@ export async function loadAllPostgresSchemas(conn: pg.Client, dbName: string) {
     
     // Initialize a combined schema map
     const localSchemaMap: Record<string, Array<any>> = {};
+    const localTableInfo: Record<string, TableInfo> = {};
+    const maskingPolicy = getMaskingPolicy();
     
     // Load tables and columns for each schema
     for (const schemaName of schemas) {
       try {
         debugLog('MultiSchema', `Loading tables and columns for schema "${schemaName}"`);
-        const result = await conn.query(`
-          SELECT 
-            c.table_name, 
-            c.column_name, 
-            c.data_type,
-            c.character_maximum_length,
-            c.numeric_precision,
-            c.numeric_scale,
-            c.is_nullable,
-            c.column_default,
-            c.ordinal_position
-          FROM information_schema.columns c
-          JOIN information_schema.tables t 
-            ON c.table_name = t.table_name AND c.table_schema = t.table_schema
-          WHERE c.table_schema = $1
-            AND t.table_type = 'BASE TABLE'
-          ORDER BY c.table_name, c.ordinal_position
-        `, [schemaName]);
+        const result = await conn.query(POSTGRES_COLUMNS_QUERY, [schemaName]);
         
         if (!result || !result.rows || result.rows.length === 0) {
           debugLog('MultiSchema', `No tables found in schema "${schemaName}"`);
@@ -668,6 +1493,7 @@ export async function loadAllPostgresSchemas(conn: pg.Client, dbName: string) {
           
           if (!localSchemaMap[qualifiedTableName]) {
             localSchemaMap[qualifiedTableName] = [];
+            localTableInfo[qualifiedTableName] = postgresTableInfo(row);
           }
           
           localSchemaMap[qualifiedTableName].push({
@@ -678,7 +1504,9 @@ export async function loadAllPostgresSchemas(conn: pg.Client, dbName: string) {
             scale: row.numeric_scale,
             nullable: row.is_nullable === 'YES',
             defaultValue: row.column_default,
-            position: row.ordinal_position
+            position: row.ordinal_position,
+            ...(row.column_description ? { description: row.column_description } : {}),
+            ...enumColumn(maskingPolicy, qualifiedTableName, row.column_name, row.enum_values),
           });
         }
         
@@ -688,16 +1516,24 @@ export async function loadAllPostgresSchemas(conn: pg.Client, dbName: string) {
       }
     }
     
+    try {
+      for (const [table, partitions] of Object.entries(await loadPostgresPartitions(conn))) {
+        if (localTableInfo[table]) localTableInfo[table].partitions = partitions;
+      }
+    } catch (error) {
+      debugError('MultiSchema', 'Error loading PostgreSQL partitions', error);
+    }
+    
     debugLog('MultiSchema', `Loaded complete schema map with ${Object.keys(localSchemaMap).length} qualified tables`);
-    schemaMap = localSchemaMap;
+    setMetadata({ schemaMap: localSchemaMap, tableInfoMap: localTableInfo }, catalog);
   } catch (error) {
     debugError('MultiSchema', 'Error listing PostgreSQL schemas', error);
-    schemaMap = {};
+    setMetadata({ schemaMap: {}, tableInfoMap: {} }, catalog);
   }
 }
 
 // Keep the original loadPostgresSchemaMap for backward compatibility, but use it to load a single schema
-export async function loadPostgresSchemaMap(conn: pg.Client, dbName: string) {
+export async function loadPostgresSchemaMap(conn: pg.Client, dbName: string, catalog: SchemaCatalog = activeCatalog) {
   // In PostgreSQL, schemas are used differently than in MySQL
   // By default, use 'public' schema, but also support custom schema
   let schemaName = 'public';
@@ -728,26 +1564,10 @@ export async function loadPostgresSchemaMap(conn: pg.Client, dbName: string) {
   // Load columns from information_schema for PostgreSQL
   // console.log(`Loading PostgreSQL schema from "${schemaName}" schema`);
   try {
-    const result = await conn.query(`
-      SELECT 
-        c.table_name, 
-        c.column_name, 
-        c.data_type,
-        c.character_maximum_length,
-        c.numeric_precision,
-        c.numeric_scale,
-        c.is_nullable,
-        c.column_default,
-        c.ordinal_position
-      FROM information_schema.columns c
-      JOIN information_schema.tables t 
-        ON c.table_name = t.table_name AND c.table_schema = t.table_schema
-      WHERE c.table_schema = $1
-        AND t.table_type = 'BASE TABLE'
-      ORDER BY c.table_name, c.ordinal_position
-    `, [schemaName]);
+    const result = await conn.query(POSTGRES_COLUMNS_QUERY, [schemaName]);
     
     const localSchemaMap: Record<string, Array<any>> = {};
+    const localTableInfo: Record<string, TableInfo> = {};
     
     for (const row of result.rows) {
       const tableName = row.table_name;
@@ -756,6 +1576,7 @@ export async function loadPostgresSchemaMap(conn: pg.Client, dbName: string) {
       
       if (!localSchemaMap[qualifiedTableName]) {
         localSchemaMap[qualifiedTableName] = [];
+        localTableInfo[qualifiedTableName] = postgresTableInfo(row);
       }
       
       localSchemaMap[qualifiedTableName].push({
@@ -766,31 +1587,37 @@ export async function loadPostgresSchemaMap(conn: pg.Client, dbName: string) {
         scale: row.numeric_scale,
         nullable: row.is_nullable === 'YES',
         defaultValue: row.column_default,
-        position: row.ordinal_position
+        position: row.ordinal_position,
+        ...(row.column_description ? { description: row.column_description } : {}),
       });
     }
     
-    schemaMap = localSchemaMap;
+    setMetadata({ schemaMap: localSchemaMap, tableInfoMap: localTableInfo }, catalog);
   } catch (error) {
     console.error(`Error loading PostgreSQL schema from "${schemaName}" schema:`, error);
-    schemaMap = {};
+    setMetadata({ schemaMap: {}, tableInfoMap: {} }, catalog);
   }
 }
 
-export async function loadTableSizes(conn: mysql.Connection | pg.Client | any, dbName: string, databaseType: string = "mysql", config?: any) {
-  if (databaseType === "mysql") {
-    await loadMysqlTableSizes(conn as mysql.Connection, dbName);
-  } else if (databaseType === "postgres") {
-    // For PostgreSQL, load table sizes for all schemas
-    await loadAllPostgresTableSizes(conn as pg.Client);
-  } else if (databaseType === "mongodb") {
-    await loadMongoCollectionStats(conn, dbName);
-  } else if (databaseType === "databricks") {
-    await loadDatabricksTableSizes(conn, dbName, config);
-  }
+/** Definition of a view or materialized view; `qualifiedName` is a schemaMap key (schema.name). */
+export async function loadPostgresViewDefinition(conn: pg.Client, qualifiedName: string): Promise<string | null> {
+  const [schemaName, ...rest] = qualifiedName.split('.');
+  const result = await conn.query(`
+    SELECT definition FROM pg_views WHERE schemaname = $1 AND viewname = $2
+    UNION ALL
+    SELECT definition FROM pg_matviews WHERE schemaname = $1 AND matviewname = $2
+  `, [schemaName, rest.join('.')]);
+  return result.rows[0]?.definition ?? null;
+}
+
+/**
+ * Load table sizes through the adapter registered for `databaseType`.
+ */
+export async function loadTableSizes(conn: mysql.Connection | pg.Client | any, dbName: string, databaseType: string = "mysql", config?: any, catalog: SchemaCatalog = activeCatalog) {
+  await getAdapter(databaseType).loadSizes(conn, { ...config, databaseType, database: dbName }, catalog);
 }
 
-export async function loadMysqlTableSizes(conn: mysql.Connection, dbName: string) {
+export async function loadMysqlTableSizes(conn: mysql.Connection, dbName: string, catalog: SchemaCatalog = activeCatalog) {
   const [rows] = await conn.query(
     `
     SELECT TABLE_NAME, TABLE_ROWS
@@ -800,18 +1627,49 @@ export async function loadMysqlTableSizes(conn: mysql.Connection, dbName: string
     [dbName]
   );
   
+  const localSizeCache: Record<string, number> = {};
   for (const r of rows as Array<{ TABLE_NAME: string; TABLE_ROWS: number }>) {
-    tableSizeCache[r.TABLE_NAME/*.toLowerCase()*/] = r.TABLE_ROWS;
+    localSizeCache[r.TABLE_NAME/*.toLowerCase()*/] = r.TABLE_ROWS;
   }
+  setMetadata({ tableSizeCache: localSizeCache }, catalog);
   // console.log("Loaded MySQL table sizes");
 }
 
-export async function loadAllPostgresTableSizes(conn: pg.Client) {
+/**
+ * CRC32 checksums of the columns, indexes, foreign keys and tables in
+ * information_schema, and each table's UPDATE_TIME and row estimate.
+ */
+export async function loadMysqlFingerprint(conn: mysql.Connection, dbName: string): Promise<MetadataFingerprint> {
+  const checksum = (columns: string, from: string, where = '') =>
+    `(SELECT CONCAT(COUNT(*), ':', COALESCE(SUM(CRC32(CONCAT_WS(':', ${columns}))), 0)) FROM information_schema.${from} WHERE TABLE_SCHEMA = ?${where})`;
+  const [schemaRows] = await conn.query(
+    `
+    SELECT CONCAT_WS('/',
+      ${checksum('TABLE_NAME, COLUMN_NAME, COLUMN_TYPE, IS_NULLABLE, COLUMN_KEY, COLUMN_COMMENT', 'COLUMNS')},
+      ${checksum('TABLE_NAME, INDEX_NAME, COLUMN_NAME, SEQ_IN_INDEX, NON_UNIQUE', 'STATISTICS')},
+      ${checksum('TABLE_NAME, CONSTRAINT_NAME, COLUMN_NAME, REFERENCED_TABLE_NAME, REFERENCED_COLUMN_NAME', 'KEY_COLUMN_USAGE', ' AND REFERENCED_TABLE_NAME IS NOT NULL')},
+      ${checksum('TABLE_NAME, TABLE_TYPE, TABLE_COMMENT', 'TABLES')}
+    ) AS checksum
+  `,
+    [dbName, dbName, dbName, dbName]
+  );
+  const [tableRows] = await conn.query(
+    `SELECT TABLE_NAME, CONCAT_WS(':', UPDATE_TIME, TABLE_ROWS) AS version FROM information_schema.TABLES WHERE TABLE_SCHEMA = ?`,
+    [dbName]
+  );
+
+  const tables: Record<string, string> = {};
+  for (const row of tableRows as Array<{ TABLE_NAME: string; version: string }>) {
+    tables[row.TABLE_NAME] = String(row.version);
+  }
+  return { schema: String((schemaRows as Array<{ checksum: string }>)[0].checksum), tables };
+}
+
+export async function loadAllPostgresTableSizes(conn: pg.Client, catalog: SchemaCatalog = activeCatalog) {
   try {
     debugLog('MultiSchema', 'Discovering all PostgreSQL schemas for table sizes');
     
-    // Reset the tableSizeCache before populating it to prevent memory leaks
-    tableSizeCache = {};
+    const localSizeCache: Record<string, number> = {};
     // Get all schemas in the database, excluding system schemas
     const schemasResult = await conn.query(`
       SELECT schema_name
@@ -843,7 +1701,7 @@ export async function loadAllPostgresTableSizes(conn: pg.Client) {
         for (const row of result.rows) {
           const qualifiedTableName = row.table_name;
           const rowCount = parseInt(row.table_rows, 10) || 0;
-          tableSizeCache[qualifiedTableName] = rowCount;
+          localSizeCache[qualifiedTableName] = rowCount;
           totalRows += rowCount;
         }
         
@@ -853,94 +1711,453 @@ export async function loadAllPostgresTableSizes(conn: pg.Client) {
       }
     }
     
-    debugLog('MultiSchema', `Loaded complete table size cache with ${Object.keys(tableSizeCache).length} qualified tables`);
+    // A partitioned table holds no rows itself: report its partitions' total instead
+    try {
+      for (const [table, partitions] of Object.entries(await loadPostgresPartitions(conn))) {
+        localSizeCache[table] = partitions.reduce((total, partition) => total + (localSizeCache[partition] ?? 0), localSizeCache[table] ?? 0);
+        for (const partition of partitions) delete localSizeCache[partition];
+      }
+    } catch (error) {
+      debugError('MultiSchema', 'Error folding PostgreSQL partition sizes', error);
+    }
+    
+    setMetadata({ tableSizeCache: localSizeCache }, catalog);
+    debugLog('MultiSchema', `Loaded complete table size cache with ${Object.keys(localSizeCache).length} qualified tables`);
   } catch (error) {
     debugError('MultiSchema', 'Error listing PostgreSQL schemas for table sizes', error);
   }
 }
 
-export async function loadAllPostgresIndexes(conn: pg.Client) {
+/**
+ * md5 checksums of the user relations, their columns, constraints, comments and
+ * enum labels, and each table's relfilenode (rewritten by TRUNCATE, VACUUM FULL,
+ * ...) and live row count.
+ */
+export async function loadPostgresFingerprint(conn: pg.Client): Promise<MetadataFingerprint> {
+  const schemaResult = await conn.query(`
+    WITH relations AS (
+      SELECT c.oid, c.relkind, n.nspname || '.' || c.relname AS name
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg_toast%'
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'f', 'i')
+    )
+    SELECT concat_ws('/',
+      (SELECT md5(string_agg(r.oid || ':' || r.relkind || ':' || r.name, ',' ORDER BY r.oid)) FROM relations r),
+      (SELECT md5(string_agg(a.attrelid || ':' || a.attnum || ':' || a.attname || ':' || a.atttypid || ':' || a.atttypmod || ':' || a.attnotnull, ',' ORDER BY a.attrelid, a.attnum))
+        FROM pg_attribute a JOIN relations r ON r.oid = a.attrelid
+        WHERE a.attnum > 0 AND NOT a.attisdropped),
+      (SELECT md5(string_agg(con.oid || ':' || con.conname, ',' ORDER BY con.oid)) FROM pg_constraint con JOIN relations r ON r.oid = con.conrelid),
+      (SELECT md5(string_agg(d.objoid || ':' || d.objsubid || ':' || d.description, ',' ORDER BY d.objoid, d.objsubid))
+        FROM pg_description d JOIN relations r ON r.oid = d.objoid
+        WHERE d.classoid = 'pg_class'::regclass),
+      (SELECT md5(string_agg(e.enumtypid || ':' || e.enumlabel, ',' ORDER BY e.enumtypid, e.enumsortorder)) FROM pg_enum e)
+    ) AS checksum
+  `);
+  const tablesResult = await conn.query(`
+    SELECT n.nspname || '.' || c.relname AS table_name, c.relfilenode || ':' || coalesce(s.n_live_tup, 0) AS version
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+    WHERE n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg_toast%'
+      AND c.relkind IN ('r', 'p', 'm')
+  `);
+
+  const tables: Record<string, string> = {};
+  for (const row of tablesResult.rows) {
+    tables[row.table_name] = row.version;
+  }
+  return { schema: schemaResult.rows[0].checksum, tables };
+}
+
+export async function loadAllPostgresRelationships(conn: pg.Client, catalog: SchemaCatalog = activeCatalog) {
   try {
-    debugLog('MultiSchema', 'Loading PostgreSQL indexes from all schemas');
-    
-    // Reset the indexMap before loading new indexes to prevent memory leaks
-    indexMap = {};
-    
-    // Load all indexes across all user schemas
+    // One row per column pair; unnest keeps conkey / confkey aligned
     const result = await conn.query(`
       SELECT
-        schemaname,
-        tablename,
-        indexname,
-        indexdef
-      FROM
-        pg_indexes
-      WHERE
-        schemaname NOT IN ('pg_catalog', 'information_schema')
-      ORDER BY
-        schemaname, tablename, indexname
+        con.conname AS constraint_name,
+        src_ns.nspname || '.' || src.relname AS from_table,
+        src_att.attname AS from_column,
+        tgt_ns.nspname || '.' || tgt.relname AS to_table,
+        tgt_att.attname AS to_column
+      FROM pg_constraint con
+      JOIN pg_class src ON src.oid = con.conrelid
+      JOIN pg_namespace src_ns ON src_ns.oid = src.relnamespace
+      JOIN pg_class tgt ON tgt.oid = con.confrelid
+      JOIN pg_namespace tgt_ns ON tgt_ns.oid = tgt.relnamespace
+      CROSS JOIN LATERAL unnest(con.conkey, con.confkey) WITH ORDINALITY AS k(src_attnum, tgt_attnum, position)
+      JOIN pg_attribute src_att ON src_att.attrelid = con.conrelid AND src_att.attnum = k.src_attnum
+      JOIN pg_attribute tgt_att ON tgt_att.attrelid = con.confrelid AND tgt_att.attnum = k.tgt_attnum
+      WHERE con.contype = 'f'
+        AND src_ns.nspname NOT IN ('pg_catalog', 'information_schema')
+        -- Constraints cloned onto partitions repeat the partitioned table's own
+        AND NOT src.relispartition
+        AND NOT tgt.relispartition
+      ORDER BY from_table, constraint_name, k.position
     `);
-    
-    // Process indexes
-    let currentSchema = '';
-    let currentTable = '';
-    let indexCount = 0;
-    
+
+    setMetadata({ relationshipMap: groupRelationships(foreignKeysFromRows(result.rows.map(row => ({
+      constraintName: row.constraint_name,
+      fromTable: row.from_table,
+      fromColumn: row.from_column,
+      toTable: row.to_table,
+      toColumn: row.to_column,
+    })))) }, catalog);
+    debugLog('MultiSchema', `Loaded foreign keys for ${Object.keys(catalog.relationshipMap).length} PostgreSQL tables`);
+  } catch (error) {
+    debugError('MultiSchema', 'Error loading PostgreSQL foreign keys', error);
+    setMetadata({ relationshipMap: {} }, catalog);
+  }
+}
+
+/**
+ * One row per index column, from pg_index rather than parsing indexdef: key
+ * columns and expressions in order, then INCLUDE columns (position > key_count).
+ * Partitions are skipped: they share their parent's (partitioned) indexes.
+ */
+const POSTGRES_INDEXES_QUERY = `
+  SELECT
+    n.nspname || '.' || t.relname AS table_name,
+    i.relname AS index_name,
+    upper(am.amname) AS access_method,
+    x.indisunique AS is_unique,
+    x.indisprimary AS is_primary,
+    x.indisvalid AS is_valid,
+    x.indnkeyatts AS key_count,
+    con.contype AS constraint_type,
+    pg_get_expr(x.indpred, x.indrelid, true) AS predicate,
+    pg_get_indexdef(x.indexrelid) AS definition,
+    k.position::int AS position,
+    a.attname AS column_name,
+    pg_get_indexdef(x.indexrelid, k.position::int, true) AS column_definition,
+    (x.indoption[k.position - 1] & 1) = 1 AS descending,
+    CASE WHEN opc.opcdefault THEN NULL ELSE opc.opcname END AS opclass
+  FROM pg_index x
+  JOIN pg_class i ON i.oid = x.indexrelid
+  JOIN pg_class t ON t.oid = x.indrelid
+  JOIN pg_namespace n ON n.oid = t.relnamespace
+  JOIN pg_am am ON am.oid = i.relam
+  CROSS JOIN LATERAL unnest(x.indkey::int2[]) WITH ORDINALITY AS k(attnum, position)
+  LEFT JOIN pg_attribute a ON a.attrelid = x.indrelid AND a.attnum = k.attnum AND k.attnum > 0
+  LEFT JOIN pg_opclass opc ON opc.oid = x.indclass[k.position - 1]
+  LEFT JOIN pg_constraint con ON con.conindid = x.indexrelid AND con.conrelid = x.indrelid AND con.contype IN ('p', 'u', 'x')
+  WHERE n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg_toast%'
+    AND NOT t.relispartition
+  ORDER BY table_name, index_name, position
+`;
+
+const POSTGRES_CONSTRAINT_TYPES: Record<string, string> = { p: 'PRIMARY KEY', u: 'UNIQUE', x: 'EXCLUDE' };
+
+/**
+ * Index map entries in the shared per-column shape (indexName, columnName,
+ * nonUnique, seqInIndex, indexType), plus per-index isPrimary / isUnique /
+ * isValid, the backing constraint, INCLUDE columns, the partial-index predicate
+ * and the full definition, and per-column expression, DESC and opclass details.
+ */
+export async function loadAllPostgresIndexes(conn: pg.Client, catalog: SchemaCatalog = activeCatalog) {
+  try {
+    debugLog('MultiSchema', 'Loading PostgreSQL indexes from all schemas');
+    const result = await conn.query(POSTGRES_INDEXES_QUERY);
+
+    // Collect INCLUDE columns first: they are listed after the key columns
+    const includes = new Map<string, string[]>();
     for (const row of result.rows) {
-      const schemaName = row.schemaname;
-      const tableName = row.tablename;
-      const qualifiedTableName = `${schemaName}.${tableName}`;
-      
-      if (currentSchema !== schemaName) {
-        currentSchema = schemaName;
-        currentTable = '';
+      if (row.position > row.key_count) {
+        const key = `${row.table_name}/${row.index_name}`;
+        includes.set(key, [...(includes.get(key) ?? []), row.column_name ?? row.column_definition]);
       }
-      
-      if (currentTable !== qualifiedTableName) {
-        currentTable = qualifiedTableName;
-        indexMap[qualifiedTableName] = [];
-      }
-      
-      // Extract column names from the index definition
-      // This is a simplistic approach and might need refinement for complex indexes
-      const indexDef = row.indexdef;
-      const indexName = row.indexname;
-      
-      // Attempt to extract column names from the index definition
-      // Format: CREATE INDEX indexname ON schema.table USING method (column1, column2, ...)
-      const columnMatch = indexDef.match(/\(([^)]+)\)/);
-      let columns: string[] = [];
-      
-      if (columnMatch && columnMatch[1]) {
-        // Split the captured group by commas and clean up whitespace
-        columns = columnMatch[1].split(',').map((col: string) => col.trim());
-      }
-      
-      // Determine if it's a unique index
-      const isUnique = indexDef.toLowerCase().includes('unique index');
-      
-      // Create a simplified representation of the index
-      for (let i = 0; i < columns.length; i++) {
-        indexMap[qualifiedTableName].push({
-          indexName: indexName,
-          columnName: columns[i],
-          nonUnique: isUnique ? 0 : 1,
-          seqInIndex: i + 1,
-          indexType: indexDef.includes('USING btree') ? 'BTREE' : 
-                     indexDef.includes('USING hash') ? 'HASH' : 
-                     indexDef.includes('USING gist') ? 'GIST' : 
-                     indexDef.includes('USING gin') ? 'GIN' : 
-                     'OTHER'
-        });
-      }
-      
-      indexCount++;
     }
-    
-    debugLog('MultiSchema', `Loaded ${indexCount} PostgreSQL indexes across all schemas`);
+
+    const localIndexMap: Record<string, Array<any>> = {};
+    for (const row of result.rows) {
+      if (row.position > row.key_count) continue;
+      const includeColumns = includes.get(`${row.table_name}/${row.index_name}`);
+      const isExpression = row.column_name === null;
+      (localIndexMap[row.table_name] ??= []).push({
+        indexName: row.index_name,
+        columnName: isExpression ? row.column_definition : row.column_name, // expression text, e.g. lower((email)::text)
+        nonUnique: row.is_unique ? 0 : 1,
+        seqInIndex: row.position,
+        indexType: row.access_method,
+        isPrimary: row.is_primary,
+        isUnique: row.is_unique,
+        isValid: row.is_valid, // false while CREATE INDEX CONCURRENTLY is running or after it failed
+        ...(row.constraint_type ? { constraintType: POSTGRES_CONSTRAINT_TYPES[row.constraint_type] } : {}),
+        ...(isExpression ? { isExpression: true } : {}),
+        ...(row.descending ? { descending: true } : {}),
+        ...(row.opclass ? { opclass: row.opclass } : {}),
+        ...(includeColumns ? { includeColumns } : {}),
+        ...(row.predicate ? { predicate: row.predicate } : {}),
+        definition: row.definition,
+      });
+    }
+
+    setMetadata({ indexMap: localIndexMap }, catalog);
+    debugLog('MultiSchema', `Loaded indexes of ${Object.keys(localIndexMap).length} PostgreSQL tables`);
   } catch (error) {
     debugError('MultiSchema', 'Error loading PostgreSQL indexes', error);
     // Initialize empty index map if loading fails
-    indexMap = {};
+    setMetadata({ indexMap: {} }, catalog);
+  }
+}
+
+// --------------------------- Column statistics ---------------------------
+// Opt-in (SCHEMA_COLUMN_STATS=true): read from what the engine already keeps,
+// so the pass costs a few catalog queries rather than table scans.
+
+// Most common values kept per column
+const TOP_VALUES = 5;
+
+/**
+ * Elements of a Postgres array literal such as `{a,"b c",NULL}`; the anyarray
+ * columns of pg_stats can only be read as text.
+ */
+function parsePostgresArray(text: string | null): Array<string | null> {
+  const values: Array<string | null> = [];
+  if (!text || text.length < 3) return values;
+  let i = 1;
+  while (i < text.length - 1) {
+    let value = '';
+    if (text[i] === '"') {
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+        value += text[i];
+      }
+      values.push(value);
+      i++; // closing quote
+    } else {
+      for (; i < text.length - 1 && text[i] !== ','; i++) value += text[i];
+      values.push(value === 'NULL' ? null : value);
+    }
+    i++; // separator
+  }
+  return values;
+}
+
+/** pg_stats values are text; give numeric columns numbers back. */
+function postgresStatValue(value: string | null, dataType?: string): any {
+  if (value !== null && /^(smallint|integer|bigint|numeric|real|double precision)$/.test(dataType ?? '')) {
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
   }
-} 
\ No newline at end of file
+  return value;
+}
+
+/**
+ * Null fraction, distinct count, most common values and histogram bounds from
+ * pg_stats, i.e. as of the last ANALYZE. Tables never analyzed get no stats.
+ */
+export async function loadPostgresColumnStats(conn: pg.Client, catalog: SchemaCatalog = activeCatalog) {
+  try {
+    // inherited = true rows describe a partitioned table together with its partitions
+    const result = await conn.query(`
+      SELECT
+        schemaname || '.' || tablename AS table_name,
+        attname AS column_name,
+        null_frac,
+        n_distinct,
+        most_common_vals::text AS most_common_vals,
+        most_common_freqs,
+        histogram_bounds::text AS histogram_bounds
+      FROM pg_stats
+      WHERE schemaname NOT IN ('pg_catalog', 'information_schema') AND schemaname NOT LIKE 'pg_toast%'
+      ORDER BY inherited
+    `);
+
+    const stats: Record<string, Record<string, ColumnStats>> = {};
+    for (const row of result.rows) {
+      const table = row.table_name;
+      if (!catalog.schemaMap[table] || stats[table]?.[row.column_name]) continue;
+      const dataType = (catalog.schemaMap[table].find(column => column.columnName === row.column_name) as any)?.dataType;
+      const rows = catalog.tableSizeCache[table];
+      const nullFraction = Number(row.null_frac);
+      // Negative n_distinct is a fraction of the row count
+      const nDistinct = Number(row.n_distinct);
+      const distinctCount = nDistinct >= 0 ? nDistinct : rows ? Math.round(-nDistinct * rows) : undefined;
+      const commonValues = parsePostgresArray(row.most_common_vals);
+      const frequencies: number[] = row.most_common_freqs ?? [];
+      const bounds = parsePostgresArray(row.histogram_bounds);
+
+      (stats[table] ??= {})[row.column_name] = {
+        nullFraction,
+        ...(distinctCount !== undefined ? { distinctCount } : {}),
+        // Bounds leave out the most common values, so they are approximate
+        ...(bounds.length ? { min: postgresStatValue(bounds[0], dataType), max: postgresStatValue(bounds[bounds.length - 1], dataType) } : {}),
+        ...(commonValues.length
+          ? { topValues: commonValues.slice(0, TOP_VALUES).map((value, i) => ({ value: postgresStatValue(value, dataType), frequency: Number(frequencies[i]) })) }
+          : {}),
+        source: 'statistics',
+      };
+    }
+    setColumnStats(stats, catalog);
+  } catch (error) {
+    debugError('SchemaManager', 'Error loading PostgreSQL column statistics', error);
+  }
+}
+
+/** MySQL encodes string histogram values as `base64:type254:<base64>`. */
+function mysqlHistogramValue(value: any): any {
+  const match = typeof value === 'string' ? value.match(/^base64:type\d+:(.*)$/) : null;
+  return match ? Buffer.from(match[1], 'base64').toString('utf8') : value;
+}
+
+/**
+ * Histograms from information_schema.COLUMN_STATISTICS (MySQL 8, built by
+ * ANALYZE TABLE ... UPDATE HISTOGRAM), and distinct counts of leading index
+ * columns from index cardinality.
+ */
+export async function loadMysqlColumnStats(conn: mysql.Connection, dbName: string, catalog: SchemaCatalog = activeCatalog) {
+  const stats: Record<string, Record<string, ColumnStats>> = {};
+  try {
+    const [indexRows] = await conn.query(
+      `
+      SELECT TABLE_NAME, COLUMN_NAME, MAX(CARDINALITY) AS CARDINALITY
+      FROM information_schema.STATISTICS
+      WHERE TABLE_SCHEMA = ? AND SEQ_IN_INDEX = 1 AND CARDINALITY IS NOT NULL
+      GROUP BY TABLE_NAME, COLUMN_NAME
+      `,
+      [dbName]
+    );
+    for (const row of indexRows as Array<{ TABLE_NAME: string; COLUMN_NAME: string; CARDINALITY: number }>) {
+      (stats[row.TABLE_NAME] ??= {})[row.COLUMN_NAME] = { distinctCount: Number(row.CARDINALITY), source: 'statistics' };
+    }
+  } catch (error) {
+    debugError('SchemaManager', 'Error loading MySQL index cardinality', error);
+  }
+
+  try {
+    const [histogramRows] = await conn.query(
+      `SELECT TABLE_NAME, COLUMN_NAME, HISTOGRAM FROM information_schema.COLUMN_STATISTICS WHERE SCHEMA_NAME = ?`,
+      [dbName]
+    );
+    for (const row of histogramRows as Array<{ TABLE_NAME: string; COLUMN_NAME: string; HISTOGRAM: any }>) {
+      const histogram = typeof row.HISTOGRAM === 'string' ? JSON.parse(row.HISTOGRAM) : row.HISTOGRAM;
+      const buckets: any[][] = histogram?.buckets ?? [];
+      const columnStats: ColumnStats = { ...stats[row.TABLE_NAME]?.[row.COLUMN_NAME], nullFraction: Number(histogram?.['null-values'] ?? 0), source: 'statistics' };
+      if (histogram?.['histogram-type'] === 'singleton') {
+        // [value, cumulative frequency]: one bucket per distinct value
+        const values = buckets.map((bucket, i) => ({ value: mysqlHistogramValue(bucket[0]), frequency: bucket[1] - (i > 0 ? buckets[i - 1][1] : 0) }));
+        columnStats.distinctCount = values.length;
+        if (values.length) {
+          columnStats.min = values[0].value;
+          columnStats.max = values[values.length - 1].value;
+          columnStats.topValues = values.sort((a, b) => b.frequency - a.frequency).slice(0, TOP_VALUES);
+        }
+      } else if (buckets.length) {
+        // Equi-height: [lower, upper, cumulative frequency, distinct values]
+        columnStats.distinctCount = buckets.reduce((total, bucket) => total + Number(bucket[3] ?? 0), 0);
+        columnStats.min = mysqlHistogramValue(buckets[0][0]);
+        columnStats.max = mysqlHistogramValue(buckets[buckets.length - 1][1]);
+      }
+      (stats[row.TABLE_NAME] ??= {})[row.COLUMN_NAME] = columnStats;
+    }
+  } catch (error) {
+    // MySQL 5.7 and MariaDB have no COLUMN_STATISTICS
+    debugLog('SchemaManager', 'No MySQL column histograms', error);
+  }
+  setColumnStats(stats, catalog);
+}
+
+/**
+ * Column statistics from DESCRIBE EXTENDED <table> <column>, available once
+ * ANALYZE TABLE ... COMPUTE STATISTICS FOR COLUMNS has run. One statement per
+ * column, so this is the slowest of the statistics loaders.
+ */
+export async function loadDatabricksColumnStats(conn: any, catalog: SchemaCatalog = activeCatalog) {
+  const stats: Record<string, Record<string, ColumnStats>> = {};
+  let session: any;
+  try {
+    session = await conn.openSession();
+    const pending = Object.entries(catalog.schemaMap)
+      .filter(([table]) => catalog.tableInfoMap[table]?.kind !== 'view')
+      .flatMap(([table, columns]) => columns.map(column => ({ table, column: column.columnName })));
+
+    const batchSize = 10;
+    for (let i = 0; i < pending.length; i += batchSize) {
+      await Promise.all(pending.slice(i, i + batchSize).map(async ({ table, column }) => {
+        try {
+          const operation = await session.executeStatement(`DESCRIBE EXTENDED ${table} \`${column.replace(/`/g, '``')}\``, { runAsync: true, maxRows: 100 });
+          const rows = await operation.fetchAll();
+          await operation.close();
+
+          const info: Record<string, string> = {};
+          for (const row of rows as Array<{ info_name: string; info_value: string }>) info[row.info_name] = row.info_value;
+          const value = (name: string) => (info[name] === undefined || info[name] === 'NULL' ? undefined : info[name]);
+          const rowCount = catalog.tableSizeCache[table];
+          const nulls = value('num_nulls');
+          const distinct = value('distinct_count');
+          if (nulls === undefined && distinct === undefined) return; // never analyzed
+
+          (stats[table] ??= {})[column] = {
+            ...(nulls !== undefined && rowCount ? { nullFraction: Number(nulls) / rowCount } : {}),
+            ...(distinct !== undefined ? { distinctCount: Number(distinct) } : {}),
+            ...(value('min') !== undefined ? { min: value('min'), max: value('max') } : {}),
+            source: 'statistics',
+          };
+        } catch (error) {
+          debugError('SchemaManager', `Error getting column statistics for ${table}.${column}:`, error);
+        }
+      }));
+    }
+    setColumnStats(stats, catalog);
+  } catch (error) {
+    debugError('SchemaManager', 'Error loading Databricks column statistics', error);
+  } finally {
+    await session?.close().catch(() => undefined);
+  }
+}
+
+/** Value of a dotted field path; undefined when missing. */
+function valueAtPath(doc: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value !== null && typeof value === 'object' ? value[key] : undefined), doc);
+}
+
+// Documents sampled per collection for statistics
+const STATS_SAMPLE_SIZE = 1000;
+
+/**
+ * Statistics of scalar fields over a $sample of each collection. Distinct
+ * counts and top values describe the sample, not the whole collection.
+ */
+export async function loadMongoColumnStats(client: any, dbName: string, catalog: SchemaCatalog = activeCatalog) {
+  const db = client.db(dbName);
+  const stats: Record<string, Record<string, ColumnStats>> = {};
+  for (const [collectionName, fields] of Object.entries(catalog.schemaMap)) {
+    try {
+      const docs: any[] = await db.collection(collectionName).aggregate([{ $sample: { size: STATS_SAMPLE_SIZE } }]).toArray();
+      if (docs.length === 0) continue;
+
+      for (const { columnName } of fields) {
+        if (columnName.includes('[')) continue; // array elements
+        const values = docs.map(doc => valueAtPath(doc, columnName)).filter(value => value !== null && value !== undefined);
+        const scalars = values.filter(value => typeof value !== 'object' || value instanceof Date || typeof value.toHexString === 'function');
+        if (scalars.length < values.length) continue; // arrays and sub-documents
+
+        const counts = new Map<string, { value: any; count: number }>();
+        for (const value of scalars) {
+          const key = `${typeof value}:${value instanceof Date ? value.getTime() : String(value)}`;
+          const entry = counts.get(key) ?? { value, count: 0 };
+          entry.count++;
+          counts.set(key, entry);
+        }
+        const columnStats: ColumnStats = { nullFraction: (docs.length - values.length) / docs.length, distinctCount: counts.size, source: 'sample' };
+        // Bounds only make sense when the values share a type
+        const types = new Set(scalars.map(value => (value instanceof Date ? 'date' : typeof value)));
+        if (scalars.length && types.size === 1 && !types.has('boolean') && !types.has('object')) {
+          const sorted = [...scalars].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+          columnStats.min = sorted[0];
+          columnStats.max = sorted[sorted.length - 1];
+        }
+        // Values seen once in a sample say nothing about frequency
+        const repeated = [...counts.values()].filter(entry => entry.count > 1).sort((a, b) => b.count - a.count);
+        if (repeated.length) {
+          columnStats.topValues = repeated.slice(0, TOP_VALUES).map(entry => ({ value: entry.value, frequency: entry.count / docs.length }));
+        }
+        (stats[collectionName] ??= {})[columnName] = columnStats;
+      }
+    } catch (error) {
+      debugError('SchemaManager', `Error sampling statistics for collection ${collectionName}:`, error);
+    }
+  }
+  setColumnStats(stats, catalog);
+}
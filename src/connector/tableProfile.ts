@@ -0,0 +1,196 @@
+/**
+ * Table Profiles
+ * On-demand statistics for one table (profile-table), computed by querying the
+ * table itself rather than read from what the engine keeps, like the `stats`
+ * SCHEMA_COLUMN_STATS attaches to the schema map.
+ */
+
+import type { DatabaseAdapter, ExecuteOptions } from './adapters/registry';
+import type { ConnectorCfg, MongoQuery } from './index';
+import { maskColumnStats, ColumnStats } from './schemaManager';
+import { suppressRareStats, AggregateOnlyOptions } from './aggregateGuard';
+
+export interface ProfileOptions {
+  columns?: string[];  // profile only these columns / fields
+  topValues?: number;  // most common values per column
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // No min / max, and no top values of fewer than minGroupSize rows
+  aggregateOnly?: AggregateOnlyOptions;
+}
+
+export interface TableProfile {
+  table: string; // schemaMap key
+  rowCount: number;
+  columns: Record<string, ColumnStats>;
+  skipped: Record<string, string>;      // columns that were not profiled, with the reason
+  queries: Array<string | MongoQuery>;  // statements executed, for the audit log
+}
+
+const DEFAULT_TOP_VALUES = 5;
+
+export function quoteName(databaseType: string, name: string): string {
+  const quote = databaseType === 'postgres' ? '"' : '`';
+  return `${quote}${name.split(quote).join(quote + quote)}${quote}`;
+}
+
+/** schemaMap keys are schema.table (Postgres) or catalog.schema.table (Databricks). */
+export function quoteTable(databaseType: string, table: string): string {
+  return table.split('.').map(part => quoteName(databaseType, part)).join('.');
+}
+
+/**
+ * Profile `columns` of `table` over `conn`. Each statement runs read-only; the
+ * caller's timeout bounds the whole profile.
+ */
+export async function profileColumns(
+  adapter: DatabaseAdapter,
+  conn: any,
+  cfg: ConnectorCfg,
+  table: string,
+  columns: Array<{ columnName: string }>,
+  options: ProfileOptions & ExecuteOptions = {}
+): Promise<TableProfile> {
+  const profile: TableProfile = { table, rowCount: 0, columns: {}, skipped: {}, queries: [] };
+  const run = (query: string | MongoQuery) => {
+    profile.queries.push(query);
+    return adapter.execute<any[]>(conn, query, [], cfg, { readOnly: true, timeoutMs: options.timeoutMs, signal: options.signal });
+  };
+
+  let selected = columns;
+  if (options.columns?.length) {
+    const wanted = new Map(options.columns.map(name => [name.toLowerCase(), name]));
+    selected = columns.filter(column => wanted.delete(column.columnName.toLowerCase()));
+    if (wanted.size) {
+      throw new Error(`Unknown column(s) of ${table}: ${[...wanted.values()].join(', ')}`);
+    }
+  }
+  const topValues = options.topValues ?? DEFAULT_TOP_VALUES;
+
+  if (adapter.type === 'mongodb') {
+    const [{ count }] = await run({ collection: table, operation: 'count' });
+    profile.rowCount = Number(count);
+    for (const column of selected as Array<{ columnName: string; isArray?: boolean }>) {
+      if (column.columnName.includes('[') || column.isArray) {
+        profile.skipped[column.columnName] = 'array';
+        continue;
+      }
+      profile.columns[column.columnName] = await profileMongoField(run, table, column.columnName, profile.rowCount, topValues);
+    }
+  } else {
+    const [{ row_count }] = await run(`SELECT COUNT(*) AS row_count FROM ${quoteTable(adapter.type, table)}`);
+    profile.rowCount = Number(row_count);
+    for (const { columnName } of selected) {
+      profile.columns[columnName] = await profileSqlColumn(run, adapter.type, table, columnName, profile.rowCount, topValues);
+    }
+  }
+
+  for (const [column, stats] of Object.entries(profile.columns)) {
+    const masked = maskColumnStats(table, column, stats);
+    profile.columns[column] = options.aggregateOnly ? suppressRareStats(masked, profile.rowCount, options.aggregateOnly) : masked;
+  }
+  return profile;
+}
+
+async function profileSqlColumn(
+  run: (query: string) => Promise<any[]>,
+  databaseType: string,
+  table: string,
+  column: string,
+  rowCount: number,
+  topValues: number
+): Promise<ColumnStats> {
+  const from = quoteTable(databaseType, table);
+  const name = quoteName(databaseType, column);
+  let summary: any;
+  let comparable = true;
+  try {
+    [summary] = await run(`SELECT COUNT(${name}) AS non_null, COUNT(DISTINCT ${name}) AS distinct_count, MIN(${name}) AS min_value, MAX(${name}) AS max_value FROM ${from}`);
+  } catch {
+    // Types without equality or ordering (json, boolean on Postgres, ...); a timeout fails this one too
+    [summary] = await run(`SELECT COUNT(${name}) AS non_null FROM ${from}`);
+    comparable = false;
+  }
+
+  const stats: ColumnStats = { nullFraction: rowCount ? 1 - Number(summary.non_null) / rowCount : 0, source: 'scan' };
+  if (comparable) {
+    stats.distinctCount = Number(summary.distinct_count);
+    stats.min = summary.min_value;
+    stats.max = summary.max_value;
+    if (topValues > 0 && rowCount > 0) {
+      const rows = await run(
+        `SELECT ${name} AS value, COUNT(*) AS frequency FROM ${from} WHERE ${name} IS NOT NULL GROUP BY ${name} ORDER BY COUNT(*) DESC LIMIT ${Math.floor(topValues)}`
+      );
+      stats.topValues = rows.map(row => ({ value: row.value, frequency: Number(row.frequency) / rowCount }));
+    }
+  }
+  return stats;
+}
+
+async function profileMongoField(
+  run: (query: MongoQuery) => Promise<any[]>,
+  collection: string,
+  field: string,
+  rowCount: number,
+  topValues: number
+): Promise<ColumnStats> {
+  const [result] = await run({
+    collection,
+    operation: 'aggregate',
+    pipeline: [
+      { $match: { [field]: { $ne: null } } },
+      {
+        $facet: {
+          summary: [{ $group: { _id: null, nonNull: { $sum: 1 }, min: { $min: `$${field}` }, max: { $max: `$${field}` } } }],
+          distinct: [{ $group: { _id: `$${field}` } }, { $count: 'count' }],
+          top: [
+            { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+            { $sort: { count: -1 } },
+            { $limit: Math.max(1, Math.floor(topValues)) },
+          ],
+        },
+      },
+    ],
+  });
+
+  const summary = result?.summary?.[0];
+  const nonNull = summary?.nonNull ?? 0;
+  return {
+    nullFraction: rowCount ? 1 - nonNull / rowCount : 0,
+    distinctCount: result?.distinct?.[0]?.count ?? 0,
+    ...(summary ? { min: summary.min, max: summary.max } : {}),
+    ...(topValues > 0 && rowCount > 0
+      ? { topValues: (result?.top ?? []).map((entry: any) => ({ value: entry._id, frequency: entry.count / rowCount })) }
+      : {}),
+    source: 'scan',
+  };
+}
+
+function cell(value: any): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function percent(fraction: number): string {
+  return `${Math.round(fraction * 1000) / 10}%`;
+}
+
+/** Markdown table of a profile, one row per column. */
+export function tableProfileToMarkdown(profile: TableProfile): string {
+  const lines = [
+    `### ${profile.table} (${profile.rowCount} rows)`,
+    '',
+    '| Column | Nulls | Distinct | Min | Max | Top values |',
+    '|---|---|---|---|---|---|',
+  ];
+  for (const [column, stats] of Object.entries(profile.columns)) {
+    const top = (stats.topValues ?? []).map(entry => `${cell(entry.value)} (${percent(entry.frequency)})`).join(', ');
+    lines.push(`| ${cell(column)} | ${stats.nullFraction !== undefined ? percent(stats.nullFraction) : ''} | ${cell(stats.distinctCount)} | ${cell(stats.min)} | ${cell(stats.max)} | ${top} |`);
+  }
+  const skipped = Object.entries(profile.skipped);
+  if (skipped.length) {
+    lines.push('', `Not profiled: ${skipped.map(([column, reason]) => `${column} (${reason})`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
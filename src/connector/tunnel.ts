@@ -0,0 +1,372 @@
+/**
+ * SSH Tunnel Manager
+ * Opens local port-forwards through a bastion host so database traffic can be
+ * routed over SSH. Tunnels are keyed by bastion + target and reused until idle.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { Client as SshClient, ConnectConfig } from 'ssh2';
+import type { ConnectorCfg } from './index';
+import { sqlPoolManager } from './adapters/pool';
+
+export type SshCfg = NonNullable<ConnectorCfg['ssh']>;
+
+interface Tunnel {
+  ssh: SshClient;
+  server: net.Server;
+  localPort: number;
+  refs: number;
+  lastUsed: number;
+}
+
+interface TunnelTarget {
+  host: string;
+  port: number;
+}
+
+const DEFAULT_PORTS: Record<string, number> = {
+  postgres: 5432,
+  mysql: 3306,
+  mongodb: 27017,
+};
+
+/**
+ * Build an ssh config from SSH_* environment variables, or undefined when no
+ * bastion is configured or `databaseType` can't be tunnelled (Databricks SQL
+ * warehouses are HTTPS endpoints; a leftover SSH_HOST must not break them).
+ */
+export function sshConfigFromEnv(databaseType = process.env.DATABASE_TYPE): SshCfg | undefined {
+  if (!process.env.SSH_HOST || databaseType === 'databricks') {
+    return undefined;
+  }
+  return {
+    host: process.env.SSH_HOST,
+    port: process.env.SSH_PORT ? parseInt(process.env.SSH_PORT, 10) : undefined,
+    username: process.env.SSH_USERNAME || process.env.SSH_USER || os.userInfo().username,
+    privateKeyPath: process.env.SSH_PRIVATE_KEY_PATH || path.join(os.homedir(), '.ssh', 'id_rsa'),
+    passphrase: process.env.SSH_PASSPHRASE,
+    knownHostsPath: process.env.SSH_KNOWN_HOSTS_PATH,
+    strictHostKeyChecking: process.env.SSH_STRICT_HOST_KEY_CHECKING !== 'false',
+  };
+}
+
+/* ── known_hosts verification ───────────────────────────────────────── */
+
+function knownHostsNames(host: string, port: number): string[] {
+  return port === 22 ? [host, `[${host}]:22`] : [`[${host}]:${port}`];
+}
+
+function matchesHostPattern(pattern: string, name: string): boolean {
+  if (pattern.startsWith('|1|')) {
+    // Hashed entry: |1|base64(salt)|base64(hmac-sha1(salt, name))
+    const [, , salt, hash] = pattern.split('|');
+    const digest = crypto.createHmac('sha1', Buffer.from(salt, 'base64')).update(name).digest('base64');
+    return digest === hash;
+  }
+  const regex = new RegExp(
+    '^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$',
+    'i'
+  );
+  return regex.test(name);
+}
+
+/**
+ * Check a presented host key against a known_hosts file.
+ * Returns 'match', 'mismatch' (host known with another key, or key revoked) or 'unknown'.
+ */
+export function checkKnownHosts(
+  knownHostsPath: string,
+  host: string,
+  port: number,
+  key: Buffer
+): 'match' | 'mismatch' | 'unknown' {
+  if (!fs.existsSync(knownHostsPath)) {
+    return 'unknown';
+  }
+
+  const names = knownHostsNames(host, port);
+  const presented = key.toString('base64');
+  let hostSeen = false;
+
+  for (const rawLine of fs.readFileSync(knownHostsPath, 'utf8').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    const marker = parts[0].startsWith('@') ? parts.shift() : undefined;
+    const [hostField, , keyData] = parts;
+    if (!hostField || !keyData || marker === '@cert-authority') continue;
+
+    const patterns = hostField.split(',');
+    const negated = patterns.some(p => p.startsWith('!') && names.some(n => matchesHostPattern(p.slice(1), n)));
+    const matched = !negated && patterns.some(p => !p.startsWith('!') && names.some(n => matchesHostPattern(p, n)));
+    if (!matched) continue;
+
+    if (marker === '@revoked') {
+      if (keyData === presented) return 'mismatch';
+      continue;
+    }
+    if (keyData === presented) return 'match';
+    hostSeen = true;
+  }
+
+  return hostSeen ? 'mismatch' : 'unknown';
+}
+
+/* ── Tunnel manager ─────────────────────────────────────────────────── */
+
+export class TunnelManager {
+  private tunnels = new Map<string, Tunnel>();
+  private openingPromises = new Map<string, Promise<Tunnel>>();
+  private readonly CONNECTION_TIMEOUT = 30000; // 30 seconds
+  private readonly IDLE_TIMEOUT = 300000; // 5 minutes
+  private cleanupInterval?: NodeJS.Timeout;
+
+  constructor() {
+    // Close unused tunnels every minute
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupIdleTunnels();
+    }, 60000);
+    this.cleanupInterval.unref();
+  }
+
+  private getTunnelKey(ssh: SshCfg, target: TunnelTarget): string {
+    return `${ssh.username}@${ssh.host}:${ssh.port || 22}->${target.host}:${target.port}`;
+  }
+
+  /** Borrow a tunnel to `target`, opening it if needed. Pair with release(). */
+  async acquire(ssh: SshCfg, target: TunnelTarget): Promise<{ key: string; localPort: number }> {
+    const key = this.getTunnelKey(ssh, target);
+
+    let tunnel = this.tunnels.get(key);
+    if (!tunnel) {
+      let opening = this.openingPromises.get(key);
+      if (!opening) {
+        opening = this.open(key, ssh, target);
+        this.openingPromises.set(key, opening);
+      }
+      try {
+        tunnel = await opening;
+      } finally {
+        this.openingPromises.delete(key);
+      }
+    }
+
+    tunnel.refs++;
+    tunnel.lastUsed = Date.now();
+    return { key, localPort: tunnel.localPort };
+  }
+
+  release(key: string) {
+    const tunnel = this.tunnels.get(key);
+    if (tunnel) {
+      tunnel.refs = Math.max(0, tunnel.refs - 1);
+      tunnel.lastUsed = Date.now();
+    }
+  }
+
+  private async open(key: string, ssh: SshCfg, target: TunnelTarget): Promise<Tunnel> {
+    console.error(`🔄 Opening SSH tunnel via ${ssh.host} to ${target.host}:${target.port}...`);
+
+    const sshPort = ssh.port || 22;
+    const knownHostsPath = ssh.knownHostsPath || path.join(os.homedir(), '.ssh', 'known_hosts');
+    const strict = ssh.strictHostKeyChecking !== false;
+    let hostKeyError: Error | undefined;
+
+    let privateKey: Buffer;
+    try {
+      privateKey = fs.readFileSync(ssh.privateKeyPath);
+    } catch (error) {
+      throw new Error(`Unable to read SSH private key at ${ssh.privateKeyPath}: ${(error as any).message}`);
+    }
+
+    const connectConfig: ConnectConfig = {
+      host: ssh.host,
+      port: sshPort,
+      username: ssh.username,
+      privateKey,
+      passphrase: ssh.passphrase,
+      readyTimeout: this.CONNECTION_TIMEOUT,
+      keepaliveInterval: 30000,
+      hostVerifier: (hostKey: Buffer) => {
+        const status = checkKnownHosts(knownHostsPath, ssh.host, sshPort, hostKey);
+        if (status === 'match') return true;
+        if (status === 'mismatch') {
+          hostKeyError = new Error(`SSH host key for ${ssh.host} does not match ${knownHostsPath} – refusing to connect`);
+          return false;
+        }
+        if (strict) {
+          hostKeyError = new Error(
+            `SSH host ${ssh.host} is not in ${knownHostsPath}. Add it (ssh-keyscan -p ${sshPort} ${ssh.host} >> ${knownHostsPath}) or set SSH_STRICT_HOST_KEY_CHECKING=false`
+          );
+          return false;
+        }
+        console.warn(`⚠️  Accepting unknown SSH host key for ${ssh.host} (strict host key checking disabled)`);
+        return true;
+      },
+    };
+
+    const client = new SshClient();
+    const server = net.createServer((socket) => {
+      client.forwardOut(
+        socket.remoteAddress || '127.0.0.1',
+        socket.remotePort || 0,
+        target.host,
+        target.port,
+        (error, stream) => {
+          if (error) {
+            console.error(`❌ SSH forward to ${target.host}:${target.port} failed: ${error.message}`);
+            socket.destroy();
+            return;
+          }
+          socket.pipe(stream).pipe(socket);
+          stream.on('error', () => socket.destroy());
+          socket.on('error', () => stream.destroy());
+        }
+      );
+    });
+
+    let localPort: number;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        client
+          .once('ready', () => resolve())
+          .once('error', (error) => reject(hostKeyError || error))
+          .connect(connectConfig);
+      });
+
+      localPort = await new Promise<number>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+      });
+    } catch (error) {
+      // Never leave the SSH session open when the tunnel couldn't be set up
+      server.close();
+      client.end();
+      throw error;
+    }
+
+    const tunnel: Tunnel = { ssh: client, server, localPort, refs: 0, lastUsed: Date.now() };
+    this.tunnels.set(key, tunnel);
+
+    // Drop the tunnel when the SSH session dies so the next caller reconnects
+    const onClose = () => {
+      if (this.tunnels.get(key) === tunnel) {
+        this.tunnels.delete(key);
+        server.close();
+        void sqlPoolManager.closeServer('127.0.0.1', localPort);
+      }
+    };
+    client.on('close', onClose);
+    client.on('error', (error) => {
+      console.error(`❌ SSH tunnel ${key} error: ${error.message}`);
+      onClose();
+    });
+
+    console.error(`✅ SSH tunnel ready on 127.0.0.1:${localPort}`);
+    return tunnel;
+  }
+
+  private closeTunnel(key: string, tunnel: Tunnel) {
+    this.tunnels.delete(key);
+    tunnel.server.close();
+    tunnel.ssh.end();
+    // A reopened tunnel gets another local port, so pools pointing at this one are never reused
+    void sqlPoolManager.closeServer('127.0.0.1', tunnel.localPort);
+  }
+
+  private cleanupIdleTunnels() {
+    const now = Date.now();
+    for (const [key, tunnel] of this.tunnels.entries()) {
+      if (tunnel.refs === 0 && now - tunnel.lastUsed > this.IDLE_TIMEOUT) {
+        console.error(`🧹 Closing idle SSH tunnel: ${key}`);
+        this.closeTunnel(key, tunnel);
+      }
+    }
+  }
+
+  async closeAll() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+    for (const [key, tunnel] of this.tunnels.entries()) {
+      this.closeTunnel(key, tunnel);
+    }
+    this.openingPromises.clear();
+  }
+}
+
+// Global SSH tunnel manager
+export const tunnelManager = new TunnelManager();
+
+/* ── Target resolution / config rewriting ───────────────────────────── */
+
+function resolveTarget(cfg: ConnectorCfg): TunnelTarget {
+  const type = cfg.databaseType || 'mysql';
+
+  if (type === 'databricks') {
+    throw new Error('SSH tunnels are not supported for Databricks SQL warehouses (HTTPS endpoints)');
+  }
+
+  if (type === 'mongodb' && cfg.url) {
+    if (cfg.url.startsWith('mongodb+srv://')) {
+      throw new Error('SSH tunnels require a mongodb:// URL with an explicit host; mongodb+srv:// cannot be forwarded');
+    }
+    const url = new URL(cfg.url);
+    if (url.host.includes(',')) {
+      throw new Error('SSH tunnels support a single MongoDB host; connect to one replica-set member instead');
+    }
+    return { host: url.hostname, port: url.port ? parseInt(url.port, 10) : DEFAULT_PORTS.mongodb };
+  }
+
+  return { host: cfg.host, port: cfg.port || DEFAULT_PORTS[type] || 0 };
+}
+
+/** `cfg` pointed at the tunnel's local port; `tunnelled` keeps the configured server for identity. */
+export function rewriteForTunnel(cfg: ConnectorCfg, localPort: number): ConnectorCfg {
+  const { ssh, ...rest } = cfg;
+  const localCfg: ConnectorCfg = {
+    ...rest,
+    host: '127.0.0.1',
+    port: localPort,
+    tunnelled: { host: cfg.host, port: cfg.port, ...(cfg.url ? { url: cfg.url } : {}) },
+  };
+
+  if (cfg.databaseType === 'mongodb') {
+    // A forwarded port only reaches one member – don't let the driver discover the others
+    if (cfg.url) {
+      const url = new URL(cfg.url);
+      url.host = `127.0.0.1:${localPort}`;
+      url.searchParams.set('directConnection', 'true');
+      localCfg.url = url.toString();
+    } else {
+      localCfg.mongoOptions = { ...cfg.mongoOptions, directConnection: true } as any;
+    }
+  }
+
+  return localCfg;
+}
+
+/**
+ * Run `fn` with a config whose host/port point at a local SSH port-forward.
+ * Without `cfg.ssh` the callback receives the original config.
+ */
+export async function withTunnel<T>(
+  cfg: ConnectorCfg,
+  fn: (localCfg: ConnectorCfg) => Promise<T>
+): Promise<T> {
+  if (!cfg.ssh) {
+    return await fn(cfg);
+  }
+
+  const { key, localPort } = await tunnelManager.acquire(cfg.ssh, resolveTarget(cfg));
+  try {
+    return await fn(rewriteForTunnel(cfg, localPort));
+  } finally {
+    tunnelManager.release(key);
+  }
+}
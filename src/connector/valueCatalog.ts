@@ -0,0 +1,121 @@
+/**
+ * Value Catalog
+ * Distinct values of low-cardinality text columns (status codes, country codes,
+ * plan tiers), attached to schemaMap entries as `enumValues` so the orchestrator
+ * filters on values that exist. Labels of native enum types are read with the
+ * schema; with SCHEMA_VALUE_CATALOG=true this pass adds the values found in
+ * the data.
+ */
+
+import type { DatabaseAdapter } from './adapters/registry';
+import type { ConnectorCfg } from './index';
+import { getMaskingPolicy } from './maskingPolicy';
+import { aggregateOnlyFromEnv } from './aggregateGuard';
+import { setMetadata, SchemaCatalog } from './schemaManager';
+import { quoteName, quoteTable } from './tableProfile';
+
+export interface ValueCatalogOptions {
+  maxValues: number; // columns with more distinct values are not categorical
+  maxRows: number;   // larger tables are only queried when statistics show few distinct values
+  timeoutMs: number; // per column
+}
+
+// Longer values are free text rather than codes
+const MAX_VALUE_LENGTH = 100;
+
+export function valueCatalogOptionsFromEnv(): ValueCatalogOptions | undefined {
+  if (process.env.SCHEMA_VALUE_CATALOG !== 'true') {
+    return undefined;
+  }
+  return {
+    maxValues: process.env.VALUE_CATALOG_MAX_VALUES ? parseInt(process.env.VALUE_CATALOG_MAX_VALUES, 10) : 20,
+    maxRows: process.env.VALUE_CATALOG_MAX_ROWS ? parseInt(process.env.VALUE_CATALOG_MAX_ROWS, 10) : 1_000_000,
+    timeoutMs: process.env.VALUE_CATALOG_TIMEOUT_MS ? parseInt(process.env.VALUE_CATALOG_TIMEOUT_MS, 10) : 5000,
+  };
+}
+
+/** Text columns that may hold a small set of values, judged by column statistics or else table size. */
+function isCandidate(column: any, rows: number | undefined, options: ValueCatalogOptions): boolean {
+  if (column.enumValues || column.isArray || String(column.columnName).includes('[')) return false;
+  if (!/char|text|string/i.test(String(column.dataType ?? ''))) return false;
+  const distinct = column.stats?.distinctCount;
+  if (distinct !== undefined) return distinct > 0 && distinct <= options.maxValues;
+  return rows !== undefined && rows > 0 && rows <= options.maxRows; // views have no size
+}
+
+/** The column's distinct values with their row counts, or undefined when there are too many to be categorical. */
+async function distinctValues(
+  adapter: DatabaseAdapter,
+  conn: any,
+  cfg: ConnectorCfg,
+  table: string,
+  column: string,
+  options: ValueCatalogOptions
+): Promise<Array<{ value: any; count: number }> | undefined> {
+  const execOptions = { readOnly: true, timeoutMs: options.timeoutMs };
+  let values: Array<{ value: any; count: number }>;
+  if (adapter.type === 'mongodb') {
+    const rows = await adapter.execute<any[]>(conn, {
+      collection: table,
+      operation: 'aggregate',
+      pipeline: [{ $match: { [column]: { $ne: null } } }, { $group: { _id: `$${column}`, occurrences: { $sum: 1 } } }, { $limit: options.maxValues + 1 }],
+    }, [], cfg, execOptions);
+    values = rows.map(row => ({ value: row._id, count: Number(row.occurrences) }));
+  } else {
+    const name = quoteName(adapter.type, column);
+    const rows = await adapter.execute<any[]>(
+      conn,
+      `SELECT ${name} AS value, COUNT(*) AS occurrences FROM ${quoteTable(adapter.type, table)} WHERE ${name} IS NOT NULL GROUP BY ${name} LIMIT ${options.maxValues + 1}`,
+      [],
+      cfg,
+      execOptions
+    );
+    values = rows.map(row => ({ value: row.value, count: Number(row.occurrences) }));
+  }
+  if (values.length === 0 || values.length > options.maxValues) return undefined;
+  if (values.some(({ value }) => typeof value !== 'string' || value.length > MAX_VALUE_LENGTH)) return undefined;
+  return values.sort((a, b) => (a.value < b.value ? -1 : a.value > b.value ? 1 : 0));
+}
+
+/**
+ * Query the candidate columns of `catalog` and attach their values as
+ * `enumValues` (`enumSource: 'observed'`), redacted by the masking policy.
+ * In aggregate-only mode values held by fewer than its minimum group size of
+ * rows are left out. Columns whose query fails or times out are left without values.
+ */
+export async function loadValueCatalog(
+  adapter: DatabaseAdapter,
+  conn: any,
+  cfg: ConnectorCfg,
+  catalog: SchemaCatalog,
+  options: ValueCatalogOptions,
+  aggregateOnly = aggregateOnlyFromEnv()
+) {
+  const policy = getMaskingPolicy();
+  const localSchemaMap: SchemaCatalog['schemaMap'] = {};
+  const failures: string[] = [];
+  for (const [table, columns] of Object.entries(catalog.schemaMap)) {
+    const rows = catalog.tableSizeCache[table];
+    localSchemaMap[table] = [];
+    for (const column of columns) {
+      let entry = column;
+      if (isCandidate(column, rows, options)) {
+        try {
+          const counted = await distinctValues(adapter, conn, cfg, table, column.columnName, options);
+          const values = counted
+            ?.filter(({ count }) => !aggregateOnly || count >= aggregateOnly.minGroupSize)
+            .map(({ value }) => value);
+          const enumValues = values ? policy.applyToSamples(table, column.columnName, values) : [];
+          if (enumValues.length) entry = { ...column, enumValues, enumSource: 'observed' } as typeof column;
+        } catch (error) {
+          failures.push(`${table}.${column.columnName}: ${(error as any).message}`);
+        }
+      }
+      localSchemaMap[table].push(entry);
+    }
+  }
+  setMetadata({ schemaMap: localSchemaMap }, catalog);
+  if (failures.length) {
+    console.error(`⚠️  Value catalog skipped ${failures.length} column(s), e.g. ${failures[0]}`);
+  }
+}
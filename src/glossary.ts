@@ -0,0 +1,152 @@
+/**
+ * Glossary
+ * Business definitions maintained next to the database: terms with a definition,
+ * synonyms and the tables / columns they map to. Read from a JSON or YAML file
+ * (CELP_GLOSSARY), checked against the schema map, sent to the orchestrator with
+ * schema_info and exposed to the client as an MCP resource.
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { lookupRelation } from "./connector";
+import * as schemaManager from "./connector/schemaManager";
+
+const termSchema = z.object({
+  term: z.string(),                          // e.g. "active customer"
+  definition: z.string().optional(),         // e.g. "ordered in the last 90 days"
+  synonyms: z.array(z.string()).optional(),  // other words users say for it, e.g. "revenue" → "sales"
+  references: z.array(z.string()).optional(), // "table" or "table.column", named like schemaMap keys
+  expression: z.string().optional(),         // SQL / filter implementing the term
+}).refine(term => term.definition || term.references?.length || term.expression, {
+  message: "term needs a definition, references or an expression",
+});
+
+const glossarySchema = z.object({
+  terms: z.array(termSchema),
+});
+
+export type GlossaryTerm = z.infer<typeof termSchema>;
+
+export interface GlossaryWarning {
+  term: string;
+  reference: string;
+  message: string;
+}
+
+export interface Glossary {
+  terms: GlossaryTerm[];
+  warnings?: GlossaryWarning[]; // references that don't match the loaded schema
+}
+
+function parseGlossaryFile(file: string): unknown {
+  const text = fs.readFileSync(file, "utf8");
+  if (!/\.ya?ml$/i.test(file)) {
+    return JSON.parse(text);
+  }
+  let yaml: any;
+  try {
+    // Optional dependency, only needed for YAML glossaries
+    yaml = require("yaml");
+  } catch {
+    throw new Error("YAML parser not found. It is an optional dependency; install it with: npm install yaml (or write the glossary as JSON)");
+  }
+  return yaml.parse(text);
+}
+
+let cached: { file: string; mtimeMs: number; terms: GlossaryTerm[] } | undefined;
+
+/**
+ * Terms of the glossary configured through CELP_GLOSSARY (undefined when unset),
+ * re-read when the file changes. Throws when the file is unreadable or invalid.
+ */
+export function loadGlossary(file = process.env.CELP_GLOSSARY): GlossaryTerm[] | undefined {
+  if (!file) {
+    return undefined;
+  }
+
+  const resolved = path.resolve(file);
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(resolved).mtimeMs;
+  } catch (error) {
+    throw new Error(`Glossary ${resolved} could not be read: ${(error as any).message}`);
+  }
+  if (cached && cached.file === resolved && cached.mtimeMs === mtimeMs) {
+    return cached.terms;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseGlossaryFile(resolved);
+  } catch (error) {
+    throw new Error(`Glossary ${resolved} could not be parsed: ${(error as any).message}`);
+  }
+  const result = glossarySchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid glossary ${resolved}: ${result.error.issues.map(issue => `${issue.path.join(".") || "glossary"}: ${issue.message}`).join("; ")}`);
+  }
+  cached = { file: resolved, mtimeMs, terms: result.data.terms };
+  return cached.terms;
+}
+
+/**
+ * References that name a missing table, or a column the table no longer has.
+ * Dotted references are split at every position, since both table names
+ * (schema.table) and column paths (address.city) may contain dots.
+ */
+export function validateGlossary(terms: GlossaryTerm[], schemaMap: Record<string, Array<{ columnName: string }>>): GlossaryWarning[] {
+  const warnings: GlossaryWarning[] = [];
+  for (const term of terms) {
+    for (const reference of term.references ?? []) {
+      if (lookupRelation(schemaMap, reference)) continue;
+
+      const parts = reference.split(".");
+      let missing: { table: string; column: string } | undefined;
+      let found = false;
+      for (let i = parts.length - 1; i >= 1 && !found; i--) {
+        const table = lookupRelation(schemaMap, parts.slice(0, i).join("."));
+        if (!table) continue;
+        const column = parts.slice(i).join(".");
+        missing = missing ?? { table: table[0], column };
+        // Sampled MongoDB paths carry array positions: items[0].sku
+        found = table[1].some(entry => entry.columnName.replace(/\[\d+\]/g, "").toLowerCase() === column.toLowerCase());
+      }
+      if (!found) {
+        warnings.push({
+          term: term.term,
+          reference,
+          message: missing ? `${missing.table} has no column ${missing.column}` : `no table or column named ${reference}`,
+        });
+      }
+    }
+  }
+  return warnings;
+}
+
+/**
+ * The glossary with warnings for stale references (against the loaded schema map
+ * unless one is given), for schema_info and the MCP resource. A broken glossary
+ * is reported on stderr and left out.
+ */
+export function glossaryForSchema(schemaMap: Record<string, Array<{ columnName: string }>> = schemaManager.schemaMap): Glossary | undefined {
+  let terms: GlossaryTerm[] | undefined;
+  try {
+    terms = loadGlossary();
+  } catch (error) {
+    console.error(`❌ ${(error as any).message}`);
+    return undefined;
+  }
+  if (!terms) {
+    return undefined;
+  }
+  if (Object.keys(schemaMap).length === 0) {
+    return { terms }; // nothing loaded to check against yet
+  }
+
+  const warnings = validateGlossary(terms, schemaMap);
+  for (const warning of warnings) {
+    console.error(`⚠️  Glossary term "${warning.term}": ${warning.message}`);
+  }
+  return { terms, warnings };
+}
@@ -7,18 +7,20 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { io, Socket } from "socket.io-client";
-import { Client as PgClient } from "pg";
-import { createConnection } from "mysql2/promise";
 import type { DefaultEventsMap } from "socket.io/dist/typed-events";
 import * as Connector from './connector';
 import { ConnectorCfg, indexMap, schemaMap } from "./connector";
-import { MongoClient } from "mongodb";
 import { registerTool } from './toolRegistry';
+import { getAuditLog } from './auditLog';
+import { resultContent } from './resultFormat';
+import { glossaryForSchema, loadGlossary } from './glossary';
+import { saveSnapshot, loadSnapshot, diffSchemas, schemaDiffToMarkdown } from './schemaSnapshots';
+import { formatSchema, SchemaFormat } from './schemaExport';
 
 require("dotenv").config();
 
 /* ── Helper types ───────────────────────────────────────────────────── */
-type DbType = "postgres" | "mysql" | "mongodb" | 'databricks';
+type DbType = Connector.DatabaseType;
 interface DbCfg {
   databaseType: DbType;
   host: string;
@@ -38,178 +40,14 @@ interface DbCfg {
     connectTimeoutMS?: number;
   };
   databricksHttpPath?: string;
+  ssh?: ConnectorCfg['ssh'];
 }
 
 const DEBUG = process.env.DEBUG_LOGS === "true";
 const log = (...a: any[]) => DEBUG && console.log(...a);
 
-/* ── Databricks Connection Manager ────────────────────────────────────── */
-interface DatabricksConnection {
-  client: any;
-  connection: any;
-  isConnected: boolean;
-  lastUsed: number;
-  config: DbCfg;
-}
-
-class DatabricksConnectionManager {
-  private connections = new Map<string, DatabricksConnection>();
-  private initializationPromises = new Map<string, Promise<DatabricksConnection>>();
-  private readonly CONNECTION_TIMEOUT = 30000; // 30 seconds
-  private readonly IDLE_TIMEOUT = 300000; // 5 minutes
-  private cleanupInterval?: NodeJS.Timeout;
-
-  constructor() {
-    // Clean up idle connections every minute
-    this.cleanupInterval = setInterval(() => {
-      this.cleanupIdleConnections();
-    }, 60000);
-  }
-
-  private getConnectionKey(cfg: DbCfg): string {
-    return `${cfg.host}:${cfg.port || 443}:${cfg.user}:${cfg.database}`;
-  }
-
-  async getConnection(cfg: DbCfg): Promise<DatabricksConnection> {
-    if (cfg.databaseType !== 'databricks') {
-      throw new Error('This method is only for Databricks connections');
-    }
-
-    const key = this.getConnectionKey(cfg);
-    
-    // Check if we already have a connected instance
-    const existing = this.connections.get(key);
-    if (existing && existing.isConnected) {
-      existing.lastUsed = Date.now();
-      return existing;
-    }
-
-    // Check if we're already initializing this connection
-    const initPromise = this.initializationPromises.get(key);
-    if (initPromise) {
-      return await initPromise;
-    }
-
-    // Create new connection
-    const connectionPromise = this.createConnection(cfg, key);
-    this.initializationPromises.set(key, connectionPromise);
-
-    try {
-      const connection = await connectionPromise;
-      this.connections.set(key, connection);
-      return connection;
-    } finally {
-      this.initializationPromises.delete(key);
-    }
-  }
-
-  private async createConnection(cfg: DbCfg, key: string): Promise<DatabricksConnection> {
-    console.error(`🔄 Initializing Databricks connection for ${cfg.host}...`);
-    
-    try {
-      // Dynamic import to handle optional Databricks dependency
-      const databricksSql = await import('@databricks/sql');
-      
-      const httpPath = cfg.databricksHttpPath;
-      if (!httpPath) {
-        throw new Error('Missing Databricks httpPath in configuration');
-      }
-
-      console.error(`⚡ Connecting to Databricks warehouse...`);
-      
-      const client = new databricksSql.DBSQLClient();
-      const connection = await Promise.race([
-        client.connect({
-          host: cfg.host,
-          path: httpPath,
-          token: cfg.password, // token stored in password field
-        }),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Databricks connection timeout')), this.CONNECTION_TIMEOUT)
-        )
-      ]);
-
-      console.error(`✅ Databricks connection established successfully!`);
-
-      const databricksConnection: DatabricksConnection = {
-        client,
-        connection,
-        isConnected: true,
-        lastUsed: Date.now(),
-        config: cfg
-      };
-
-      return databricksConnection;
-    } catch (error) {
-      console.error(`❌ Failed to connect to Databricks: ${(error as any).message}`);
-      if ((error as any).code === 'MODULE_NOT_FOUND') {
-        throw new Error('Databricks SQL driver not found. Please install: npm install @databricks/sql');
-      }
-      throw error;
-    }
-  }
-
-  async executeQuery(sql: string, cfg: DbCfg): Promise<any> {
-    const databricksConnection = await this.getConnection(cfg);
-    
-    try {
-      const session = await databricksConnection.connection.openSession();
-      const operation = await session.executeStatement(sql, {
-        runAsync: true,
-        maxRows: 10000,
-      });
-      
-      const result = await operation.fetchAll();
-      await operation.close();
-      await session.close();
-      
-      databricksConnection.lastUsed = Date.now();
-      return result;
-      
-    } catch (error) {
-      console.error(`❌ Databricks query execution failed: ${(error as any).message}`);
-      // Mark connection as potentially bad
-      databricksConnection.isConnected = false;
-      throw error;
-    }
-  }
-
-  private async cleanupIdleConnections() {
-    const now = Date.now();
-    
-    for (const [key, connection] of this.connections.entries()) {
-      if (now - connection.lastUsed > this.IDLE_TIMEOUT) {
-        console.error(`🧹 Cleaning up idle Databricks connection: ${key}`);
-        try {
-          await connection.connection.close();
-        } catch (error) {
-          console.warn(`Warning: Error closing idle connection: ${(error as any).message}`);
-        }
-        this.connections.delete(key);
-      }
-    }
-  }
-
-  async closeAll() {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-    }
-
-    for (const [key, connection] of this.connections.entries()) {
-      try {
-        await connection.connection.close();
-      } catch (error) {
-        console.warn(`Warning: Error closing connection ${key}: ${(error as any).message}`);
-      }
-    }
-    
-    this.connections.clear();
-    this.initializationPromises.clear();
-  }
-}
-
-// Global Databricks connection manager
-const databricksManager = new DatabricksConnectionManager();
+// Pooled connections live with the adapters in the connector
+const { databricksManager } = Connector;
 
 // Warmup function to pre-initialize Databricks connections
 async function warmupDatabricksConnection() {
@@ -236,78 +74,376 @@ async function warmupDatabricksConnection() {
 }
 
 // Cleanup on exit
+async function shutdownConnections() {
+  console.error('\n🔄 Shutting down database connections...');
+  await Promise.all([
+    databricksManager.closeAll(),
+    Connector.sqlPoolManager.closeAll(),
+  ]);
+  await Connector.tunnelManager.closeAll();
+  await getAuditLog()?.close();
+}
+
 process.on('SIGINT', async () => {
-  console.error('\n🔄 Shutting down Databricks connections...');
-  await databricksManager.closeAll();
+  await shutdownConnections();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
-  console.error('\n🔄 Shutting down Databricks connections...');
-  await databricksManager.closeAll();
+  await shutdownConnections();
   process.exit(0);
 });
 
-/* ── DB query executor (unchanged from reference) ───────────────────── */
-export async function runQuery(cfg: DbCfg, sql: string, params: any[] = []) {
-  if (cfg.databaseType === "mongodb") {
-    try {
-      const mongodb = await import('mongodb');
-      const MongoClient = mongodb.MongoClient;
-      const connectionString = Connector.buildMongoConnectionString(cfg);
-      const client = new MongoClient(connectionString, cfg.mongoOptions);
-      try {
-        await client.connect();
-        await Connector.loadSchemaMap(client, cfg.database, 'mongodb');
-        await Connector.loadTableSizes(client, cfg.database, 'mongodb');
-        return await Connector.runQuery(sql, params, cfg);
-      } finally {
-        await client.close();
-      }
-    } catch (error) {
-      if ((error as any).code === 'MODULE_NOT_FOUND') {
-        throw new Error('MongoDB driver not found. Please install mongodb package: npm install mongodb');
+/* ── Connection config ──────────────────────────────────────────────── */
+// Tools connect with the DATABASE_* / MONGO_* / DATABRICKS_* env, unless DONT_USE_DB_ENVS=true
+// and the call carries no databaseConfig
+export function dbCfgFromEnv(databaseConfigRaw?: object) {
+  let databaseConfig: object | undefined;
+  if(process.env.DONT_USE_DB_ENVS === "true") {
+    databaseConfig = databaseConfigRaw;
+  }
+  return databaseConfig || (process.env.DONT_USE_DB_ENVS !== "true") ? {
+    databaseType: process.env.DATABASE_TYPE as DbType,
+    host: process.env.DATABASE_HOST || process.env.DATABRICKS_HOST || "localhost",
+    user: process.env.DATABASE_USER || process.env.DATABRICKS_USER || "postgres",
+    password: process.env.DATABASE_PASSWORD || process.env.DATABRICKS_TOKEN || "postgres",
+    database: process.env.DATABASE_NAME || process.env.DATABRICKS_CATALOG || "test_db",
+    port: (process.env.DATABASE_PORT ? parseInt(process.env.DATABASE_PORT, 10) : undefined) || (process.env.DATABRICKS_PORT ? parseInt(process.env.DATABRICKS_PORT, 10) : undefined),
+    mongoOptions: {
+      authSource: process.env.MONGO_AUTH_SOURCE || 'admin',
+      ssl: process.env.MONGO_SSL === 'true',
+      replicaSet: process.env.MONGO_REPLICA_SET,
+      readPreference: process.env.MONGO_READ_PREFERENCE as "primary" | "secondary" | "primaryPreferred" | "secondaryPreferred" | "nearest",
+      maxPoolSize: process.env.MONGO_MAX_POOL_SIZE ? parseInt(process.env.MONGO_MAX_POOL_SIZE, 10) : 10,
+      serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
+      connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
+    },
+    url: process.env.MONGO_URL,
+    databricksHttpPath: process.env.DATABRICKS_HTTP_PATH,
+    databricksOptions: {
+      httpPath: process.env.DATABRICKS_HTTP_PATH,
+      schema: process.env.DATABRICKS_SCHEMA,
+      ...Connector.databricksScopeFromEnv(),
+    },
+    ssh: Connector.sshConfigFromEnv(),
+  } : undefined;
+}
+
+/* ── DB query executor ─────────────────────────────────────────────── */
+const QUERY_TIMEOUT_MS = process.env.QUERY_TIMEOUT_MS ? parseInt(process.env.QUERY_TIMEOUT_MS, 10) : 300000; // 5 minutes
+// Privacy mode for regulated datasets: only aggregated rows from groups of at least k rows leave the machine
+// (AGGREGATE_ONLY / AGGREGATE_MIN_GROUP_SIZE; an invalid group size stops the server here)
+const AGGREGATE_ONLY = Connector.aggregateOnlyFromEnv();
+// Cost gate: EXPLAIN orchestrator statements first and refuse ("reject") or ask to confirm ("confirm") expensive ones
+const QUERY_COST_GATE = (process.env.QUERY_COST_GATE || 'off') as 'off' | 'reject' | 'confirm';
+const QUERY_MAX_COST = process.env.QUERY_MAX_COST ? parseFloat(process.env.QUERY_MAX_COST) : undefined;
+const QUERY_MAX_SCANNED_ROWS = process.env.QUERY_MAX_SCANNED_ROWS ? parseInt(process.env.QUERY_MAX_SCANNED_ROWS, 10) : undefined;
+// Statements running at least this long are recorded in the audit log with their plan
+const SLOW_QUERY_MS = process.env.SLOW_QUERY_MS ? parseInt(process.env.SLOW_QUERY_MS, 10) : 10000;
+const RECORD_SLOW_QUERIES = process.env.RECORD_SLOW_QUERIES !== 'false';
+
+export async function runQuery(
+  cfg: DbCfg,
+  sql: string | Connector.MongoQuery,
+  params: any[] = [],
+  signal?: AbortSignal,
+  maxRows?: number,
+  costGate = QUERY_COST_GATE !== 'off'
+) {
+  // Engine-specific handling lives in the adapter registered for cfg.databaseType.
+  // Statements come from the remote orchestrator or the model, so always go through the read-only guard,
+  // and never send more than the row cap / byte budget (QUERY_MAX_ROWS / QUERY_MAX_BYTES) back.
+  return await Connector.runLimitedQuery(sql, params, cfg, undefined, {
+    readOnly: true,
+    timeoutMs: QUERY_TIMEOUT_MS > 0 ? QUERY_TIMEOUT_MS : undefined,
+    signal,
+    // A caller may ask for fewer rows than the cap, never more
+    maxRows: maxRows ? Math.min(maxRows, Connector.resolveResultLimits().maxRows) : undefined,
+    aggregateOnly: AGGREGATE_ONLY,
+    ...(costGate ? { costGate: { maxCost: QUERY_MAX_COST, maxScannedRows: QUERY_MAX_SCANNED_ROWS } } : {}),
+    slowQueryThreshold: SLOW_QUERY_MS,
+    recordSlowQueries: RECORD_SLOW_QUERIES,
+  });
+}
+
+// Connector.MongoQuery, as accepted from tool calls
+export const mongoQuerySchema = z.object({
+  collection: z.string(),
+  operation: z.enum(["find", "aggregate", "distinct", "count"]),
+  filter: z.record(z.any()).optional(),
+  pipeline: z.array(z.record(z.any())).optional(),
+  field: z.string().optional(),
+  sort: z.record(z.any()).optional(),
+  limit: z.number().int().positive().optional(),
+  skip: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * Execute a statement the model wrote itself (run-sql / run-mongo), without the
+ * orchestrator, and answer with the rows as a markdown table plus JSON.
+ */
+export async function runDirectQuery(
+  tool: "run-sql" | "run-mongo",
+  cfg: DbCfg | undefined,
+  query: string | Connector.MongoQuery,
+  params: any[] = [],
+  maxRows?: number,
+  signal?: AbortSignal
+) {
+  if (!cfg) {
+    return { content: [{ type: "text" as const, text: "Error: No database configuration provided" }] };
+  }
+  const isMongo = cfg.databaseType === "mongodb";
+  if (isMongo !== (tool === "run-mongo")) {
+    return { content: [{ type: "text" as const, text: `Error: ${tool} can't be used with a ${cfg.databaseType || "mysql"} database; use ${isMongo ? "run-mongo" : "run-sql"}` }] };
+  }
+
+  const audit = {
+    tool,
+    databaseType: cfg.databaseType,
+    database: cfg.database,
+    host: cfg.host,
+    query,
+    params,
+  };
+  const started = Date.now();
+  try {
+    const { costEstimate, slowQuery, ...result } = await runQuery(cfg, query, params, signal, maxRows);
+    getAuditLog()?.record({
+      ...audit,
+      timestamp: new Date(started).toISOString(),
+      durationMs: Date.now() - started,
+      rowCount: result.rowCount,
+      truncated: result.truncated,
+      totalRowsEstimate: result.totalRowsEstimate,
+      suppressedGroups: result.suppressedGroups,
+      ...(slowQuery ? { slow: true, plan: slowQuery.plan } : {}),
+    });
+    return { content: resultContent(result) };
+  } catch (e: any) {
+    if (e instanceof Connector.ReadOnlyViolationError || e instanceof Connector.AggregateOnlyViolationError || e instanceof Connector.CostLimitExceededError) {
+      console.error(`🛡️  Rejected ${tool} statement: ${e.reason}\n${typeof query === "string" ? query : JSON.stringify(query)}`);
+    }
+    getAuditLog()?.record({
+      ...audit,
+      timestamp: new Date(started).toISOString(),
+      durationMs: Date.now() - started,
+      error: e.message,
+    });
+    const estimate = e instanceof Connector.CostLimitExceededError ? `\n\nEstimate: ${JSON.stringify(e.estimate, null, 2)}` : "";
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}${estimate}` }] };
+  }
+}
+
+/** SQL (or MongoDB pipeline) behind a view, for get-view-definition. */
+export async function runViewDefinition(cfg: DbCfg | undefined, view: string) {
+  if (!cfg) {
+    return { content: [{ type: "text" as const, text: "Error: No database configuration provided" }] };
+  }
+  try {
+    const { name, kind, definition } = await Connector.viewDefinition(view, cfg as ConnectorCfg);
+    const language = cfg.databaseType === "mongodb" ? "json" : "sql";
+    return {
+      content: [{ type: "text" as const, text: `### ${name} (${kind.replace("_", " ")})\n\n\`\`\`${language}\n${definition.trim()}\n\`\`\`` }],
+    };
+  } catch (e: any) {
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}` }] };
+  }
+}
+
+/** Relationship map for get-relationships, optionally limited to those touching `table`. */
+export async function runGetRelationships(cfg: DbCfg | undefined, table?: string) {
+  if (!cfg) {
+    return { content: [{ type: "text" as const, text: "Error: No database configuration provided" }] };
+  }
+  try {
+    const { relationshipMap } = await Connector.initMetadata(cfg as ConnectorCfg);
+    let relationships: Record<string, Connector.Relationship[]> = relationshipMap;
+    if (table) {
+      // Match bare or qualified names, on either end of the relationship
+      const matches = (name: string) => Connector.lookupRelation({ [name]: true }, table) !== undefined;
+      relationships = {};
+      for (const list of Object.values(relationshipMap as typeof relationships)) {
+        for (const relationship of list.filter((r) => matches(r.fromTable) || matches(r.toTable))) {
+          (relationships[relationship.fromTable] ??= []).push(relationship);
+        }
       }
-      throw error;
     }
-  } else if (cfg.databaseType === "postgres") {
-    const client = new PgClient({
-      host: cfg.host,
-      port: cfg.port || 5432,
-      user: cfg.user,
-      password: cfg.password,
-      database: cfg.database,
-      ssl: process.env.PG_DISABLE_SSL === "true" ? undefined : { rejectUnauthorized: false },
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(relationships, null, 2) }],
+    };
+  } catch (e: any) {
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}` }] };
+  }
+}
+
+/** Force a full metadata reload for refresh-schema, summarizing what was loaded. */
+export async function runRefreshSchema(cfg: DbCfg | undefined) {
+  if (!cfg) {
+    return { content: [{ type: "text" as const, text: "Error: No database configuration provided" }] };
+  }
+  try {
+    const { schemaMap, indexMap, relationshipMap } = await Connector.initMetadata(cfg as ConnectorCfg, undefined, { refresh: true });
+    const count = (map: Record<string, any[]>) => Object.values(map).reduce((total, list) => total + list.length, 0);
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Reloaded ${Object.keys(schemaMap).length} tables / collections with ${count(schemaMap)} columns, ${count(indexMap)} index entries and ${count(relationshipMap)} relationships.`,
+      }],
+    };
+  } catch (e: any) {
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}` }] };
+  }
+}
+
+/** get-schema in a `format` other than JSON. */
+export function runFormatSchema(format: SchemaFormat, maps: Parameters<typeof formatSchema>[1], databaseType?: string) {
+  try {
+    return { content: [{ type: "text" as const, text: formatSchema(format, maps, databaseType) }] };
+  } catch (e: any) {
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}` }] };
+  }
+}
+
+/** Snapshot of the live schema for save-schema-snapshot. */
+export async function runSaveSchemaSnapshot(cfg: DbCfg | undefined, name: string) {
+  if (!cfg) {
+    return { content: [{ type: "text" as const, text: "Error: No database configuration provided" }] };
+  }
+  try {
+    const catalog = await Connector.initMetadata(cfg as ConnectorCfg);
+    const snapshot = await saveSnapshot(name, catalog, { databaseType: cfg.databaseType, database: cfg.database });
+    return {
+      content: [{ type: "text" as const, text: `Saved snapshot \`${name}\` of ${Object.keys(snapshot.schemaMap).length} tables / collections at ${snapshot.createdAt}` }],
+    };
+  } catch (e: any) {
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}` }] };
+  }
+}
+
+/** diff-schema: snapshot `from` against snapshot `to`, or the live database. */
+export async function runDiffSchema(cfg: DbCfg | undefined, from: string, to?: string) {
+  if (!to && !cfg) {
+    return { content: [{ type: "text" as const, text: "Error: No database configuration provided" }] };
+  }
+  try {
+    const before = await loadSnapshot(from);
+    const after = to ? await loadSnapshot(to) : await Connector.initMetadata(cfg as ConnectorCfg);
+    const diff = diffSchemas(before, after, from, to ?? "live");
+    return {
+      content: [
+        { type: "text" as const, text: schemaDiffToMarkdown(diff) },
+        { type: "text" as const, text: JSON.stringify(diff, null, 2) },
+      ],
+    };
+  } catch (e: any) {
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}` }] };
+  }
+}
+
+/** Normalized execution plan for explain-query, as markdown plus JSON. */
+export async function runExplainQuery(
+  cfg: DbCfg | undefined,
+  query: string | Connector.MongoQuery,
+  params: any[] = [],
+  analyze?: boolean,
+  signal?: AbortSignal
+) {
+  if (!cfg) {
+    return { content: [{ type: "text" as const, text: "Error: No database configuration provided" }] };
+  }
+  // Mongo's executionStats is cheap enough to be the default
+  analyze = analyze ?? cfg.databaseType === "mongodb";
+  const started = Date.now();
+  try {
+    const result = await Connector.explainQuery(query, params, cfg, {
+      analyze,
+      timeoutMs: QUERY_TIMEOUT_MS > 0 ? QUERY_TIMEOUT_MS : undefined,
+      signal,
     });
-    await client.connect();
-    try {
-      const { rows } = await client.query(sql, params);
-      return rows;
-    } finally {
-      await client.end();
+    if (analyze) {
+      // The statement itself ran to produce actual row counts
+      getAuditLog()?.record({
+        tool: "explain-query",
+        databaseType: cfg.databaseType,
+        database: cfg.database,
+        host: cfg.host,
+        query,
+        params,
+        timestamp: new Date(started).toISOString(),
+        durationMs: Date.now() - started,
+      });
     }
-  } else if (cfg.databaseType === "databricks") {
-    // Use the connection manager for improved performance
-    return await databricksManager.executeQuery(sql, cfg);
-  } else {
-    const conn = await createConnection({
-      host: cfg.host,
-      port: cfg.port || 3306,
-      user: cfg.user,
-      password: cfg.password,
+    const { markdown, ...plan } = result;
+    return {
+      content: [
+        { type: "text" as const, text: markdown },
+        { type: "text" as const, text: JSON.stringify(plan, null, 2) },
+      ],
+    };
+  } catch (e: any) {
+    if (e instanceof Connector.ReadOnlyViolationError) {
+      console.error(`🛡️  Rejected explain-query statement: ${e.reason}\n${typeof query === "string" ? query : JSON.stringify(query)}`);
+    }
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}` }] };
+  }
+}
+
+/** Column statistics of one table for profile-table, computed by querying it. */
+export async function runProfileTable(
+  cfg: DbCfg | undefined,
+  table: string,
+  columns?: string[],
+  topValues?: number,
+  signal?: AbortSignal
+) {
+  if (!cfg) {
+    return { content: [{ type: "text" as const, text: "Error: No database configuration provided" }] };
+  }
+  const started = Date.now();
+  try {
+    const profile = await Connector.profileTable(table, cfg as ConnectorCfg, {
+      columns,
+      topValues,
+      timeoutMs: QUERY_TIMEOUT_MS > 0 ? QUERY_TIMEOUT_MS : undefined,
+      signal,
+      aggregateOnly: AGGREGATE_ONLY,
+    });
+    getAuditLog()?.record({
+      tool: "profile-table",
+      databaseType: cfg.databaseType,
       database: cfg.database,
+      host: cfg.host,
+      query: cfg.databaseType === "mongodb" ? { collection: profile.table, pipelines: profile.queries } : profile.queries.join(";\n"),
+      timestamp: new Date(started).toISOString(),
+      durationMs: Date.now() - started,
     });
-    try {
-      const [rows] = await conn.query(sql, params);
-      return rows as any[];
-    } finally {
-      await conn.end();
-    }
+    const { queries, ...summary } = profile;
+    return {
+      content: [
+        { type: "text" as const, text: Connector.tableProfileToMarkdown(profile) },
+        { type: "text" as const, text: JSON.stringify(summary, Connector.jsonReplacer, 2) },
+      ],
+    };
+  } catch (e: any) {
+    return { content: [{ type: "text" as const, text: `Error: ${e.message}` }] };
   }
 }
 
 /* ── Single orchestration roundtrip ─────────────────────────────────── */
-export async function orchestrate(prompt: string, apiKey: string, databaseConnectionId?: string, cfg?: DbCfg, mode: 'turbo' | 'reasoning'='turbo'): Promise<string> {
+export async function orchestrate(prompt: string, apiKey: string, databaseConnectionId?: string, cfg?: DbCfg, mode: 'turbo' | 'reasoning'='turbo', signal?: AbortSignal): Promise<string> {
+  if (cfg?.ssh) {
+    // Hold one tunnel open for the whole orchestration so every query_request reuses it.
+    // Queries still get the configured cfg: pools, the catalog and the audit log must see
+    // the real server, not the tunnel's local port
+    return await Connector.withTunnel(cfg, () =>
+      runOrchestration(prompt, apiKey, databaseConnectionId, cfg, mode, signal)
+    );
+  }
+  return await runOrchestration(prompt, apiKey, databaseConnectionId, cfg, mode, signal);
+}
+
+async function runOrchestration(prompt: string, apiKey: string, databaseConnectionId: string | undefined, cfg: DbCfg | undefined, mode: 'turbo' | 'reasoning', signal?: AbortSignal): Promise<string> {
   const serverUrl = process.env.STREAMING_API_URL || "https://celp-mcp-server.onrender.com";
   // const serverUrl = process.env.STREAMING_API_URL || "http://localhost:5006";
   // const apiKey = apiKey || process.env.CELP_API_KEY;
@@ -319,25 +455,97 @@ export async function orchestrate(prompt: string, apiKey: string, databaseConnec
   /* Prepare schema in the background */
 
 
+  // Aborted when the socket drops or the MCP client cancels – kills in-flight queries
+  const queries = new AbortController();
+  const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
   return new Promise<string>((resolve, reject) => {
     let finalMarkdown = "";
 
+    socket.on("disconnect", (reason) => {
+      queries.abort(new Error(`Query cancelled: orchestration socket disconnected (${reason})`));
+    });
+
+    if (signal) {
+      const onCancel = () => {
+        queries.abort(new Error("Query cancelled by the MCP client"));
+        socket.disconnect();
+        reject(new Error("Request cancelled"));
+      };
+      if (signal.aborted) {
+        onCancel();
+      } else {
+        signal.addEventListener("abort", onCancel, { once: true });
+        socket.on("disconnect", () => signal.removeEventListener("abort", onCancel));
+      }
+    }
+
     socket.on("connect_error", (e) => {
       socket.disconnect();
       reject(new Error(`Socket error: ${e.message}`));
     });
 
     /* 1. handle DB query requests */
-    socket.on("query_request", async ({ queryId, sql, params }) => {
+    socket.on("query_request", async ({ queryId, sql, params, confirmCost }) => {
       log("query_request", queryId);
       if (!cfg) {
         socket.emit("query_result", { queryId, error: "No database configuration provided" });
         return;
       }
+      // Every statement is audited, including rejected and failed ones
+      const audit = {
+        requestId,
+        queryId,
+        prompt,
+        tool: mode === "turbo" ? "query-database-turbo" : "query-database",
+        databaseType: cfg.databaseType,
+        database: cfg.database,
+        host: cfg.host,
+        query: sql,
+        params,
+      };
+      const started = Date.now();
       try {
-        const result = await runQuery(cfg, sql, params);
-        socket.emit("query_result", { queryId, result });
+        // In confirm mode the orchestrator re-sends an over-limit statement with confirmCost to run it anyway
+        const gated = QUERY_COST_GATE === "reject" || (QUERY_COST_GATE === "confirm" && !confirmCost);
+        const { rows, truncated, totalRowsEstimate, columns, suppressedGroups, slowQuery } = await runQuery(cfg, sql, params, queries.signal, undefined, gated);
+        if (truncated) {
+          log("query_truncated", queryId, `${rows.length} of ${totalRowsEstimate ?? "unknown"} rows`);
+        }
+        if (slowQuery) {
+          console.error(`🐢 Slow query ${queryId} took ${slowQuery.durationMs}ms`);
+        }
+        getAuditLog()?.record({
+          ...audit,
+          timestamp: new Date(started).toISOString(),
+          durationMs: Date.now() - started,
+          rowCount: rows.length,
+          truncated,
+          totalRowsEstimate,
+          suppressedGroups,
+          ...(slowQuery ? { slow: true, plan: slowQuery.plan } : {}),
+        });
+        socket.emit("query_result", { queryId, result: rows, truncated, totalRowsEstimate, columns, suppressedGroups });
       } catch (e: any) {
+        if (e instanceof Connector.ReadOnlyViolationError || e instanceof Connector.AggregateOnlyViolationError || e instanceof Connector.CostLimitExceededError) {
+          console.error(`🛡️  Rejected query ${queryId}: ${e.reason}\n${typeof sql === "string" ? sql : JSON.stringify(sql)}`);
+        }
+        getAuditLog()?.record({
+          ...audit,
+          timestamp: new Date(started).toISOString(),
+          durationMs: Date.now() - started,
+          error: e.message,
+        });
+        if (e instanceof Connector.CostLimitExceededError) {
+          // The estimate lets the orchestrator rewrite the statement with filters or a LIMIT
+          socket.emit("query_result", {
+            queryId,
+            error: e.message,
+            costEstimate: e.estimate,
+            requiresConfirmation: QUERY_COST_GATE === "confirm",
+          });
+          return;
+        }
         socket.emit("query_result", { queryId, error: e.message });
       }
     });
@@ -370,15 +578,17 @@ export async function orchestrate(prompt: string, apiKey: string, databaseConnec
       }
       
       if (!databaseConnectionId && cfg) {
-        const { schemaMap, indexMap } = await Connector.initMetadata(cfg as any);
+        const { schemaMap, indexMap, relationshipMap, tableInfoMap } = await Connector.initMetadata(cfg as any);
         // console.log(`CLI: Loaded schema with ${Object.keys(schemaMap).length} tables`);
-        socket.emit("schema_info", { schemaMap, indexMap });
+        const glossary = glossaryForSchema(schemaMap);
+        socket.emit("schema_info", { schemaMap, indexMap, relationshipMap, tableInfoMap, ...(glossary ? { glossary } : {}) });
       } else {
-        socket.emit("schema_info", { databaseConnectionId });
+        // The schema lives with the remote connection, so the glossary goes unchecked
+        const glossary = glossaryForSchema({});
+        socket.emit("schema_info", { databaseConnectionId, ...(glossary ? { glossary } : {}) });
       }
 
 
-      const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
       // resolve(JSON.stringify({ prompt, databaseType: cfg?.databaseType, requestId, apiKey, mode, databaseConnectionId }));
       socket.emit("orchestrate", { prompt, databaseType: cfg?.databaseType, requestId, apiKey, mode, databaseConnectionId });
     });
@@ -532,7 +742,7 @@ This tool translates natural language into multi-step SQL analysis plans and exe
     celpApiKey: z.string().optional(),
     databaseConnectionId: z.string().optional(),
   },
-  async (args) => {
+  async (args, extra) => {
     const { prompt, databaseConfig: databaseConfigRaw, databaseConnectionId, celpApiKey } = args;
     // console.log({args})
     // if (process.env.DONT_USE_DB_ENVS !== "true") {
@@ -547,33 +757,7 @@ This tool translates natural language into multi-step SQL analysis plans and exe
     //     process.env.DATABASE_CONNECTION_ID = databaseConnectionId;
     //   }
     // }
-    let databaseConfig: typeof databaseConfigRaw | undefined;
-    if(process.env.DONT_USE_DB_ENVS === "true") {
-      databaseConfig = databaseConfigRaw;
-    }
-    const cfg = databaseConfig || (process.env.DONT_USE_DB_ENVS !== "true") ? {
-      databaseType: process.env.DATABASE_TYPE as DbType,
-      host: process.env.DATABASE_HOST || process.env.DATABRICKS_HOST || "localhost",
-      user: process.env.DATABASE_USER || process.env.DATABRICKS_USER || "postgres",
-      password: process.env.DATABASE_PASSWORD || process.env.DATABRICKS_TOKEN || "postgres",
-      database: process.env.DATABASE_NAME || process.env.DATABRICKS_CATALOG || "test_db",
-      port: (process.env.DATABASE_PORT ? parseInt(process.env.DATABASE_PORT, 10) : undefined) || (process.env.DATABRICKS_PORT ? parseInt(process.env.DATABRICKS_PORT, 10) : undefined),
-      mongoOptions: {
-        authSource: process.env.MONGO_AUTH_SOURCE || 'admin',
-        ssl: process.env.MONGO_SSL === 'true',
-        replicaSet: process.env.MONGO_REPLICA_SET,
-        readPreference: process.env.MONGO_READ_PREFERENCE as "primary" | "secondary" | "primaryPreferred" | "secondaryPreferred" | "nearest",
-        maxPoolSize: process.env.MONGO_MAX_POOL_SIZE ? parseInt(process.env.MONGO_MAX_POOL_SIZE, 10) : 10,
-        serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
-        connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
-      },
-      url: process.env.MONGO_URL,
-      databricksHttpPath: process.env.DATABRICKS_HTTP_PATH,
-      databricksOptions: {
-        httpPath: process.env.DATABRICKS_HTTP_PATH,
-        schema: process.env.DATABRICKS_SCHEMA,
-      },
-    } : undefined;
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
 
     // const cfg: DbCfg = databaseConfig || {
     //   databaseType: (process.env.DATABASE_TYPE as DbType) || "postgres",
@@ -588,7 +772,7 @@ This tool translates natural language into multi-step SQL analysis plans and exe
       throw new Error("No API key provided");
     }
     try {
-      const md = await orchestrate(prompt, process.env.DONT_USE_DB_ENVS === "true" ? celpApiKey! : process.env.CELP_API_KEY!, databaseConnectionId, cfg, 'reasoning');
+      const md = await orchestrate(prompt, process.env.DONT_USE_DB_ENVS === "true" ? celpApiKey! : process.env.CELP_API_KEY!, databaseConnectionId, cfg, 'reasoning', extra?.signal);
       return { content: [{ type: "text", text: md }] };
     } catch (e: any) {
       console.error("query-database error:", e);
@@ -721,7 +905,7 @@ Because the model sees only the *user's question* and minimal schema hints, Turb
     databaseConnectionId: z.string().optional(),
     celpApiKey: z.string().optional(),
   },
-  async (args) => {
+  async (args, extra) => {
     const { prompt, databaseConfig: databaseConfigRaw, databaseConnectionId, celpApiKey } = args;
     // console.log({args})
     // if (process.env.DONT_USE_DB_ENVS !== "true") {
@@ -736,33 +920,7 @@ Because the model sees only the *user's question* and minimal schema hints, Turb
     //     process.env.DATABASE_CONNECTION_ID = databaseConnectionId;
     //   }
     // }
-    let databaseConfig: typeof databaseConfigRaw | undefined;
-    if(process.env.DONT_USE_DB_ENVS === "true") {
-      databaseConfig = databaseConfigRaw;
-    }
-    const cfg = databaseConfig || (process.env.DONT_USE_DB_ENVS !== "true") ? {
-      databaseType: process.env.DATABASE_TYPE as DbType,
-      host: process.env.DATABASE_HOST || process.env.DATABRICKS_HOST || "localhost",
-      user: process.env.DATABASE_USER || process.env.DATABRICKS_USER || "postgres",
-      password: process.env.DATABASE_PASSWORD || process.env.DATABRICKS_TOKEN || "postgres",
-      database: process.env.DATABASE_NAME || process.env.DATABRICKS_CATALOG || "test_db",
-      port: (process.env.DATABASE_PORT ? parseInt(process.env.DATABASE_PORT, 10) : undefined) || (process.env.DATABRICKS_PORT ? parseInt(process.env.DATABRICKS_PORT, 10) : undefined),
-      mongoOptions: {
-        authSource: process.env.MONGO_AUTH_SOURCE || 'admin',
-        ssl: process.env.MONGO_SSL === 'true',
-        replicaSet: process.env.MONGO_REPLICA_SET,
-        readPreference: process.env.MONGO_READ_PREFERENCE as "primary" | "secondary" | "primaryPreferred" | "secondaryPreferred" | "nearest",
-        maxPoolSize: process.env.MONGO_MAX_POOL_SIZE ? parseInt(process.env.MONGO_MAX_POOL_SIZE, 10) : 10,
-        serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
-        connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
-      },
-      url: process.env.MONGO_URL,
-      databricksHttpPath: process.env.DATABRICKS_HTTP_PATH,
-      databricksOptions: {
-        httpPath: process.env.DATABRICKS_HTTP_PATH,
-        schema: process.env.DATABRICKS_SCHEMA,
-      },
-    } : undefined;
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
 
     // const cfg: DbCfg = databaseConfig || {
     //   databaseType: (process.env.DATABASE_TYPE as DbType) || "postgres",
@@ -777,7 +935,7 @@ Because the model sees only the *user's question* and minimal schema hints, Turb
       throw new Error("No API key provided");
     }
     try {
-      const md = await orchestrate(prompt, process.env.DONT_USE_DB_ENVS === "true" ? celpApiKey! : process.env.CELP_API_KEY!, databaseConnectionId, cfg, 'turbo');
+      const md = await orchestrate(prompt, process.env.DONT_USE_DB_ENVS === "true" ? celpApiKey! : process.env.CELP_API_KEY!, databaseConnectionId, cfg, 'turbo', extra?.signal);
       return { content: [{ type: "text", text: md }] };
     } catch (e: any) {
       console.error("query-database error:", e);
@@ -790,7 +948,7 @@ registerTool(
   server,
   "get-schema",
   `
-  Returns the schema map for the database. Only use this tool after previous attempts fail, or when specifically requested
+  Returns the schema map for the database, followed by what each entry is (table, partitioned table, view, materialized view, foreign or external table, collection). Columns and tables carry the \`description\` documented in the database's comments, when there is one. Partitions are folded into their partitioned table. Categorical columns carry \`enumValues\`: the labels of a native enum type (\`enumSource: "type"\`) or, with the value catalog enabled, the few distinct values found in the data (\`"observed"\`). Set \`format\` to get the schema instead as reconstructed \`CREATE TABLE\` DDL for the database's dialect (\`ddl\`, not for MongoDB), DBML (\`dbml\`), a Mermaid entity-relationship diagram using the discovered keys (\`mermaid\`) or one JSON Schema per table or collection (\`json-schema\`). Only use this tool after previous attempts fail, or when specifically requested
 `,
   {
     databaseConfig: z.object({
@@ -804,8 +962,9 @@ registerTool(
     }).optional(),
     apiKey: z.string().optional(),
     databaseConnectionId: z.string().optional(),
+    format: z.enum(["json", "ddl", "dbml", "mermaid", "json-schema"]).optional(),
   },
-  async ({ databaseConfig: databaseConfigRaw, apiKey, databaseConnectionId }) => {
+  async ({ databaseConfig: databaseConfigRaw, apiKey, databaseConnectionId, format }) => {
     // console.log({args, ctx})
     // console.log('attempting to get schema for')
     // if (process.env.CELP_API_KEY) {
@@ -832,6 +991,8 @@ registerTool(
           socket.disconnect();
           if (error) {
             reject(new Error(error));
+          } else if (format && format !== "json") {
+            resolve(runFormatSchema(format, { schemaMap }, (databaseConfigRaw as any)?.databaseType ?? process.env.DATABASE_TYPE));
           } else {
             resolve({
               content: [
@@ -852,41 +1013,24 @@ registerTool(
         });
       });
     }
-    let databaseConfig: typeof databaseConfigRaw | undefined;
-    if(process.env.DONT_USE_DB_ENVS === "true") {
-      databaseConfig = databaseConfigRaw;
-    }
-    const cfg = databaseConfig || (process.env.DONT_USE_DB_ENVS !== "true") ? {
-      databaseType: process.env.DATABASE_TYPE as DbType,
-      host: process.env.DATABASE_HOST || process.env.DATABRICKS_HOST || "localhost",
-      user: process.env.DATABASE_USER || process.env.DATABRICKS_USER || "postgres",
-      password: process.env.DATABASE_PASSWORD || process.env.DATABRICKS_TOKEN || "postgres",
-      database: process.env.DATABASE_NAME || process.env.DATABRICKS_CATALOG || "test_db",
-      port: (process.env.DATABASE_PORT ? parseInt(process.env.DATABASE_PORT, 10) : undefined) || (process.env.DATABRICKS_PORT ? parseInt(process.env.DATABRICKS_PORT, 10) : undefined),
-      mongoOptions: {
-        authSource: process.env.MONGO_AUTH_SOURCE || 'admin',
-        ssl: process.env.MONGO_SSL === 'true',
-        replicaSet: process.env.MONGO_REPLICA_SET,
-        readPreference: process.env.MONGO_READ_PREFERENCE as "primary" | "secondary" | "primaryPreferred" | "secondaryPreferred" | "nearest",
-        maxPoolSize: process.env.MONGO_MAX_POOL_SIZE ? parseInt(process.env.MONGO_MAX_POOL_SIZE, 10) : 10,
-        serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
-        connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
-      },
-      url: process.env.MONGO_URL,
-      databricksHttpPath: process.env.DATABRICKS_HTTP_PATH,
-      databricksOptions: {
-        httpPath: process.env.DATABRICKS_HTTP_PATH,
-        schema: process.env.DATABRICKS_SCHEMA,
-      },
-    } : undefined;
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
 // throw new Error(JSON.stringify(cfg))
-    const { schemaMap } = await Connector.initMetadata(cfg as ConnectorCfg);
+    const catalog = await Connector.initMetadata(cfg as ConnectorCfg);
+    if (format && format !== "json") {
+      return runFormatSchema(format, catalog, cfg?.databaseType);
+    }
+    const { schemaMap, tableInfoMap } = catalog;
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify(schemaMap, null, 2)
         },
+        {
+          // What each entry is: table, view, materialized view, …, its description and the partitions of partitioned tables
+          type: "text",
+          text: JSON.stringify(tableInfoMap, null, 2)
+        },
       ],
     };
   }
@@ -896,7 +1040,7 @@ registerTool(
   server,
   "get-index-map",
   `
-  Returns the index map for the database. Only use this tool after previous attempts fail, or when specifically requested
+  Returns the index map for the database: one entry per index key column (\`indexName\`, \`columnName\`, \`seqInIndex\`, \`nonUnique\`, \`indexType\`) with \`isPrimary\`, \`isUnique\` and the backing \`constraintType\` (PRIMARY KEY, UNIQUE). Postgres entries also give expression keys (\`isExpression\`, the expression in \`columnName\`), \`descending\`, non-default \`opclass\`, \`includeColumns\`, the partial-index \`predicate\`, \`isValid\` and the full \`definition\`. Databricks has no indexes; its entries describe each Delta table's data layout instead: \`partition\`, liquid \`clustering\` and \`zorder\` columns, which filters should use to skip files, with the table's \`sizeInBytes\` and \`numFiles\`. Only use this tool after previous attempts fail, or when specifically requested
 `,
   {
     databaseConfig: z.object({
@@ -994,33 +1138,7 @@ registerTool(
       });
     }
 
-    let databaseConfig: typeof databaseConfigRaw | undefined;
-    if(process.env.DONT_USE_DB_ENVS === "true") {
-      databaseConfig = databaseConfigRaw;
-    }
-    const cfg = databaseConfig || (process.env.DONT_USE_DB_ENVS !== "true") ? {
-      databaseType: process.env.DATABASE_TYPE as DbType,
-      host: process.env.DATABASE_HOST || process.env.DATABRICKS_HOST || "localhost",
-      user: process.env.DATABASE_USER || process.env.DATABRICKS_USER || "postgres",
-      password: process.env.DATABASE_PASSWORD || process.env.DATABRICKS_TOKEN || "postgres",
-      database: process.env.DATABASE_NAME || process.env.DATABRICKS_CATALOG || "test_db",
-      port: (process.env.DATABASE_PORT ? parseInt(process.env.DATABASE_PORT, 10) : undefined) || (process.env.DATABRICKS_PORT ? parseInt(process.env.DATABRICKS_PORT, 10) : undefined),
-      mongoOptions: {
-        authSource: process.env.MONGO_AUTH_SOURCE || 'admin',
-        ssl: process.env.MONGO_SSL === 'true',
-        replicaSet: process.env.MONGO_REPLICA_SET,
-        readPreference: process.env.MONGO_READ_PREFERENCE as "primary" | "secondary" | "primaryPreferred" | "secondaryPreferred" | "nearest",
-        maxPoolSize: process.env.MONGO_MAX_POOL_SIZE ? parseInt(process.env.MONGO_MAX_POOL_SIZE, 10) : 10,
-        serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
-        connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
-      },
-      url: process.env.MONGO_URL,
-      databricksHttpPath: process.env.DATABRICKS_HTTP_PATH,
-      databricksOptions: {
-        httpPath: process.env.DATABRICKS_HTTP_PATH,
-        schema: process.env.DATABRICKS_SCHEMA,
-      },
-    } : undefined;
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
     const { indexMap } = await Connector.initMetadata(cfg as ConnectorCfg);
     return {
       content: [
@@ -1033,7 +1151,288 @@ registerTool(
   }
 );
 
+registerTool(
+  server,
+  "get-view-definition",
+  `
+  Returns the SQL definition of a view or materialized view (for MongoDB, the source collection and aggregation pipeline). \`get-schema\` lists each table's kind; use this to see how a view derives its columns before querying it.
+`,
+  {
+    view: z.string(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ view, databaseConfig: databaseConfigRaw }) => {
+    return runViewDefinition(dbCfgFromEnv(databaseConfigRaw), view);
+  }
+);
+
+registerTool(
+  server,
+  "refresh-schema",
+  `
+  Reloads the schema, indexes, table sizes and relationships straight from the database, bypassing the on-disk schema cache, and stores the result in the cache. Metadata is normally served from that cache and refreshed automatically when a change is detected; use this after schema changes it may have missed (e.g. fields newly appearing in MongoDB documents) or when \`get-schema\` looks out of date.
+`,
+  {
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ databaseConfig: databaseConfigRaw }) => {
+    return runRefreshSchema(dbCfgFromEnv(databaseConfigRaw));
+  }
+);
+
+registerTool(
+  server,
+  "save-schema-snapshot",
+  `
+  Saves the current schema, indexes and relationships under \`name\` (letters, digits, '.', '_', '-'), overwriting a snapshot of that name. Save one before a migration, then use \`diff-schema\` to see what it changed.
+`,
+  {
+    name: z.string(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ name, databaseConfig: databaseConfigRaw }) => {
+    return runSaveSchemaSnapshot(dbCfgFromEnv(databaseConfigRaw), name);
+  }
+);
+
+registerTool(
+  server,
+  "diff-schema",
+  `
+  Reports what changed between the saved schema snapshot \`from\` and the snapshot \`to\` (or the live database when \`to\` is omitted): tables and columns added, removed or renamed, column type and nullability changes, index changes and foreign keys added or removed. Returned as markdown followed by the same diff as JSON.
+`,
+  {
+    from: z.string(),
+    to: z.string().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ from, to, databaseConfig: databaseConfigRaw }) => {
+    return runDiffSchema(dbCfgFromEnv(databaseConfigRaw), from, to);
+  }
+);
+
+registerTool(
+  server,
+  "get-relationships",
+  `
+  Returns the relationships between tables: declared foreign keys (MySQL, PostgreSQL, Databricks Unity Catalog) or, for MongoDB, references inferred from \`*_id\` / \`*Id\` field names (marked \`"source": "inferred"\`). Entries are keyed by the referencing table and list the column pairs to join on. Pass \`table\` to get only the relationships from or to that table.
+`,
+  {
+    table: z.string().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ table, databaseConfig: databaseConfigRaw }) => {
+    return runGetRelationships(dbCfgFromEnv(databaseConfigRaw), table);
+  }
+);
+
+registerTool(
+  server,
+  "run-sql",
+  `
+  Runs a single read-only SQL statement you have written yourself directly against the database, without the analysis orchestrator. Use it when you already know the exact query; use \`query-database\` for questions that need planning. Only SELECT-style statements are accepted, the statement is cancelled after the query timeout, and at most \`maxRows\` rows (never more than the server's row cap) are returned, as a markdown table followed by the same result as JSON. Positional \`params\` are bound to the statement's placeholders ($1, $2 … on Postgres, ? on MySQL).
+`,
+  {
+    sql: z.string(),
+    params: z.array(z.any()).optional(),
+    maxRows: z.number().int().positive().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ sql, params, maxRows, databaseConfig: databaseConfigRaw }, extra) => {
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
+    return await runDirectQuery("run-sql", cfg, sql, params, maxRows, extra?.signal);
+  }
+);
+
+registerTool(
+  server,
+  "run-mongo",
+  `
+  Runs a single read-only MongoDB query you have written yourself directly against the database, without the analysis orchestrator. \`operation\` is find (\`filter\`, \`sort\`, \`skip\`, \`limit\`), aggregate (\`pipeline\`), distinct (\`field\`, \`filter\`) or count (\`filter\`). Pipelines may not write ($out / $merge). The query is cancelled after the query timeout and at most \`maxRows\` documents (never more than the server's row cap) are returned, as a markdown table followed by the same result as JSON.
+`,
+  {
+    query: mongoQuerySchema,
+    maxRows: z.number().int().positive().optional(),
+    databaseConfig: z.object({
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+    }).optional(),
+  },
+  async ({ query, maxRows, databaseConfig: databaseConfigRaw }, extra) => {
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
+    return await runDirectQuery("run-mongo", cfg, query, [], maxRows, extra?.signal);
+  }
+);
+
+registerTool(
+  server,
+  "explain-query",
+  `
+  Shows how the database would execute a query, to find out why it is slow. Pass SQL as a string (Postgres, MySQL, Databricks) or a MongoDB query object. Returns the plan as a tree of operations (node type, estimated / actual rows, cost, index used) in markdown, with warnings for full scans of large tables that cross-reference the table's indexes, followed by the same plan as JSON. \`analyze: true\` executes the statement (read-only, under the query timeout) to report actual row counts on Postgres and MongoDB; it defaults to true for MongoDB.
+`,
+  {
+    query: z.union([z.string(), mongoQuerySchema]),
+    params: z.array(z.any()).optional(),
+    analyze: z.boolean().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ query, params, analyze, databaseConfig: databaseConfigRaw }, extra) => {
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
+    return await runExplainQuery(cfg, query, params, analyze, extra?.signal);
+  }
+);
+
+registerTool(
+  server,
+  "profile-table",
+  `
+  Profiles one table or collection by querying it: row count and, per column, the share of NULLs, the number of distinct values, min / max and the most common values with their frequency. Use it to learn what values a column really holds before filtering on it. Scans the table once or twice per column under the query timeout, so limit \`columns\` on large tables. Values are redacted by the masking policy. Returns a markdown table followed by the same profile as JSON.
+`,
+  {
+    table: z.string(),
+    columns: z.array(z.string()).optional(),
+    topValues: z.number().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ table, columns, topValues, databaseConfig: databaseConfigRaw }, extra) => {
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
+    return await runProfileTable(cfg, table, columns, topValues, extra?.signal);
+  }
+);
+
+registerTool(
+  server,
+  "search-audit-log",
+  `
+  Searches the local audit log of statements executed for the orchestrator, newest first. Filter by time range (ISO 8601 \`from\` / \`to\`), by a table or collection the statement referenced, by text in the prompt, statement or error, or set \`slow: true\` for slow queries only (recorded with their execution plan).
+`,
+  {
+    from: z.string().optional(),
+    to: z.string().optional(),
+    table: z.string().optional(),
+    text: z.string().optional(),
+    slow: z.boolean().optional(),
+    limit: z.number().optional(),
+  },
+  async ({ from, to, table, text, slow, limit }) => {
+    const auditLog = getAuditLog();
+    if (!auditLog) {
+      return { content: [{ type: "text", text: "Audit logging is disabled (AUDIT_LOG_DISABLED=true)" }] };
+    }
+    const entries = await auditLog.search({ from, to, table, text, slow, limit });
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(entries, null, 2)
+        },
+      ],
+    };
+  }
+);
+
+server.resource(
+  "glossary",
+  "celp://glossary",
+  {
+    description: "Business glossary (CELP_GLOSSARY): term definitions, synonyms and the tables / columns they map to, with warnings for references the schema no longer has",
+    mimeType: "application/json",
+  },
+  async (uri) => ({
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(glossaryForSchema() ?? { terms: [] }, null, 2),
+      },
+    ],
+  })
+);
+
 (async () => {
+  try {
+    const terms = loadGlossary();
+    if (terms) {
+      console.error(`📖 Loaded glossary with ${terms.length} terms`);
+    }
+  } catch (e: any) {
+    // Reported again (and retried) whenever the glossary is used
+    console.error(`❌ ${e.message}`);
+  }
+
+  // Register in-house engines before any tool call can resolve an adapter
+  const plugins = Connector.loadAdapterPlugins();
+  if (plugins.length > 0) {
+    console.error(`🔌 Loaded database adapters: ${plugins.join(', ')}`);
+  }
+
   // Start warmup in parallel with server connection
   const warmupPromise = warmupDatabricksConnection();
   
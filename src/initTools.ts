@@ -2,7 +2,8 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { registerTool } from './toolRegistry';
-import { orchestrate } from './index';
+import { getAuditLog } from './auditLog';
+import { orchestrate, runDirectQuery, runExplainQuery, runProfileTable, runGetRelationships, runRefreshSchema, runSaveSchemaSnapshot, runDiffSchema, runFormatSchema, runViewDefinition, dbCfgFromEnv, mongoQuerySchema } from './index';
 import * as Connector from './connector';
 import { ConnectorCfg } from "./connector";
 import { io, Socket } from "socket.io-client";
@@ -29,6 +30,7 @@ interface DbCfg {
     socketTimeoutMS?: number;
     connectTimeoutMS?: number;
   };
+  ssh?: ConnectorCfg['ssh'];
 }
 
 // Create a dummy server just for registering tools
@@ -92,7 +94,7 @@ This tool translates natural language into multi-step SQL analysis plans and exe
     celpApiKey: z.string().optional(),
     databaseConnectionId: z.string().optional(),
   },
-  async (args) => {
+  async (args, extra) => {
     const { prompt, databaseConfig: databaseConfigRaw, databaseConnectionId, celpApiKey } = args;
     let databaseConfig: typeof databaseConfigRaw | undefined;
     if(process.env.DONT_USE_DB_ENVS === "true") {
@@ -114,13 +116,14 @@ This tool translates natural language into multi-step SQL analysis plans and exe
         serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
         connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
       },
+      ssh: Connector.sshConfigFromEnv(),
     } : undefined;
 
     if ((process.env.DONT_USE_DB_ENVS === "true" && !celpApiKey) || (process.env.DONT_USE_DB_ENVS !== "true" && !process.env.CELP_API_KEY)) {
       throw new Error("No API key provided");
     }
     try {
-      const md = await orchestrate(prompt, process.env.DONT_USE_DB_ENVS === "true" ? celpApiKey! : process.env.CELP_API_KEY!, databaseConnectionId, cfg, 'reasoning');
+      const md = await orchestrate(prompt, process.env.DONT_USE_DB_ENVS === "true" ? celpApiKey! : process.env.CELP_API_KEY!, databaseConnectionId, cfg, 'reasoning', extra?.signal);
       return { content: [{ type: "text", text: md }] };
     } catch (e: any) {
       console.error("query-database error:", e);
@@ -188,7 +191,7 @@ Because the model sees only the *user's question* and minimal schema hints, Turb
     databaseConnectionId: z.string().optional(),
     celpApiKey: z.string().optional(),
   },
-  async (args) => {
+  async (args, extra) => {
     const { prompt, databaseConfig: databaseConfigRaw, databaseConnectionId, celpApiKey } = args;
     let databaseConfig: typeof databaseConfigRaw | undefined;
     if(process.env.DONT_USE_DB_ENVS === "true") {
@@ -210,13 +213,14 @@ Because the model sees only the *user's question* and minimal schema hints, Turb
         serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
         connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
       },
+      ssh: Connector.sshConfigFromEnv(),
     } : undefined;
 
     if ((process.env.DONT_USE_DB_ENVS === "true" && !celpApiKey) || (process.env.DONT_USE_DB_ENVS !== "true" && !process.env.CELP_API_KEY)) {
       throw new Error("No API key provided");
     }
     try {
-      const md = await orchestrate(prompt, process.env.DONT_USE_DB_ENVS === "true" ? celpApiKey! : process.env.CELP_API_KEY!, databaseConnectionId, cfg, 'turbo');
+      const md = await orchestrate(prompt, process.env.DONT_USE_DB_ENVS === "true" ? celpApiKey! : process.env.CELP_API_KEY!, databaseConnectionId, cfg, 'turbo', extra?.signal);
       return { content: [{ type: "text", text: md }] };
     } catch (e: any) {
       console.error("query-database error:", e);
@@ -229,7 +233,7 @@ registerTool(
   dummyServer,
   "get-schema",
   `
-  Returns the schema map for the database. Only use this tool after previous attempts fail, or when specifically requested
+  Returns the schema map for the database, followed by what each entry is (table, partitioned table, view, materialized view, foreign or external table, collection). Columns and tables carry the \`description\` documented in the database's comments, when there is one. Partitions are folded into their partitioned table. Categorical columns carry \`enumValues\`: the labels of a native enum type (\`enumSource: "type"\`) or, with the value catalog enabled, the few distinct values found in the data (\`"observed"\`). Set \`format\` to get the schema instead as reconstructed \`CREATE TABLE\` DDL for the database's dialect (\`ddl\`, not for MongoDB), DBML (\`dbml\`), a Mermaid entity-relationship diagram using the discovered keys (\`mermaid\`) or one JSON Schema per table or collection (\`json-schema\`). Only use this tool after previous attempts fail, or when specifically requested
 `,
   {
     databaseConfig: z.object({
@@ -247,8 +251,9 @@ registerTool(
       httpPath: z.string().optional(),
     }).optional(),
     databricksHttpPath: z.string().optional(),
+    format: z.enum(["json", "ddl", "dbml", "mermaid", "json-schema"]).optional(),
   },
-  async ({ databaseConfig: databaseConfigRaw, apiKey, databaseConnectionId }) => {
+  async ({ databaseConfig: databaseConfigRaw, apiKey, databaseConnectionId, format }) => {
     if (apiKey && databaseConnectionId) {
       const serverUrl = process.env.STREAMING_API_URL || "https://celp-mcp-server.onrender.com";
       const socket: Socket<DefaultEventsMap, DefaultEventsMap> = io(serverUrl, {
@@ -266,6 +271,8 @@ registerTool(
           socket.disconnect();
           if (error) {
             reject(new Error(error));
+          } else if (format && format !== "json") {
+            resolve(runFormatSchema(format, { schemaMap }, (databaseConfigRaw as any)?.databaseType ?? process.env.DATABASE_TYPE));
           } else {
             resolve({
               content: [
@@ -306,14 +313,24 @@ registerTool(
         serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
         connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
       },
+      ssh: Connector.sshConfigFromEnv(),
     } : undefined;
-    const { schemaMap } = await Connector.initMetadata(cfg as ConnectorCfg);
+    const catalog = await Connector.initMetadata(cfg as ConnectorCfg);
+    if (format && format !== "json") {
+      return runFormatSchema(format, catalog, cfg?.databaseType);
+    }
+    const { schemaMap, tableInfoMap } = catalog;
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify(schemaMap, null, 2)
         },
+        {
+          // What each entry is: table, view, materialized view, …, its description and the partitions of partitioned tables
+          type: "text",
+          text: JSON.stringify(tableInfoMap, null, 2)
+        },
       ],
     };
   }
@@ -323,7 +340,7 @@ registerTool(
   dummyServer,
   "get-index-map",
   `
-  Returns the index map for the database. Only use this tool after previous attempts fail, or when specifically requested
+  Returns the index map for the database: one entry per index key column (\`indexName\`, \`columnName\`, \`seqInIndex\`, \`nonUnique\`, \`indexType\`) with \`isPrimary\`, \`isUnique\` and the backing \`constraintType\` (PRIMARY KEY, UNIQUE). Postgres entries also give expression keys (\`isExpression\`, the expression in \`columnName\`), \`descending\`, non-default \`opclass\`, \`includeColumns\`, the partial-index \`predicate\`, \`isValid\` and the full \`definition\`. Databricks has no indexes; its entries describe each Delta table's data layout instead: \`partition\`, liquid \`clustering\` and \`zorder\` columns, which filters should use to skip files, with the table's \`sizeInBytes\` and \`numFiles\`. Only use this tool after previous attempts fail, or when specifically requested
 `,
   {
     databaseConfig: z.object({
@@ -397,6 +414,7 @@ registerTool(
         serverSelectionTimeoutMS: process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS ? parseInt(process.env.MONGO_SERVER_SELECTION_TIMEOUT_MS, 10) : 5000,
         connectTimeoutMS: process.env.MONGO_CONNECT_TIMEOUT_MS ? parseInt(process.env.MONGO_CONNECT_TIMEOUT_MS, 10) : 10000,
       },
+      ssh: Connector.sshConfigFromEnv(),
     } : undefined;
     const { indexMap } = await Connector.initMetadata(cfg as ConnectorCfg);
     return {
@@ -408,4 +426,251 @@ registerTool(
       ],
     };
   }
-); 
\ No newline at end of file
+);
+
+registerTool(
+  dummyServer,
+  "get-view-definition",
+  `
+  Returns the SQL definition of a view or materialized view (for MongoDB, the source collection and aggregation pipeline). \`get-schema\` lists each table's kind; use this to see how a view derives its columns before querying it.
+`,
+  {
+    view: z.string(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ view, databaseConfig: databaseConfigRaw }) => {
+    return runViewDefinition(dbCfgFromEnv(databaseConfigRaw), view);
+  }
+);
+
+registerTool(
+  dummyServer,
+  "refresh-schema",
+  `
+  Reloads the schema, indexes, table sizes and relationships straight from the database, bypassing the on-disk schema cache, and stores the result in the cache. Metadata is normally served from that cache and refreshed automatically when a change is detected; use this after schema changes it may have missed (e.g. fields newly appearing in MongoDB documents) or when \`get-schema\` looks out of date.
+`,
+  {
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ databaseConfig: databaseConfigRaw }) => {
+    return runRefreshSchema(dbCfgFromEnv(databaseConfigRaw));
+  }
+);
+
+registerTool(
+  dummyServer,
+  "save-schema-snapshot",
+  `
+  Saves the current schema, indexes and relationships under \`name\` (letters, digits, '.', '_', '-'), overwriting a snapshot of that name. Save one before a migration, then use \`diff-schema\` to see what it changed.
+`,
+  {
+    name: z.string(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ name, databaseConfig: databaseConfigRaw }) => {
+    return runSaveSchemaSnapshot(dbCfgFromEnv(databaseConfigRaw), name);
+  }
+);
+
+registerTool(
+  dummyServer,
+  "diff-schema",
+  `
+  Reports what changed between the saved schema snapshot \`from\` and the snapshot \`to\` (or the live database when \`to\` is omitted): tables and columns added, removed or renamed, column type and nullability changes, index changes and foreign keys added or removed. Returned as markdown followed by the same diff as JSON.
+`,
+  {
+    from: z.string(),
+    to: z.string().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ from, to, databaseConfig: databaseConfigRaw }) => {
+    return runDiffSchema(dbCfgFromEnv(databaseConfigRaw), from, to);
+  }
+);
+
+registerTool(
+  dummyServer,
+  "get-relationships",
+  `
+  Returns the relationships between tables: declared foreign keys (MySQL, PostgreSQL, Databricks Unity Catalog) or, for MongoDB, references inferred from \`*_id\` / \`*Id\` field names (marked \`"source": "inferred"\`). Entries are keyed by the referencing table and list the column pairs to join on. Pass \`table\` to get only the relationships from or to that table.
+`,
+  {
+    table: z.string().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ table, databaseConfig: databaseConfigRaw }) => {
+    return runGetRelationships(dbCfgFromEnv(databaseConfigRaw), table);
+  }
+);
+
+registerTool(
+  dummyServer,
+  "run-sql",
+  `
+  Runs a single read-only SQL statement you have written yourself directly against the database, without the analysis orchestrator. Use it when you already know the exact query; use \`query-database\` for questions that need planning. Only SELECT-style statements are accepted, the statement is cancelled after the query timeout, and at most \`maxRows\` rows (never more than the server's row cap) are returned, as a markdown table followed by the same result as JSON. Positional \`params\` are bound to the statement's placeholders ($1, $2 … on Postgres, ? on MySQL).
+`,
+  {
+    sql: z.string(),
+    params: z.array(z.any()).optional(),
+    maxRows: z.number().int().positive().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ sql, params, maxRows, databaseConfig: databaseConfigRaw }, extra) => {
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
+    return await runDirectQuery("run-sql", cfg, sql, params, maxRows, extra?.signal);
+  }
+);
+
+registerTool(
+  dummyServer,
+  "run-mongo",
+  `
+  Runs a single read-only MongoDB query you have written yourself directly against the database, without the analysis orchestrator. \`operation\` is find (\`filter\`, \`sort\`, \`skip\`, \`limit\`), aggregate (\`pipeline\`), distinct (\`field\`, \`filter\`) or count (\`filter\`). Pipelines may not write ($out / $merge). The query is cancelled after the query timeout and at most \`maxRows\` documents (never more than the server's row cap) are returned, as a markdown table followed by the same result as JSON.
+`,
+  {
+    query: mongoQuerySchema,
+    maxRows: z.number().int().positive().optional(),
+    databaseConfig: z.object({
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+    }).optional(),
+  },
+  async ({ query, maxRows, databaseConfig: databaseConfigRaw }, extra) => {
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
+    return await runDirectQuery("run-mongo", cfg, query, [], maxRows, extra?.signal);
+  }
+);
+
+registerTool(
+  dummyServer,
+  "explain-query",
+  `
+  Shows how the database would execute a query, to find out why it is slow. Pass SQL as a string (Postgres, MySQL, Databricks) or a MongoDB query object. Returns the plan as a tree of operations (node type, estimated / actual rows, cost, index used) in markdown, with warnings for full scans of large tables that cross-reference the table's indexes, followed by the same plan as JSON. \`analyze: true\` executes the statement (read-only, under the query timeout) to report actual row counts on Postgres and MongoDB; it defaults to true for MongoDB.
+`,
+  {
+    query: z.union([z.string(), mongoQuerySchema]),
+    params: z.array(z.any()).optional(),
+    analyze: z.boolean().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ query, params, analyze, databaseConfig: databaseConfigRaw }, extra) => {
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
+    return await runExplainQuery(cfg, query, params, analyze, extra?.signal);
+  }
+);
+
+registerTool(
+  dummyServer,
+  "profile-table",
+  `
+  Profiles one table or collection by querying it: row count and, per column, the share of NULLs, the number of distinct values, min / max and the most common values with their frequency. Use it to learn what values a column really holds before filtering on it. Scans the table once or twice per column under the query timeout, so limit \`columns\` on large tables. Values are redacted by the masking policy. Returns a markdown table followed by the same profile as JSON.
+`,
+  {
+    table: z.string(),
+    columns: z.array(z.string()).optional(),
+    topValues: z.number().optional(),
+    databaseConfig: z.object({
+      databaseType: z.enum(["postgres", "mysql", "mongodb", "databricks"]).optional(),
+      host: z.string().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      database: z.string().optional(),
+      port: z.number().optional(),
+      disableSSL: z.enum(["true", "false"]).optional(),
+    }).optional(),
+  },
+  async ({ table, columns, topValues, databaseConfig: databaseConfigRaw }, extra) => {
+    const cfg = dbCfgFromEnv(databaseConfigRaw);
+    return await runProfileTable(cfg, table, columns, topValues, extra?.signal);
+  }
+);
+
+registerTool(
+  dummyServer,
+  "search-audit-log",
+  `
+  Searches the local audit log of statements executed for the orchestrator, newest first. Filter by time range (ISO 8601 \`from\` / \`to\`), by a table or collection the statement referenced, by text in the prompt, statement or error, or set \`slow: true\` for slow queries only (recorded with their execution plan).
+`,
+  {
+    from: z.string().optional(),
+    to: z.string().optional(),
+    table: z.string().optional(),
+    text: z.string().optional(),
+    slow: z.boolean().optional(),
+    limit: z.number().optional(),
+  },
+  async ({ from, to, table, text, slow, limit }) => {
+    const auditLog = getAuditLog();
+    if (!auditLog) {
+      return { content: [{ type: "text", text: "Audit logging is disabled (AUDIT_LOG_DISABLED=true)" }] };
+    }
+    const entries = await auditLog.search({ from, to, table, text, slow, limit });
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(entries, null, 2)
+        },
+      ],
+    };
+  }
+);
@@ -0,0 +1,60 @@
+/**
+ * Result Formatting
+ * Renders a connector QueryResult for MCP tool responses: a markdown table for
+ * the model to read, and the same result as JSON for programmatic use.
+ */
+
+import { jsonReplacer, QueryResult } from "./connector";
+
+function formatCell(value: any): string {
+  if (value === undefined) return "";
+  if (value === null) return "NULL";
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `<binary ${value.length} bytes>`;
+  const text = typeof value === "object" ? JSON.stringify(value, jsonReplacer) : String(value);
+  // Keep each row on one line of the table
+  return text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+export function resultToMarkdown(result: QueryResult): string {
+  const names = result.columns.map((column) => column.name);
+  const lines: string[] = [];
+
+  if (names.length > 0) {
+    lines.push(`| ${names.map(formatCell).join(" | ")} |`);
+    lines.push(`| ${names.map(() => "---").join(" | ")} |`);
+    for (const row of result.rows) {
+      // distinct() returns bare values, reported as a single `value` column
+      const cells = row && typeof row === "object" && !Array.isArray(row)
+        ? names.map((name) => formatCell(row[name]))
+        : [formatCell(row)];
+      lines.push(`| ${cells.join(" | ")} |`);
+    }
+  }
+
+  const notes: string[] = [];
+  if (result.truncated) {
+    const total = result.totalRowsEstimate !== null ? `~${result.totalRowsEstimate}` : "an unknown number of";
+    const limit = result.truncatedBy === "bytes" ? "QUERY_MAX_BYTES" : "the row cap";
+    notes.push(`Showing ${result.rowCount} of ${total} rows (truncated by ${limit}).`);
+  } else {
+    notes.push(`${result.rowCount} row${result.rowCount === 1 ? "" : "s"}.`);
+  }
+  if (result.suppressedGroups) {
+    notes.push(`${result.suppressedGroups} group(s) below the minimum group size were suppressed.`);
+  }
+  const masked = result.columns.filter((column) => column.masking).map((column) => `${column.name} (${column.masking})`);
+  if (masked.length > 0) {
+    notes.push(`Masked columns: ${masked.join(", ")}.`);
+  }
+
+  return [...lines, "", `> ${notes.join(" ")}`].join("\n").trim();
+}
+
+/** Tool response content: the markdown table followed by the JSON result. */
+export function resultContent(result: QueryResult) {
+  return [
+    { type: "text" as const, text: resultToMarkdown(result) },
+    { type: "text" as const, text: JSON.stringify(result, jsonReplacer, 2) },
+  ];
+}
@@ -0,0 +1,383 @@
+/**
+ * Schema Export
+ * Renders the schema, index and relationship maps as CREATE TABLE DDL for the
+ * source dialect, DBML, a Mermaid erDiagram or per-table JSON Schema, for
+ * pasting into docs and other tools (get-schema's `format` argument).
+ */
+
+import type { Relationship, SchemaCatalog } from "./connector";
+
+export type SchemaFormat = "json" | "ddl" | "dbml" | "mermaid" | "json-schema";
+
+type ExportMaps = Pick<SchemaCatalog, "schemaMap"> & Partial<Pick<SchemaCatalog, "indexMap" | "relationshipMap" | "tableInfoMap">>;
+
+interface IndexDefinition {
+  name: string;
+  columns: string[];       // key columns, or the expression text of expression keys
+  unique: boolean;
+  primary?: boolean;       // when the loader says (isPrimary); otherwise judged by name
+  expressions?: string[];  // entries of `columns` that are expressions
+  definition?: string;     // complete CREATE INDEX statement (Postgres)
+}
+
+/**
+ * Column type with the length / precision the loaders report separately
+ * (charMaxLength etc. on MySQL, maxLength etc. on Postgres).
+ */
+export function columnType(column: any): string {
+  const type = String(column.dataType ?? "unknown");
+  const length = column.charMaxLength ?? column.maxLength;
+  const precision = column.numericPrecision ?? column.precision;
+  if (length && /char|binary/i.test(type) && !type.includes("(")) return `${type}(${length})`;
+  if (precision != null && /^(decimal|numeric)$/i.test(type)) return `${type}(${precision},${column.numericScale ?? column.scale ?? 0})`;
+  return type;
+}
+
+/** Whether the column accepts NULL; undefined when the loader doesn't say. */
+export function columnNullable(column: any): boolean | undefined {
+  if (typeof column.nullable === "boolean") return column.nullable;
+  if (typeof column.isNullable === "string") return column.isNullable === "YES";
+  return undefined;
+}
+
+/**
+ * Index map entries grouped into indexes. SQL engines list one entry per
+ * indexed column, MongoDB one per index with its `fields`.
+ */
+export function groupIndexes(entries: any[] = []): IndexDefinition[] {
+  const indexes = new Map<string, IndexDefinition>();
+  for (const entry of [...entries].sort((a, b) => (a.seqInIndex ?? 0) - (b.seqInIndex ?? 0))) {
+    const name = String(entry.indexName);
+    if (Array.isArray(entry.fields)) {
+      indexes.set(name, { name, columns: entry.fields, unique: Boolean(entry.unique) });
+      continue;
+    }
+    const index: IndexDefinition = indexes.get(name) ?? {
+      name,
+      columns: [],
+      unique: entry.nonUnique === 0 || entry.nonUnique === "0",
+      ...(typeof entry.isPrimary === "boolean" ? { primary: entry.isPrimary } : {}),
+      ...(entry.definition ? { definition: entry.definition } : {}),
+    };
+    if (entry.columnName) index.columns.push(entry.columnName);
+    if (entry.columnName && entry.isExpression) (index.expressions ??= []).push(entry.columnName);
+    indexes.set(name, index);
+  }
+  return Array.from(indexes.values());
+}
+
+const isPrimaryIndex = (index: IndexDefinition) =>
+  index.primary ?? (index.name === "PRIMARY" || index.name.endsWith("_pkey") || index.name === "_id_");
+
+function primaryKey(columns: any[], indexes: IndexDefinition[]): string[] {
+  const primary = indexes.find(isPrimaryIndex);
+  if (primary) return primary.columns;
+  return columns.filter((column) => column.key === "PRI").map((column) => column.columnName); // MySQL COLUMN_KEY
+}
+
+/** Columns once each: sampled MongoDB paths repeat per array position (items[0].sku, items[1].sku). */
+function distinctColumns(columns: any[] = []): any[] {
+  const seen = new Map<string, any>();
+  for (const column of columns) {
+    const name = String(column.columnName).replace(/\[\d+\]/g, "[]");
+    if (!seen.has(name)) seen.set(name, { ...column, columnName: name });
+  }
+  return Array.from(seen.values());
+}
+
+const isView = (maps: ExportMaps, table: string) =>
+  ["view", "materialized_view"].includes(maps.tableInfoMap?.[table]?.kind ?? "");
+
+const foreignKeys = (maps: ExportMaps): Relationship[] => Object.values(maps.relationshipMap ?? {}).flat();
+
+/* ── DDL ────────────────────────────────────────────────────────────── */
+
+const sqlString = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+function toDdl(maps: ExportMaps, databaseType: string): string {
+  if (databaseType === "mongodb") {
+    throw new Error("DDL export is not available for MongoDB collections; use the json-schema format");
+  }
+  const quote = databaseType === "postgres"
+    ? (name: string) => `"${name.replace(/"/g, '""')}"`
+    : (name: string) => `\`${name.replace(/`/g, "``")}\``;
+  const qualified = (name: string) => name.split(".").map(quote).join(".");
+  const inlineComments = databaseType !== "postgres";
+
+  const columnDefault = (column: any): string => {
+    if (databaseType === "mysql") {
+      if (column.default === null || column.default === undefined) return "";
+      if (/DEFAULT_GENERATED/i.test(column.extra ?? "")) return ` DEFAULT (${column.default})`;
+      return ` DEFAULT ${/^-?\d+(\.\d+)?$/.test(String(column.default)) ? column.default : sqlString(String(column.default))}`;
+    }
+    // Postgres and Databricks report the default as an expression
+    return column.defaultValue ? ` DEFAULT ${column.defaultValue}` : "";
+  };
+
+  const statements: string[] = [];
+  for (const [table, columns] of Object.entries(maps.schemaMap)) {
+    const info = maps.tableInfoMap?.[table];
+    if (isView(maps, table)) {
+      statements.push(`-- ${table} is a ${info!.kind.replace("_", " ")}; see get-view-definition`);
+      continue;
+    }
+    const indexes = groupIndexes(maps.indexMap?.[table]);
+    const lines = columns.map((column: any) => [
+      `  ${quote(column.columnName)} ${databaseType === "mysql" && column.enumSource === "type" ? `enum(${column.enumValues.map(sqlString).join(", ")})` : columnType(column)}`,
+      columnNullable(column) === false ? " NOT NULL" : "",
+      columnDefault(column),
+      /auto_increment/i.test(column.extra ?? "") ? " AUTO_INCREMENT" : "",
+      inlineComments && column.description ? ` COMMENT ${sqlString(column.description)}` : "",
+    ].join(""));
+    const key = primaryKey(columns, indexes);
+    if (key.length) lines.push(`  PRIMARY KEY (${key.map(quote).join(", ")})`);
+
+    let statement = `CREATE TABLE ${qualified(table)} (\n${lines.join(",\n")}\n)`;
+    if (info?.description && databaseType === "mysql") statement += ` COMMENT=${sqlString(info.description)}`;
+    if (databaseType === "databricks") {
+      // The index map holds the Delta data layout; Z-order is applied by OPTIMIZE, not declared
+      const layout = (kind: string) => indexes.find((index) => index.name === kind)?.columns ?? [];
+      if (layout("partition").length) statement += `\nPARTITIONED BY (${layout("partition").map(quote).join(", ")})`;
+      if (layout("clustering").length) statement += `\nCLUSTER BY (${layout("clustering").map(quote).join(", ")})`;
+      if (info?.description) statement += `\nCOMMENT ${sqlString(info.description)}`;
+    }
+    statements.push(`${statement};`);
+
+    if (!inlineComments) {
+      const comments = [
+        ...(info?.description ? [`COMMENT ON TABLE ${qualified(table)} IS ${sqlString(info.description)};`] : []),
+        ...columns.filter((column: any) => column.description)
+          .map((column: any) => `COMMENT ON COLUMN ${qualified(table)}.${quote(column.columnName)} IS ${sqlString(column.description)};`),
+      ];
+      if (comments.length) statements.push(comments.join("\n"));
+    }
+    // Databricks tables have no indexes (their layout is part of CREATE TABLE above)
+    const secondary = indexes.filter((index) => !isPrimaryIndex(index) && index.columns.length);
+    if (secondary.length && databaseType !== "databricks") {
+      statements.push(secondary
+        // Postgres reports the whole statement, with expressions, INCLUDE and WHERE
+        .map((index) => index.definition
+          ? `${index.definition};`
+          : `CREATE ${index.unique ? "UNIQUE " : ""}INDEX ${quote(index.name)} ON ${qualified(table)} (${index.columns.map((column) => (index.expressions?.includes(column) ? `(${column})` : quote(column))).join(", ")});`)
+        .join("\n"));
+    }
+  }
+
+  for (const relationship of foreignKeys(maps).filter((r) => r.source === "foreign_key")) {
+    statements.push(
+      `ALTER TABLE ${qualified(relationship.fromTable)} ADD ${relationship.constraintName ? `CONSTRAINT ${quote(relationship.constraintName)} ` : ""}` +
+      `FOREIGN KEY (${relationship.fromColumns.map(quote).join(", ")}) REFERENCES ${qualified(relationship.toTable)} (${relationship.toColumns.map(quote).join(", ")});`
+    );
+  }
+  return statements.join("\n\n");
+}
+
+/* ── DBML ───────────────────────────────────────────────────────────── */
+
+const dbmlString = (value: string) => `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+const dbmlName = (name: string) => (/^\w+$/.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`);
+// DBML knows schema.table only: catalog.schema.table becomes "catalog.schema".table
+function dbmlTable(table: string): string {
+  const parts = table.split(".");
+  return parts.length === 1 ? dbmlName(table) : `${dbmlName(parts.slice(0, -1).join("."))}.${dbmlName(parts[parts.length - 1])}`;
+}
+
+function dbmlDefault(column: any): string | undefined {
+  // Postgres and Databricks report an expression, MySQL the value itself
+  if (column.defaultValue) return `default: \`${column.defaultValue}\``;
+  if (column.default === null || column.default === undefined) return undefined;
+  if (/DEFAULT_GENERATED/i.test(column.extra ?? "")) return `default: \`${column.default}\``;
+  return `default: ${/^-?\d+(\.\d+)?$/.test(String(column.default)) ? column.default : dbmlString(String(column.default))}`;
+}
+
+function toDbml(maps: ExportMaps): string {
+  const blocks: string[] = [];
+  for (const [table, rawColumns] of Object.entries(maps.schemaMap)) {
+    const columns = distinctColumns(rawColumns);
+    const indexes = groupIndexes(maps.indexMap?.[table]);
+    const key = primaryKey(columns, indexes);
+    const lines = [`Table ${dbmlTable(table)} {`];
+    for (const column of columns) {
+      const type = columnType(column);
+      const settings = [
+        key.length === 1 && key[0] === column.columnName ? "pk" : undefined,
+        columnNullable(column) === false ? "not null" : undefined,
+        dbmlDefault(column),
+        column.description ? `note: ${dbmlString(column.description)}` : undefined,
+      ].filter(Boolean);
+      lines.push(`  ${dbmlName(column.columnName)} ${/^[\w]+(\([\d, ]+\))?$/.test(type) ? type : `"${type}"`}${settings.length ? ` [${settings.join(", ")}]` : ""}`);
+    }
+
+    const indexLines = [
+      ...(key.length > 1 ? [`    (${key.map(dbmlName).join(", ")}) [pk]`] : []),
+      ...indexes.filter((index) => !isPrimaryIndex(index) && index.columns.length).map((index) => {
+        // DBML writes expressions in backticks
+        const names = index.columns.map((column) => (index.expressions?.includes(column) ? `\`${column}\`` : dbmlName(column)));
+        const columnList = names.length === 1 ? names[0] : `(${names.join(", ")})`;
+        return `    ${columnList} [${index.unique ? "unique, " : ""}name: ${dbmlString(index.name)}]`;
+      }),
+    ];
+    if (indexLines.length) lines.push("", "  indexes {", ...indexLines, "  }");
+
+    const info = maps.tableInfoMap?.[table];
+    const note = [
+      info && !["table", "collection"].includes(info.kind) ? info.kind.replace("_", " ") : undefined,
+      info?.description,
+    ].filter(Boolean).join(": ");
+    if (note) lines.push("", `  Note: ${dbmlString(note)}`);
+    lines.push("}");
+    blocks.push(lines.join("\n"));
+  }
+
+  const side = (table: string, columns: string[]) =>
+    columns.length === 1 ? `${dbmlTable(table)}.${dbmlName(columns[0])}` : `${dbmlTable(table)}.(${columns.map(dbmlName).join(", ")})`;
+  for (const relationship of foreignKeys(maps)) {
+    blocks.push([
+      ...(relationship.source === "inferred" ? ["// inferred from the field name"] : []),
+      `Ref${relationship.constraintName ? ` ${dbmlName(relationship.constraintName)}` : ""}: ${side(relationship.fromTable, relationship.fromColumns)} > ${side(relationship.toTable, relationship.toColumns)}`,
+    ].join("\n"));
+  }
+  return blocks.join("\n\n");
+}
+
+/* ── Mermaid ────────────────────────────────────────────────────────── */
+
+const mermaidName = (name: string) => name.replace(/[^A-Za-z0-9_-]+/g, "_");
+const mermaidType = (type: string) => type.replace(/\(.*$/, "").replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "") || "unknown";
+
+function toMermaid(maps: ExportMaps): string {
+  const relationships = foreignKeys(maps);
+  const lines = ["erDiagram"];
+  for (const [table, rawColumns] of Object.entries(maps.schemaMap)) {
+    const columns = distinctColumns(rawColumns);
+    if (!columns.length) {
+      lines.push(`  ${mermaidName(table)}`);
+      continue;
+    }
+    const indexes = groupIndexes(maps.indexMap?.[table]);
+    const key = new Set(primaryKey(columns, indexes));
+    const unique = new Set(indexes.filter((index) => index.unique && !isPrimaryIndex(index) && index.columns.length === 1 && !index.expressions).map((index) => index.columns[0]));
+    const referencing = new Set(relationships.filter((r) => r.fromTable === table).flatMap((r) => r.fromColumns));
+
+    lines.push(`  ${mermaidName(table)} {`);
+    for (const column of columns) {
+      const keys = [
+        key.has(column.columnName) ? "PK" : undefined,
+        referencing.has(column.columnName) ? "FK" : undefined,
+        unique.has(column.columnName) ? "UK" : undefined,
+      ].filter(Boolean);
+      lines.push(`    ${mermaidType(columnType(column))} ${mermaidName(column.columnName)}${keys.length ? ` ${keys.join(", ")}` : ""}${column.description ? ` "${String(column.description).replace(/"/g, "'")}"` : ""}`);
+    }
+    lines.push("  }");
+  }
+  for (const relationship of relationships) {
+    lines.push(`  ${mermaidName(relationship.toTable)} ||--o{ ${mermaidName(relationship.fromTable)} : "${relationship.fromColumns.join(", ")}"`);
+  }
+  return lines.join("\n");
+}
+
+/* ── JSON Schema ────────────────────────────────────────────────────── */
+
+function jsonSchemaType(sqlType: string): { type: string; format?: string } {
+  const type = sqlType.toLowerCase().replace(/\(.*$/, "").trim();
+  if (type.endsWith("[]") || /^(array|_)/.test(type)) return { type: "array" };
+  if (/^(tiny|small|medium|big)?int(eger)?\b|^(small|big)?serial$|^(long|short|byte)$/.test(type)) return { type: "integer" };
+  if (/^(decimal|numeric|float|double|real|money|number)/.test(type)) return { type: "number" };
+  if (/^(bool|boolean|bit)$/.test(type)) return { type: "boolean" };
+  if (/^(json|jsonb|struct|map|object)/.test(type)) return { type: "object" };
+  if (type === "date") return { type: "string", format: "date" };
+  if (/^(timestamp|datetime)/.test(type)) return { type: "string", format: "date-time" };
+  if (/^time/.test(type)) return { type: "string", format: "time" };
+  return { type: "string" };
+}
+
+function sqlTableSchema(columns: any[]): Record<string, any> {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+  for (const column of columns) {
+    const { type, format } = jsonSchemaType(columnType(column));
+    const nullable = columnNullable(column);
+    const length = column.charMaxLength ?? column.maxLength;
+    properties[column.columnName] = {
+      type: nullable === false ? type : [type, "null"],
+      ...(format ? { format } : {}),
+      ...(length && /char/i.test(String(column.dataType)) ? { maxLength: Number(length) } : {}),
+      ...(column.description ? { description: column.description } : {}),
+    };
+    if (nullable === false) required.push(column.columnName);
+  }
+  return { type: "object", properties, ...(required.length ? { required } : {}) };
+}
+
+// Sampled JS types (inferFieldsFromDocuments) → JSON Schema types
+function sampledTypes(types: string[]): string | string[] | undefined {
+  const mapped = Array.from(new Set(types
+    .filter((type) => !type.startsWith("array<"))
+    .map((type) => (type === "bigint" ? "integer" : type))
+    .filter((type) => ["string", "number", "integer", "boolean", "object", "array", "null"].includes(type))));
+  return mapped.length === 0 ? undefined : mapped.length === 1 ? mapped[0] : mapped;
+}
+
+/**
+ * Nest sampled MongoDB field paths (address.city, items[0].sku) into object
+ * and array schemas. Fields are not marked required: documents missing a field
+ * aren't counted by the sampler.
+ */
+function documentSchema(columns: any[]): Record<string, any> {
+  const root: Record<string, any> = { type: "object", properties: {} };
+  for (const column of [...columns].sort((a, b) => String(a.columnName).localeCompare(String(b.columnName)))) {
+    const segments = String(column.columnName).split(".");
+    let node = root;
+    segments.forEach((segment, i) => {
+      const [, name, positions] = segment.match(/^(.*?)((?:\[\d+\])*)$/)!;
+      let target = (node.properties[name] ??= {});
+      for (let depth = positions.split("[").length - 1; depth > 0; depth--) {
+        target.type ??= "array";
+        target = (target.items ??= {});
+      }
+      if (i < segments.length - 1) {
+        target.type ??= "object";
+        target.properties ??= {};
+        node = target;
+        return;
+      }
+      const type = sampledTypes(column.allTypes ?? [column.dataType]);
+      if (type) target.type = type;
+      const elementTypes = (column.allTypes ?? []).filter((t: string) => t.startsWith("array<")).map((t: string) => t.slice("array<".length, -1));
+      if (elementTypes.length) {
+        target.items ??= {};
+        target.items.type ??= sampledTypes(elementTypes);
+      }
+      if (column.description) target.description = column.description;
+    });
+  }
+  return root;
+}
+
+function toJsonSchema(maps: ExportMaps, databaseType: string): Record<string, any> {
+  const schemas: Record<string, any> = {};
+  for (const [table, columns] of Object.entries(maps.schemaMap)) {
+    const description = maps.tableInfoMap?.[table]?.description;
+    schemas[table] = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      title: table,
+      ...(description ? { description } : {}),
+      ...(databaseType === "mongodb" ? documentSchema(columns) : sqlTableSchema(columns)),
+    };
+  }
+  return schemas;
+}
+
+/**
+ * `maps` rendered in `format`, as a fenced markdown block (plain JSON for
+ * "json"). Throws for DDL of MongoDB collections.
+ */
+export function formatSchema(format: SchemaFormat, maps: ExportMaps, databaseType = "mysql"): string {
+  switch (format) {
+    case "json": return JSON.stringify(maps.schemaMap, null, 2);
+    case "ddl": return `\`\`\`sql\n${toDdl(maps, databaseType)}\n\`\`\``;
+    case "dbml": return `\`\`\`dbml\n${toDbml(maps)}\n\`\`\``;
+    case "mermaid": return `\`\`\`mermaid\n${toMermaid(maps)}\n\`\`\``;
+    case "json-schema": return `\`\`\`json\n${JSON.stringify(toJsonSchema(maps, databaseType), null, 2)}\n\`\`\``;
+  }
+}
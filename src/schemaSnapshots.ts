@@ -0,0 +1,282 @@
+/**
+ * Schema Snapshots
+ * Named copies of the schema, index and relationship maps kept on disk, and the
+ * differences between two of them (or one and the live database), so the agent
+ * can be told what a migration changed.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Relationship, SchemaCatalog } from "./connector";
+import { columnNullable, columnType, groupIndexes } from "./schemaExport";
+
+export interface SchemaSnapshot {
+  name: string;
+  createdAt: string;
+  databaseType?: string;
+  database?: string;
+  schemaMap: SchemaCatalog["schemaMap"];
+  indexMap: SchemaCatalog["indexMap"];
+  relationshipMap: SchemaCatalog["relationshipMap"];
+}
+
+export interface ColumnChange {
+  column: string;
+  change: "added" | "removed" | "renamed" | "type" | "nullability";
+  from?: string; // previous name, type or nullability
+  to?: string;
+}
+
+export interface IndexChange {
+  index: string;
+  change: "added" | "removed" | "renamed" | "changed";
+  from?: string; // previous name or definition
+  to?: string;
+}
+
+export interface TableDiff {
+  table: string;
+  columns: ColumnChange[];
+  indexes: IndexChange[];
+}
+
+export interface SchemaDiff {
+  from: string;
+  to: string;
+  addedTables: string[];
+  removedTables: string[];
+  renamedTables: Array<{ from: string; to: string }>;
+  changedTables: TableDiff[];
+  addedRelationships: Relationship[];
+  removedRelationships: Relationship[];
+}
+
+type SnapshotMaps = Pick<SchemaSnapshot, "schemaMap" | "indexMap" | "relationshipMap">;
+
+function snapshotDir(): string {
+  return process.env.SCHEMA_SNAPSHOT_DIR || path.join(os.homedir(), ".celp-mcp", "snapshots");
+}
+
+function snapshotFile(name: string): string {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid snapshot name: ${name}. Use letters, digits, '.', '_' and '-'`);
+  }
+  return path.join(snapshotDir(), `${name}.json`);
+}
+
+/** Save (or overwrite) the snapshot `name` of `maps`. */
+export async function saveSnapshot(name: string, maps: SnapshotMaps, source: { databaseType?: string; database?: string } = {}): Promise<SchemaSnapshot> {
+  const snapshot: SchemaSnapshot = {
+    name,
+    createdAt: new Date().toISOString(),
+    ...source,
+    schemaMap: maps.schemaMap,
+    indexMap: maps.indexMap,
+    relationshipMap: maps.relationshipMap,
+  };
+  const file = snapshotFile(name);
+  await fs.promises.mkdir(snapshotDir(), { recursive: true, mode: 0o700 });
+  // Sampled MongoDB values are part of the schema map – keep the file private to the user
+  await fs.promises.writeFile(file, JSON.stringify(snapshot, null, 2), { mode: 0o600 });
+  return snapshot;
+}
+
+export async function listSnapshots(): Promise<string[]> {
+  const files = await fs.promises.readdir(snapshotDir()).catch(() => [] as string[]);
+  return files.filter((file) => file.endsWith(".json")).map((file) => file.slice(0, -".json".length)).sort();
+}
+
+export async function loadSnapshot(name: string): Promise<SchemaSnapshot> {
+  const file = snapshotFile(name);
+  let text: string;
+  try {
+    text = await fs.promises.readFile(file, "utf8");
+  } catch (error) {
+    if ((error as any).code !== "ENOENT") throw error;
+    const saved = await listSnapshots();
+    throw new Error(`Unknown snapshot: ${name}. ${saved.length ? `Saved snapshots: ${saved.join(", ")}` : "No snapshots have been saved yet"}`);
+  }
+  return JSON.parse(text);
+}
+
+function columnNullability(column: any): string | undefined {
+  const nullable = columnNullable(column);
+  return nullable === undefined ? undefined : nullable ? "nullable" : "not null";
+}
+
+/** Index name → definition, e.g. "(customer_id, created_at) unique". */
+function indexDefinitions(entries: any[] = []): Map<string, string> {
+  return new Map(groupIndexes(entries).map((index) => [index.name, `(${index.columns.join(", ")})${index.unique ? " unique" : ""}`]));
+}
+
+/**
+ * Pair up removed and added items that are the only match for each other under
+ * `same`: a rename rather than a drop and an add.
+ */
+function matchRenames<T>(removed: T[], added: T[], same: (a: T, b: T) => boolean): Array<[T, T]> {
+  const pairs: Array<[T, T]> = [];
+  for (const oldItem of removed) {
+    const candidates = added.filter((newItem) => same(oldItem, newItem));
+    if (candidates.length === 1 && removed.filter((other) => same(other, candidates[0])).length === 1) {
+      pairs.push([oldItem, candidates[0]]);
+    }
+  }
+  return pairs;
+}
+
+function diffColumns(before: any[] = [], after: any[] = []): ColumnChange[] {
+  const changes: ColumnChange[] = [];
+  const beforeByName = new Map(before.map((column) => [column.columnName, column]));
+  const afterByName = new Map(after.map((column) => [column.columnName, column]));
+  const removed = before.filter((column) => !afterByName.has(column.columnName));
+  const added = after.filter((column) => !beforeByName.has(column.columnName));
+
+  const renames = matchRenames(removed, added, (a, b) => columnType(a) === columnType(b) && columnNullability(a) === columnNullability(b));
+  for (const [oldColumn, newColumn] of renames) {
+    changes.push({ column: newColumn.columnName, change: "renamed", from: oldColumn.columnName, to: newColumn.columnName });
+  }
+  const renamed = new Set(renames.flat());
+  for (const column of added.filter((column) => !renamed.has(column))) {
+    changes.push({ column: column.columnName, change: "added", to: columnType(column) });
+  }
+  for (const column of removed.filter((column) => !renamed.has(column))) {
+    changes.push({ column: column.columnName, change: "removed", from: columnType(column) });
+  }
+
+  for (const column of after) {
+    const previous = beforeByName.get(column.columnName);
+    if (!previous) continue;
+    if (columnType(previous) !== columnType(column)) {
+      changes.push({ column: column.columnName, change: "type", from: columnType(previous), to: columnType(column) });
+    }
+    const [wasNullable, isNullable] = [columnNullability(previous), columnNullability(column)];
+    if (wasNullable !== undefined && isNullable !== undefined && wasNullable !== isNullable) {
+      changes.push({ column: column.columnName, change: "nullability", from: wasNullable, to: isNullable });
+    }
+  }
+  return changes;
+}
+
+function diffIndexes(before: any[] = [], after: any[] = []): IndexChange[] {
+  const changes: IndexChange[] = [];
+  const beforeIndexes = indexDefinitions(before);
+  const afterIndexes = indexDefinitions(after);
+  const removed = Array.from(beforeIndexes.keys()).filter((name) => !afterIndexes.has(name));
+  const added = Array.from(afterIndexes.keys()).filter((name) => !beforeIndexes.has(name));
+
+  const renames = matchRenames(removed, added, (a, b) => beforeIndexes.get(a) === afterIndexes.get(b));
+  for (const [oldName, newName] of renames) {
+    changes.push({ index: newName, change: "renamed", from: oldName, to: newName });
+  }
+  const renamed = new Set(renames.flat());
+  for (const name of added.filter((name) => !renamed.has(name))) {
+    changes.push({ index: name, change: "added", to: afterIndexes.get(name) });
+  }
+  for (const name of removed.filter((name) => !renamed.has(name))) {
+    changes.push({ index: name, change: "removed", from: beforeIndexes.get(name) });
+  }
+  for (const [name, definition] of afterIndexes) {
+    const previous = beforeIndexes.get(name);
+    if (previous !== undefined && previous !== definition) {
+      changes.push({ index: name, change: "changed", from: previous, to: definition });
+    }
+  }
+  return changes;
+}
+
+const relationshipKey = (relationship: Relationship) =>
+  `${relationship.fromTable}(${relationship.fromColumns.join(",")})->${relationship.toTable}(${relationship.toColumns.join(",")})`;
+
+/** What changed from `before` to `after`, named `from` / `to` in the result. */
+export function diffSchemas(before: SnapshotMaps, after: SnapshotMaps, from: string, to: string): SchemaDiff {
+  const beforeTables = Object.keys(before.schemaMap);
+  const afterTables = Object.keys(after.schemaMap);
+  const removed = beforeTables.filter((table) => !(table in after.schemaMap));
+  const added = afterTables.filter((table) => !(table in before.schemaMap));
+
+  // A table whose columns are all unchanged under a new name was renamed
+  const columnSignature = (schemaMap: SnapshotMaps["schemaMap"], table: string) =>
+    schemaMap[table].map((column) => `${column.columnName}:${columnType(column)}`).sort().join("|");
+  const renames = matchRenames(removed, added, (a, b) =>
+    before.schemaMap[a].length > 0 && columnSignature(before.schemaMap, a) === columnSignature(after.schemaMap, b));
+  const renamed = new Set(renames.flat());
+
+  const changedTables: TableDiff[] = [];
+  const pairs: Array<[string, string]> = [
+    ...afterTables.filter((table) => table in before.schemaMap).map((table): [string, string] => [table, table]),
+    ...renames,
+  ];
+  for (const [oldName, newName] of pairs) {
+    const columns = diffColumns(before.schemaMap[oldName], after.schemaMap[newName]);
+    const indexes = diffIndexes(before.indexMap[oldName], after.indexMap[newName]);
+    if (columns.length || indexes.length) {
+      changedTables.push({ table: newName, columns, indexes });
+    }
+  }
+
+  const beforeRelationships = new Map(Object.values(before.relationshipMap ?? {}).flat().map((r) => [relationshipKey(r), r]));
+  const afterRelationships = new Map(Object.values(after.relationshipMap ?? {}).flat().map((r) => [relationshipKey(r), r]));
+
+  return {
+    from,
+    to,
+    addedTables: added.filter((table) => !renamed.has(table)),
+    removedTables: removed.filter((table) => !renamed.has(table)),
+    renamedTables: renames.map(([oldName, newName]) => ({ from: oldName, to: newName })),
+    changedTables,
+    addedRelationships: Array.from(afterRelationships).filter(([key]) => !beforeRelationships.has(key)).map(([, r]) => r),
+    removedRelationships: Array.from(beforeRelationships).filter(([key]) => !afterRelationships.has(key)).map(([, r]) => r),
+  };
+}
+
+function describeColumnChange(change: ColumnChange): string {
+  switch (change.change) {
+    case "added": return `column \`${change.column}\` added (${change.to})`;
+    case "removed": return `column \`${change.column}\` removed (was ${change.from})`;
+    case "renamed": return `column \`${change.from}\` renamed to \`${change.to}\``;
+    case "type": return `column \`${change.column}\` type changed from ${change.from} to ${change.to}`;
+    case "nullability": return `column \`${change.column}\` changed from ${change.from} to ${change.to}`;
+  }
+}
+
+function describeIndexChange(change: IndexChange): string {
+  switch (change.change) {
+    case "added": return `index \`${change.index}\` added ${change.to}`;
+    case "removed": return `index \`${change.index}\` removed (was ${change.from})`;
+    case "renamed": return `index \`${change.from}\` renamed to \`${change.to}\``;
+    case "changed": return `index \`${change.index}\` changed from ${change.from} to ${change.to}`;
+  }
+}
+
+export function schemaDiffToMarkdown(diff: SchemaDiff): string {
+  const lines = [`### Schema changes from \`${diff.from}\` to \`${diff.to}\``, ""];
+  const list = (label: string, tables: string[]) => {
+    if (tables.length) lines.push(`**${label}:** ${tables.map((table) => `\`${table}\``).join(", ")}`, "");
+  };
+  list("Tables added", diff.addedTables);
+  list("Tables removed", diff.removedTables);
+  if (diff.renamedTables.length) {
+    lines.push(`**Tables renamed:** ${diff.renamedTables.map(({ from, to }) => `\`${from}\` → \`${to}\``).join(", ")}`, "");
+  }
+
+  for (const table of diff.changedTables) {
+    lines.push(`#### \`${table.table}\``, "");
+    lines.push(...table.columns.map((change) => `- ${describeColumnChange(change)}`));
+    lines.push(...table.indexes.map((change) => `- ${describeIndexChange(change)}`));
+    lines.push("");
+  }
+
+  const relationship = (r: Relationship) => `\`${r.fromTable}(${r.fromColumns.join(", ")})\` → \`${r.toTable}(${r.toColumns.join(", ")})\``;
+  if (diff.addedRelationships.length || diff.removedRelationships.length) {
+    lines.push("#### Relationships", "");
+    lines.push(...diff.addedRelationships.map((r) => `- added ${relationship(r)}`));
+    lines.push(...diff.removedRelationships.map((r) => `- removed ${relationship(r)}`));
+    lines.push("");
+  }
+
+  if (lines.length === 2) {
+    lines.push("No differences.");
+  }
+  return lines.join("\n").trimEnd();
+}
@@ -6,18 +6,18 @@ interface RegisteredTool {
   name: string;
   description: string;
   schema: z.ZodRawShape;
-  handler: (args: any) => Promise<any>;
+  handler: (args: any, extra?: any) => Promise<any>;
 }
 
 const registry: RegisteredTool[] = [];
-export const functionHandlers: Record<string, (args: any) => Promise<any>> = {};
+export const functionHandlers: Record<string, (args: any, extra?: any) => Promise<any>> = {};
 
 export function registerTool(
   server: McpServer,
   name: string,
   description: string,
   schema: z.ZodRawShape,
-  handler: (args: any) => Promise<any>
+  handler: (args: any, extra?: any) => Promise<any>
 ) {
   // Register with MCP server as usual
   server.tool(name, description, schema, handler);
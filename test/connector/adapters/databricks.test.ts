@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatabricksConnectionManager } from '../../../src/connector/adapters/databricks';
+import type { ConnectorCfg } from '../../../src/connector';
+
+const cfg: ConnectorCfg = { databaseType: 'databricks', host: 'adb.example.net', user: 'token', password: 'dapi', database: 'main' };
+
+describe('DatabricksConnectionManager idle sweep', () => {
+  let manager: DatabricksConnectionManager;
+  let connection: { close: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    manager = new DatabricksConnectionManager();
+    connection = { close: vi.fn(async () => undefined) };
+    // Stand in for a connected warehouse session
+    (manager as any).connections.set(`${cfg.host}:443:${cfg.user}:${cfg.database}`, {
+      client: {}, connection, isConnected: true, lastUsed: Date.now(), running: 0, config: cfg,
+    });
+  });
+
+  afterEach(async () => {
+    await manager.closeAll();
+    vi.useRealTimers();
+  });
+
+  it('never closes a connection while a statement runs on it', async () => {
+    manager.track(cfg, connection, 1);
+    await vi.advanceTimersByTimeAsync(20 * 60000);
+    expect(connection.close).not.toHaveBeenCalled();
+  });
+
+  it('counts the end of a statement as use', async () => {
+    manager.track(cfg, connection, 1);
+    await vi.advanceTimersByTimeAsync(10 * 60000);
+    manager.track(cfg, connection, -1);
+    await vi.advanceTimersByTimeAsync(4 * 60000);
+    expect(connection.close).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(3 * 60000);
+    expect(connection.close).toHaveBeenCalledOnce();
+  });
+});
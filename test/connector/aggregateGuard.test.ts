@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  aggregateOnlyFromEnv,
+  AggregateOnlyViolationError,
+  GROUP_SIZE_COLUMN,
+  rewriteAggregateMongo,
+  rewriteAggregateSql,
+  suppressRareStats,
+  suppressSmallGroups,
+} from '../../src/connector/aggregateGuard';
+
+describe('rewriteAggregateSql', () => {
+  it('appends the group size after the last select item', () => {
+    const { query, sizeField } = rewriteAggregateSql('SELECT region, AVG(salary) FROM staff GROUP BY 1 ORDER BY 2', 'postgres');
+    expect(sizeField).toBe(GROUP_SIZE_COLUMN);
+    expect(query).toBe(`SELECT region, AVG(salary), COUNT(*) AS ${GROUP_SIZE_COLUMN} FROM staff GROUP BY 1 ORDER BY 2`);
+  });
+
+  it('accepts aggregates without GROUP BY', () => {
+    expect(rewriteAggregateSql('SELECT COUNT(*) FROM staff;').query).toContain(`COUNT(*) AS ${GROUP_SIZE_COLUMN}`);
+  });
+
+  it.each([
+    ['SELECT name FROM staff', /neither aggregated nor grouped/],
+    ['SELECT region, STRING_AGG(name, \',\') FROM staff GROUP BY region', /string_agg\(\) returns the individual values/],
+    ['SELECT region, COUNT(*) OVER () FROM staff GROUP BY region', /window functions/],
+    ['SELECT COUNT(*) AS n, (SELECT MAX(ssn) FROM users WHERE id = 42) AS leak FROM users', /subqueries in the select list/],
+    ['SELECT region, (SELECT MAX(ssn) FROM users WHERE id = 42) FROM staff GROUP BY region', /subqueries in the select list/],
+    ['SELECT COUNT(*) FROM a UNION SELECT COUNT(*) FROM b', /UNION/],
+    ['UPDATE staff SET salary = 0', /UPDATE statements/],
+  ])('rejects %s', (sql, message) => {
+    expect(() => rewriteAggregateSql(sql, 'postgres')).toThrow(message);
+  });
+});
+
+describe('rewriteAggregateMongo', () => {
+  it('adds a size accumulator to the last $group', () => {
+    const { query, sizeField } = rewriteAggregateMongo({
+      collection: 'staff',
+      operation: 'aggregate',
+      pipeline: [{ $group: { _id: '$region', avg: { $avg: '$salary' } } }, { $sort: { avg: -1 } }],
+    });
+    expect(sizeField).toBe(GROUP_SIZE_COLUMN);
+    expect(query.pipeline![0].$group[GROUP_SIZE_COLUMN]).toEqual({ $sum: 1 });
+  });
+
+  it('keeps the size through an inclusion $project and drops it from $unset', () => {
+    const { query } = rewriteAggregateMongo({
+      collection: 'staff',
+      operation: 'aggregate',
+      pipeline: [{ $group: { _id: '$region' } }, { $project: { _id: 1 } }, { $unset: GROUP_SIZE_COLUMN }],
+    });
+    expect(query.pipeline).toEqual([
+      { $group: { _id: '$region', [GROUP_SIZE_COLUMN]: { $sum: 1 } } },
+      { $project: { _id: 1, [GROUP_SIZE_COLUMN]: 1 } },
+    ]);
+  });
+
+  it('uses the count field of $sortByCount', () => {
+    expect(rewriteAggregateMongo({ collection: 'staff', operation: 'aggregate', pipeline: [{ $sortByCount: '$region' }] }).sizeField).toBe('count');
+  });
+
+  it.each([
+    [{ collection: 'staff', operation: 'find' as const }, /find returns individual documents/],
+    [{ collection: 'staff', operation: 'aggregate' as const, pipeline: [{ $match: {} }] }, /no \$group/],
+    [{ collection: 'staff', operation: 'aggregate' as const, pipeline: [{ $group: { _id: null, names: { $push: '$name' } } }] }, /\$push/],
+    [{ collection: 'staff', operation: 'aggregate' as const, pipeline: [{ $group: { _id: null } }, { $lookup: {} }] }, /\$lookup is not allowed/],
+    [{ collection: 'staff', operation: 'aggregate' as const, pipeline: [{ $group: { _id: '$region', doc: { $mergeObjects: '$$ROOT' } } }] }, /\$mergeObjects/],
+    [{ collection: 'staff', operation: 'aggregate' as const, pipeline: [{ $group: { _id: '$region', js: { $accumulator: { init: 'function() {}' } } } }] }, /\$accumulator/],
+    [{ collection: 'staff', operation: 'aggregate' as const, pipeline: [{ $group: { _id: '$region', total: { $sum: { $function: { body: 'return 1', args: [], lang: 'js' } } } } }] }, /\$function/],
+    [{ collection: 'staff', operation: 'aggregate' as const, pipeline: [{ $group: { _id: null, name: { $first: '$name' } } }] }, /\$first/],
+    [{ collection: 'staff', operation: 'aggregate' as const, pipeline: [{ $group: { _id: null } }, { $addFields: { js: { $function: { body: 'return 1', args: [], lang: 'js' } } } }] }, /\$function is not allowed in \$addFields/],
+  ])('rejects %j', (query, message) => {
+    expect(() => rewriteAggregateMongo(query)).toThrow(message);
+  });
+
+  it('throws AggregateOnlyViolationError', () => {
+    expect(() => rewriteAggregateMongo({ collection: 'staff', operation: 'distinct', field: 'name' })).toThrow(AggregateOnlyViolationError);
+  });
+});
+
+describe('suppressSmallGroups', () => {
+  it('drops groups below the minimum and strips the injected size', () => {
+    const rows = [
+      { region: 'north', [GROUP_SIZE_COLUMN]: 12 },
+      { region: 'south', [GROUP_SIZE_COLUMN]: 2 },
+      { region: 'east' },
+    ];
+    expect(suppressSmallGroups(rows, GROUP_SIZE_COLUMN, 5)).toEqual({ rows: [{ region: 'north' }], suppressed: 2 });
+  });
+
+  it('keeps a size field that belongs to the query', () => {
+    expect(suppressSmallGroups([{ _id: 'a', count: 7 }], 'count', 5).rows).toEqual([{ _id: 'a', count: 7 }]);
+  });
+});
+
+describe('suppressRareStats', () => {
+  const stats = {
+    nullFraction: 0.1,
+    distinctCount: 3,
+    min: 'Aaron',
+    max: 'Zoe',
+    topValues: [{ value: 'Smith', frequency: 0.5 }, { value: 'Jones', frequency: 0.04 }],
+    source: 'scan' as const,
+  };
+
+  it('drops min / max and top values of fewer than k rows', () => {
+    expect(suppressRareStats(stats, 100, { minGroupSize: 5 })).toEqual({
+      nullFraction: 0.1,
+      distinctCount: 3,
+      topValues: [{ value: 'Smith', frequency: 0.5 }],
+      source: 'scan',
+    });
+  });
+
+  it('drops every top value when the row count is unknown', () => {
+    expect(suppressRareStats(stats, undefined, { minGroupSize: 5 })).toEqual({ nullFraction: 0.1, distinctCount: 3, source: 'scan' });
+  });
+});
+
+describe('aggregateOnlyFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is off unless AGGREGATE_ONLY=true', () => {
+    vi.stubEnv('AGGREGATE_ONLY', '');
+    vi.stubEnv('AGGREGATE_MIN_GROUP_SIZE', 'nonsense');
+    expect(aggregateOnlyFromEnv()).toBeUndefined();
+  });
+
+  it('defaults the group size to 5', () => {
+    vi.stubEnv('AGGREGATE_ONLY', 'true');
+    vi.stubEnv('AGGREGATE_MIN_GROUP_SIZE', '');
+    expect(aggregateOnlyFromEnv()).toEqual({ minGroupSize: 5 });
+    vi.stubEnv('AGGREGATE_MIN_GROUP_SIZE', '10');
+    expect(aggregateOnlyFromEnv()).toEqual({ minGroupSize: 10 });
+  });
+
+  it.each(['0', '-3', '2.5', 'ten', '5k'])('rejects a group size of %s', (value) => {
+    vi.stubEnv('AGGREGATE_ONLY', 'true');
+    vi.stubEnv('AGGREGATE_MIN_GROUP_SIZE', value);
+    expect(() => aggregateOnlyFromEnv()).toThrow(/Invalid AGGREGATE_MIN_GROUP_SIZE/);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { assertWithinCost, CostLimitExceededError, estimateCost } from '../../src/connector/costGate';
+import { PlanNode } from '../../src/connector/queryPlan';
+
+const plan: PlanNode = {
+  nodeType: 'Hash Join',
+  cost: 25000,
+  children: [
+    { nodeType: 'Seq Scan', relation: 'orders', fullScan: true, estimatedRows: 10, detail: 'status = \'open\'', children: [] },
+    { nodeType: 'Index Scan', relation: 'customers', index: 'customers_pkey', estimatedRows: 1, children: [] },
+  ],
+};
+const tableSizes = { 'public.orders': 2000000, 'public.customers': 5000 };
+const indexMap = { 'public.orders': [{ indexName: 'orders_customer', columnName: 'customer_id', seqInIndex: 1 }] };
+
+describe('estimateCost', () => {
+  it('counts whole tables for full scans', () => {
+    const estimate = estimateCost(plan, 'postgres', indexMap, tableSizes);
+    expect(estimate.cost).toBe(25000);
+    expect(estimate.scannedRows).toBe(2000001);
+  });
+});
+
+describe('assertWithinCost', () => {
+  const estimate = { cost: 25000, scannedRows: 2000001, warnings: [] };
+
+  it('rejects statements over a threshold', () => {
+    expect(() => assertWithinCost(estimate, { maxScannedRows: 1000000 })).toThrow(CostLimitExceededError);
+    expect(() => assertWithinCost(estimate, { maxCost: 1000 })).toThrow(/estimated cost of 25,000 is over the limit of 1,000/);
+  });
+
+  it('lets unknown figures and unset limits pass', () => {
+    expect(() => assertWithinCost({ cost: null, scannedRows: null, warnings: [] }, { maxCost: 1, maxScannedRows: 1 })).not.toThrow();
+    expect(() => assertWithinCost(estimate, {})).not.toThrow();
+  });
+});
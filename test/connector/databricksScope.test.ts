@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  databricksScopeCondition,
+  databricksScopeFromEnv,
+  hasDatabricksTag,
+  inDatabricksScope,
+  matchesPatterns,
+} from '../../src/connector/databricksScope';
+
+describe('matchesPatterns', () => {
+  it('matches globs against the trailing parts of the name', () => {
+    expect(matchesPatterns(['sales'], 'main.sales')).toBe(true);
+    expect(matchesPatterns(['main.sales'], 'dev.sales')).toBe(false);
+    expect(matchesPatterns(['fact_*'], 'main.sales.FACT_orders')).toBe(true);
+    expect(matchesPatterns(['dim_?'], 'main.sales.dim_ab')).toBe(false);
+  });
+
+  it('applies exclusions after inclusions', () => {
+    expect(matchesPatterns(['!*_tmp'], 'main.sales.orders')).toBe(true);
+    expect(matchesPatterns(['!*_tmp'], 'main.sales.orders_tmp')).toBe(false);
+    expect(matchesPatterns(['fact_*', '!fact_old'], 'main.sales.fact_old')).toBe(false);
+    expect(matchesPatterns(undefined, 'anything')).toBe(true);
+  });
+});
+
+describe('inDatabricksScope', () => {
+  it('checks catalog, schema and table patterns', () => {
+    const scope = { catalogs: ['main'], schemas: ['!scratch'], tables: ['fact_*'] };
+    expect(inDatabricksScope(scope, 'main.sales.fact_orders')).toBe(true);
+    expect(inDatabricksScope(scope, 'dev.sales.fact_orders')).toBe(false);
+    expect(inDatabricksScope(scope, 'main.scratch.fact_orders')).toBe(false);
+    expect(inDatabricksScope(scope, 'main.sales.dim_customer')).toBe(false);
+  });
+});
+
+describe('databricksScopeCondition', () => {
+  it('translates globs to escaped LIKE patterns', () => {
+    expect(databricksScopeCondition({ schemas: ['main.sales'], tables: ['fact_*', '!*_tmp'] }, 't.')).toBe(
+      ` AND (lower(concat_ws('.', t.table_catalog, t.table_schema)) LIKE 'main.sales' ESCAPE '!')` +
+      ` AND (lower(t.table_name) LIKE 'fact!_%' ESCAPE '!') AND NOT (lower(t.table_name) LIKE '%!_tmp' ESCAPE '!')`
+    );
+    expect(databricksScopeCondition({ catalogs: ['main'] })).toBe('');
+  });
+});
+
+describe('hasDatabricksTag', () => {
+  it('matches tag names case-insensitively and values exactly', () => {
+    const tags = { PII: 'high', domain: 'sales' };
+    expect(hasDatabricksTag(tags, ['pii'])).toBe(true);
+    expect(hasDatabricksTag(tags, ['domain=sales'])).toBe(true);
+    expect(hasDatabricksTag(tags, ['domain=Sales'])).toBe(false);
+    expect(hasDatabricksTag(undefined, ['pii'])).toBe(false);
+    expect(hasDatabricksTag(undefined, undefined)).toBe(true);
+  });
+});
+
+describe('databricksScopeFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('splits comma-separated lists', () => {
+    vi.stubEnv('DATABRICKS_CATALOGS', 'main, dev ,');
+    vi.stubEnv('DATABRICKS_SCHEMAS', '');
+    vi.stubEnv('DATABRICKS_TABLES', '');
+    vi.stubEnv('DATABRICKS_TABLE_TAGS', 'pii');
+    expect(databricksScopeFromEnv()).toEqual({ catalogs: ['main', 'dev'], schemas: undefined, tables: undefined, tags: ['pii'] });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { MaskingPolicy } from '../../src/connector/maskingPolicy';
+import { mongoLineage, sqlLineage } from '../../src/connector/lineage';
+
+const policy = new MaskingPolicy({
+  hashSalt: 'test',
+  rules: [
+    { table: 'people', column: 'ssn', action: 'drop' },
+    { column: '*email*', action: 'mask' },
+    { table: 'accounts', column: 'iban', action: 'hash' },
+    { pattern: 'card', action: 'mask' },
+  ],
+});
+
+const columns = (row: Record<string, any>) => Object.keys(row).map(name => ({ name }));
+
+function run(sql: string, row: Record<string, any>, databaseType = 'postgres') {
+  return policy.applyToRows([row], columns(row), { query: sql, databaseType });
+}
+
+describe('MaskingPolicy column rules', () => {
+  it('follows aliases and expressions back to the source column', () => {
+    expect(run('SELECT ssn AS x, name FROM people', { x: '123-45-6789', name: 'Ann' }).rows).toEqual([{ name: 'Ann' }]);
+    expect(run('SELECT lower(ssn) x FROM people', { x: '123-45-6789' }).rows).toEqual([{}]);
+    expect(run('SELECT p.ssn || \'\' AS x FROM people p', { x: '123-45-6789' }).columns).toEqual([]);
+  });
+
+  it('follows CTE columns and UNION branches', () => {
+    expect(run('WITH s AS (SELECT ssn AS secret FROM people) SELECT secret AS x FROM s', { x: '1' }).rows).toEqual([{}]);
+    expect(run('SELECT name FROM staff UNION SELECT ssn FROM people', { name: '1' }).rows).toEqual([{}]);
+  });
+
+  it('resolves quoted identifiers per dialect', () => {
+    expect(run('SELECT "SSN" AS "x" FROM "people"', { x: '1' }).rows).toEqual([{}]);
+    expect(run('SELECT `ssn` AS `x` FROM `people`', { x: '1' }, 'mysql').rows).toEqual([{}]);
+  });
+
+  it('does not read a cast as an alias', () => {
+    expect(run('SELECT total::text FROM people', { total: '10' }).rows).toEqual([{ total: '10' }]);
+  });
+
+  it('scopes table rules to FROM / JOIN targets', () => {
+    expect(run('SELECT ssn FROM staff', { ssn: '1' }).rows).toEqual([{ ssn: '1' }]);
+    expect(run('SELECT \'people\' AS ssn FROM staff', { ssn: 'people' }).rows).toEqual([{ ssn: 'people' }]);
+    expect(run('SELECT s.ssn FROM staff s JOIN people p ON p.id = s.id', { ssn: '1' }).rows).toEqual([{}]);
+  });
+
+  it('applies the strictest action of every source column', () => {
+    const { rows, columns: meta } = run('SELECT email || iban AS contact FROM accounts', { contact: 'a@b.com DE89' });
+    expect(rows[0].contact).toMatch(/^hash:/);
+    expect(meta).toEqual([{ name: 'contact', masking: 'hash' }]);
+  });
+
+  it('treats whole rows as every column of their tables', () => {
+    expect(run('SELECT row_to_json(p) AS doc FROM people p', { doc: { ssn: '1' } }).rows).toEqual([{}]);
+  });
+
+  it('fails closed when the statement hides its sources', () => {
+    const { rows } = run('SELECT query_to_xml(\'select ssn from people\', true, true, \'\') AS x', { x: '<ssn>1</ssn>' });
+    expect(rows).toEqual([{}]);
+  });
+
+  it('masks nested document fields by dotted path', () => {
+    const { rows } = policy.applyToRows([{ contact: { email: 'ann@example.com', city: 'Oslo' } }], [{ name: 'contact' }], { tables: ['users'] });
+    expect(rows).toEqual([{ contact: { email: 'a***@example.com', city: 'Oslo' } }]);
+  });
+});
+
+describe('MaskingPolicy pattern rules', () => {
+  it('masks Luhn-valid card numbers only', () => {
+    const { rows } = run('SELECT note FROM orders', { note: 'card 4111 1111 1111 1111, order 1234567890123' });
+    expect(rows[0].note).toBe('card ***************1111, order 1234567890123');
+  });
+
+  it('masks card numbers stored as numbers and bigints', () => {
+    const { rows } = run('SELECT card_no, total FROM payments', { card_no: 4111111111111111, total: 1234567890123 });
+    expect(rows[0]).toEqual({ card_no: '************1111', total: 1234567890123 });
+    expect(run('SELECT card_no FROM payments', { card_no: 4111111111111111n }).rows[0].card_no).toBe('************1111');
+  });
+});
+
+describe('MaskingPolicy with Mongo queries', () => {
+  it('follows $project renames and distinct fields', () => {
+    const rows = policy.applyToRows(
+      [{ secret: '1', name: 'Ann' }],
+      [{ name: 'secret' }, { name: 'name' }],
+      { query: { collection: 'people', operation: 'aggregate', pipeline: [{ $project: { secret: '$ssn', name: 1 } }] } }
+    ).rows;
+    expect(rows).toEqual([{ name: 'Ann' }]);
+    expect(policy.applyToRows(['1', '2'], [{ name: 'value' }], { query: { collection: 'people', operation: 'distinct', field: 'ssn' } }).rows).toEqual([]);
+  });
+
+  it('treats $lookup results as whole rows of the joined collection', () => {
+    const rows = policy.applyToRows(
+      [{ person: [{ ssn: '1' }] }],
+      [{ name: 'person' }],
+      { query: { collection: 'orders', operation: 'aggregate', pipeline: [{ $lookup: { from: 'people', localField: 'p', foreignField: '_id', as: 'person' } }] } }
+    ).rows;
+    expect(rows).toEqual([{}]);
+  });
+});
+
+describe('sqlLineage', () => {
+  it('lists FROM / JOIN targets but not CTEs or aliases', () => {
+    const lineage = sqlLineage('WITH c AS (SELECT * FROM crm.people) SELECT * FROM c JOIN orders o ON o.id = c.id, items', 'postgres');
+    expect(lineage.tables).toEqual(expect.arrayContaining(['crm.people', 'people', 'orders', 'items']));
+    expect(lineage.tables).not.toContain('c');
+    expect(lineage.tables).not.toContain('o');
+  });
+
+  it('skips FROM inside EXTRACT and similar functions', () => {
+    expect(sqlLineage('SELECT EXTRACT(YEAR FROM created_at) FROM orders').tables).toEqual(['orders']);
+  });
+});
+
+describe('mongoLineage', () => {
+  it('reads $group keys back to their fields', () => {
+    const lineage = mongoLineage({ collection: 'people', operation: 'aggregate', pipeline: [{ $group: { _id: '$ssn', n: { $sum: 1 } } }] });
+    expect(lineage.sources('_id').columns).toContain('ssn');
+  });
+});
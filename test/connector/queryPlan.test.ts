@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePlan, lookupRelation, planToMarkdown, PlanNode } from '../../src/connector/queryPlan';
+
+const plan: PlanNode = {
+  nodeType: 'Hash Join',
+  cost: 25000,
+  children: [
+    { nodeType: 'Seq Scan', relation: 'orders', fullScan: true, estimatedRows: 10, detail: 'status = \'open\'', children: [] },
+    { nodeType: 'Index Scan', relation: 'customers', index: 'customers_pkey', estimatedRows: 1, children: [] },
+  ],
+};
+const tableSizes = { 'public.orders': 2000000, 'public.customers': 5000 };
+const indexMap = { 'public.orders': [{ indexName: 'orders_customer', columnName: 'customer_id', seqInIndex: 1 }] };
+
+describe('lookupRelation', () => {
+  it('matches bare and qualified names either way round', () => {
+    expect(lookupRelation(tableSizes, 'ORDERS')).toEqual(['public.orders', 2000000]);
+    expect(lookupRelation({ orders: 1 }, '"public"."orders"')).toEqual(['orders', 1]);
+    expect(lookupRelation(tableSizes, 'invoices')).toBeUndefined();
+  });
+});
+
+describe('analyzePlan', () => {
+  it('flags full scans of large tables with index advice', () => {
+    const warnings = analyzePlan(plan, 'postgres', indexMap, tableSizes, 100000);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ relation: 'public.orders', rows: 2000000 });
+    expect(warnings[0].message).toContain('indexes lead with `customer_id` but none was used');
+  });
+
+  it('gives partition advice on Databricks and ignores small tables', () => {
+    expect(analyzePlan(plan, 'databricks', {}, tableSizes, 100000)[0].message).toContain('partition');
+    expect(analyzePlan(plan, 'postgres', indexMap, tableSizes, 5000000)).toEqual([]);
+  });
+
+  it('renders the plan tree', () => {
+    const markdown = planToMarkdown('postgres', plan, []);
+    expect(markdown).toContain('  - **Seq Scan** on `orders` — est. 10 rows ⚠️');
+    expect(markdown).toContain('  - **Index Scan** on `customers` using `customers_pkey` — est. 1 rows');
+  });
+});
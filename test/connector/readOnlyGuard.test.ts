@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { assertReadOnlyMongo, assertReadOnlySql, ReadOnlyViolationError, tokenize } from '../../src/connector/readOnlyGuard';
+
+describe('assertReadOnlySql', () => {
+  it.each([
+    'SELECT * FROM users',
+    '  (SELECT 1)',
+    'WITH t AS (SELECT 1) SELECT * FROM t',
+    'SHOW TABLES',
+    'EXPLAIN SELECT 1',
+    'SELECT 1;',
+  ])('accepts %s', (sql) => {
+    expect(() => assertReadOnlySql(sql, 'postgres')).not.toThrow();
+  });
+
+  it.each([
+    ['DELETE FROM users', /DELETE statements are not allowed/],
+    ['SELECT 1; DROP TABLE users', /multi-statement/],
+    ['WITH d AS (DELETE FROM users RETURNING *) SELECT * FROM d', /DELETE is not allowed/],
+    ['SELECT * FROM users FOR UPDATE', /UPDATE is not allowed/],
+    ['SELECT * INTO backup FROM users', /INTO is not allowed/],
+    ['COPY users TO PROGRAM \'sh\'', /PROGRAM/],
+    ['SELECT pg_terminate_backend(42)', /pg_terminate_backend\(\) is not allowed/],
+    ['SELECT * FROM dblink(\'host=x\', \'DELETE FROM t\') AS t(a int)', /dblink\(\) is not allowed/],
+    ['SELECT dblink_send_query(\'conn\', \'DELETE FROM t\')', /dblink_send_query\(\) is not allowed/],
+    ['SELECT dblink_connect(\'conn\', \'host=x\')', /dblink_connect\(\) is not allowed/],
+    ['SELECT pg_read_file(\'/etc/passwd\')', /pg_read_file\(\) is not allowed/],
+    ['SELECT pg_read_binary_file(\'/etc/passwd\')', /pg_read_binary_file\(\) is not allowed/],
+    ['SELECT * FROM pg_ls_dir(\'.\')', /pg_ls_dir\(\) is not allowed/],
+    ['', /empty statement/],
+  ])('rejects %s', (sql, message) => {
+    expect(() => assertReadOnlySql(sql, 'postgres')).toThrow(message);
+  });
+
+  it('ignores keywords inside strings, quoted identifiers and comments', () => {
+    expect(() => assertReadOnlySql(`SELECT 'DROP TABLE x', "delete" FROM t -- UPDATE\n/* INSERT */`, 'postgres')).not.toThrow();
+    expect(() => assertReadOnlySql('SELECT `update` FROM t', 'mysql')).not.toThrow();
+  });
+
+  it('checks dialect-specific functions only for that dialect', () => {
+    expect(() => assertReadOnlySql('SELECT load_file(\'/etc/passwd\')', 'mysql')).toThrow(ReadOnlyViolationError);
+    expect(() => assertReadOnlySql('SELECT load_file(\'/etc/passwd\')', 'postgres')).not.toThrow();
+  });
+});
+
+describe('assertReadOnlyMongo', () => {
+  it('accepts reads', () => {
+    expect(() => assertReadOnlyMongo({ collection: 'users', operation: 'aggregate', pipeline: [{ $match: { a: 1 } }] })).not.toThrow();
+  });
+
+  it('rejects writing stages, even nested ones', () => {
+    expect(() => assertReadOnlyMongo({ collection: 'users', operation: 'aggregate', pipeline: [{ $out: 'copy' }] })).toThrow(/\$out/);
+    expect(() => assertReadOnlyMongo({
+      collection: 'users',
+      operation: 'aggregate',
+      pipeline: [{ $facet: { a: [{ $merge: { into: 'copy' } }] } }],
+    })).toThrow(/\$merge/);
+  });
+
+  it('rejects write operations', () => {
+    expect(() => assertReadOnlyMongo({ collection: 'users', operation: 'insertOne' as any })).toThrow(/insertOne/);
+  });
+});
+
+describe('tokenize', () => {
+  it('keeps the unquoted text of quoted identifiers', () => {
+    const tokens = tokenize('SELECT "Full ""Name""" FROM t', 'postgres');
+    expect(tokens.find(token => token.text !== undefined)?.text).toBe('Full "Name"');
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { inferColumns, limitResult, resolveResultLimits, serializedSize } from '../../src/connector/resultGuard';
+
+describe('resolveResultLimits', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads the environment and prefers overrides', () => {
+    vi.stubEnv('QUERY_MAX_ROWS', '50');
+    expect(resolveResultLimits()).toEqual({ maxRows: 50, maxBytes: 5 * 1024 * 1024 });
+    expect(resolveResultLimits({ maxRows: 0, maxBytes: 10 })).toEqual({ maxRows: 1, maxBytes: 10 });
+  });
+});
+
+describe('serializedSize', () => {
+  it('counts BigInt values as strings', () => {
+    expect(serializedSize({ id: 12n })).toBe(Buffer.byteLength('{"id":"12"}'));
+  });
+});
+
+describe('inferColumns', () => {
+  it('takes the first non-null type of each field', () => {
+    expect(inferColumns([{ a: null, b: 'x' }, { a: new Date(0), c: Buffer.from('') }])).toEqual([
+      { name: 'a', type: 'date' },
+      { name: 'b', type: 'string' },
+      { name: 'c', type: 'binary' },
+    ]);
+  });
+
+  it('describes bare distinct values as one column', () => {
+    expect(inferColumns([1, 2])).toEqual([{ name: 'value', type: 'number' }]);
+  });
+});
+
+describe('limitResult', () => {
+  const rows = Array.from({ length: 6 }, (_, i) => ({ id: i }));
+  const noEstimate = async () => null;
+
+  it('passes a result within the limits through', async () => {
+    const result = await limitResult(rows.slice(0, 3), { maxRows: 5, maxBytes: 1000 }, undefined, noEstimate);
+    expect(result).toMatchObject({ rowCount: 3, truncated: false, totalRowsEstimate: 3 });
+    expect(result.truncatedBy).toBeUndefined();
+  });
+
+  it('drops the lookahead row and asks for an estimate', async () => {
+    const estimate = vi.fn(async () => 1000);
+    const result = await limitResult(rows, { maxRows: 5, maxBytes: 1000 }, undefined, estimate);
+    expect(result).toMatchObject({ rowCount: 5, truncated: true, truncatedBy: 'rows', totalRowsEstimate: 1000 });
+    expect(estimate).toHaveBeenCalledOnce();
+  });
+
+  it('never reports fewer rows than were fetched', async () => {
+    const result = await limitResult(rows, { maxRows: 5, maxBytes: 1000 }, undefined, async () => 2);
+    expect(result.totalRowsEstimate).toBe(6);
+  });
+
+  it('cuts at the byte budget, brackets and commas included', async () => {
+    // [{"id":0},{"id":1}] is 19 bytes
+    const result = await limitResult(rows.slice(0, 3), { maxRows: 5, maxBytes: 19 }, undefined, noEstimate);
+    expect(result).toMatchObject({ rowCount: 2, truncatedBy: 'bytes', totalRowsEstimate: 3 });
+  });
+
+  it('keeps reported columns', async () => {
+    const result = await limitResult(rows.slice(0, 1), { maxRows: 5, maxBytes: 1000 }, [{ name: 'id', type: 'int4' }], noEstimate);
+    expect(result.columns).toEqual([{ name: 'id', type: 'int4' }]);
+  });
+});
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readSchemaCache, SchemaCacheOptions, writeSchemaCache } from '../../src/connector/schemaCache';
+import { createCatalog } from '../../src/connector/schemaManager';
+
+describe('schema cache settings', () => {
+  let options: SchemaCacheOptions;
+  let policyFile: string;
+  const catalog = { ...createCatalog('postgres://db/app'), schemaMap: { 'public.users': [{ columnName: 'email' }] } };
+
+  beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'celp-schema-cache-'));
+    options = { dir, ttlMs: 60_000 };
+    policyFile = path.join(dir, 'policy.json');
+    fs.writeFileSync(policyFile, JSON.stringify({ rules: [{ column: 'email', action: 'mask' }] }));
+    vi.stubEnv('CELP_MASKING_POLICY', policyFile);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(options.dir, { recursive: true, force: true });
+  });
+
+  it('reads entries written under the same settings', async () => {
+    await writeSchemaCache(catalog, undefined, options);
+    expect((await readSchemaCache(catalog.key, options))?.maps.schemaMap).toEqual(catalog.schemaMap);
+  });
+
+  it('misses once the masking policy changes', async () => {
+    await writeSchemaCache(catalog, undefined, options);
+    fs.writeFileSync(policyFile, JSON.stringify({ rules: [{ column: 'email', action: 'drop' }] }));
+    expect(await readSchemaCache(catalog.key, options)).toBeUndefined();
+  });
+
+  it.each([
+    ['SCHEMA_COLUMN_STATS', 'true'],
+    ['SCHEMA_VALUE_CATALOG', 'true'],
+    ['AGGREGATE_ONLY', 'true'],
+  ])('misses once %s changes', async (name, value) => {
+    await writeSchemaCache(catalog, undefined, options);
+    vi.stubEnv(name, value);
+    expect(await readSchemaCache(catalog.key, options)).toBeUndefined();
+  });
+});
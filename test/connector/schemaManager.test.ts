@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { catalogKey, createCatalog, getCatalog, loadDatabricksIndexes, loadDatabricksTableSizes } from '../../src/connector/schemaManager';
+import { rewriteForTunnel } from '../../src/connector/tunnel';
+import type { ConnectorCfg } from '../../src/connector';
+
+const ssh = { host: 'bastion', username: 'deploy', privateKeyPath: '/dev/null' };
+
+describe('catalogKey', () => {
+  it('keys a tunnel\'s local config on the configured server', () => {
+    const cfg: ConnectorCfg = { databaseType: 'postgres', host: 'db.internal', port: 5432, user: 'reader', password: 'secret', database: 'sales', ssh };
+    const first = rewriteForTunnel(cfg, 40001);
+    const reopened = rewriteForTunnel(cfg, 40002);
+    expect(first.host).toBe('127.0.0.1');
+    expect(catalogKey(first)).toBe('postgres:db.internal:5432:reader:sales');
+    expect(catalogKey(reopened)).toBe(catalogKey(cfg));
+    expect(getCatalog(first)).toBe(getCatalog(cfg));
+  });
+
+  it('keys tunnelled MongoDB URLs on the configured URL', () => {
+    const cfg: ConnectorCfg = { databaseType: 'mongodb', host: '', user: '', password: '', database: 'app', url: 'mongodb://user:pw@mongo.internal:27017/app', ssh };
+    const local = rewriteForTunnel(cfg, 40003);
+    expect(local.url).toContain('127.0.0.1:40003');
+    expect(catalogKey(local)).toBe(catalogKey(cfg));
+    expect(catalogKey(local)).not.toContain('pw');
+  });
+
+  it('tells different servers and databases apart', () => {
+    const base = { databaseType: 'mysql' as const, host: 'a', port: 3306, user: 'u', database: 'd' };
+    expect(catalogKey(base)).not.toBe(catalogKey({ ...base, host: 'b' }));
+    expect(catalogKey(base)).not.toBe(catalogKey({ ...base, database: 'e' }));
+  });
+});
+
+describe('Databricks layout and size loads', () => {
+  it('describes each table once per full load', async () => {
+    const statements: string[] = [];
+    const session = {
+      executeStatement: async (statement: string) => {
+        statements.push(statement.trim());
+        const rows = statement.includes('information_schema.tables')
+          ? [{ qualified_name: 'main.sales.orders' }]
+          : statement.startsWith('DESCRIBE DETAIL') ? [{ format: 'parquet', numRows: '42', partitionColumns: ['day'] }] : [];
+        return { fetchAll: async () => rows, close: async () => undefined };
+      },
+      close: async () => undefined,
+    };
+    const conn = { openSession: async () => session };
+    const catalog = createCatalog('databricks:main');
+    catalog.schemaMap = { 'main.sales.orders': [{ columnName: 'day' }] };
+
+    await loadDatabricksIndexes(conn, 'main', undefined, catalog);
+    await loadDatabricksTableSizes(conn, 'main', undefined, catalog);
+    expect(statements.filter(statement => statement.startsWith('DESCRIBE DETAIL'))).toHaveLength(1);
+    expect(catalog.indexMap['main.sales.orders'][0]).toMatchObject({ indexName: 'partition', columnName: 'day' });
+    expect(catalog.tableSizeCache['main.sales.orders']).toBe(42);
+
+    // A later partial refresh describes the changed tables afresh
+    await loadDatabricksTableSizes(conn, 'main', undefined, catalog, ['main.sales.orders']);
+    expect(statements.filter(statement => statement.startsWith('DESCRIBE DETAIL'))).toHaveLength(2);
+  });
+});
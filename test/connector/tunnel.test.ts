@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkKnownHosts, sshConfigFromEnv } from '../../src/connector/tunnel';
+
+const key = Buffer.from('presented host key');
+const otherKey = Buffer.from('some other key');
+const b64 = (buffer: Buffer) => buffer.toString('base64');
+
+function hashedHost(name: string): string {
+  const salt = crypto.randomBytes(20);
+  const hash = crypto.createHmac('sha1', salt).update(name).digest('base64');
+  return `|1|${salt.toString('base64')}|${hash}`;
+}
+
+describe('checkKnownHosts', () => {
+  let dir: string;
+  let file: string;
+  const write = (...lines: string[]) => fs.writeFileSync(file, lines.join('\n') + '\n');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'celp-known-hosts-'));
+    file = path.join(dir, 'known_hosts');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is unknown without a file', () => {
+    expect(checkKnownHosts(file, 'bastion', 22, key)).toBe('unknown');
+  });
+
+  it('matches plain, wildcard and port-qualified entries', () => {
+    write('# comment', `bastion,10.0.0.1 ssh-ed25519 ${b64(key)}`);
+    expect(checkKnownHosts(file, 'bastion', 22, key)).toBe('match');
+    write(`*.example.com ssh-ed25519 ${b64(key)}`);
+    expect(checkKnownHosts(file, 'jump.example.com', 22, key)).toBe('match');
+    write(`[bastion]:2222 ssh-ed25519 ${b64(key)}`);
+    expect(checkKnownHosts(file, 'bastion', 2222, key)).toBe('match');
+    expect(checkKnownHosts(file, 'bastion', 22, key)).toBe('unknown');
+  });
+
+  it('matches hashed entries', () => {
+    write(`${hashedHost('bastion')} ssh-ed25519 ${b64(key)}`, `${hashedHost('[other]:2200')} ssh-ed25519 ${b64(key)}`);
+    expect(checkKnownHosts(file, 'bastion', 22, key)).toBe('match');
+    expect(checkKnownHosts(file, 'other', 2200, key)).toBe('match');
+    expect(checkKnownHosts(file, 'third', 22, key)).toBe('unknown');
+  });
+
+  it('reports a different key for a known host as a mismatch', () => {
+    write(`bastion ssh-ed25519 ${b64(otherKey)}`);
+    expect(checkKnownHosts(file, 'bastion', 22, key)).toBe('mismatch');
+  });
+
+  it('accepts any of several keys listed for a host', () => {
+    write(`bastion ssh-rsa ${b64(otherKey)}`, `bastion ssh-ed25519 ${b64(key)}`);
+    expect(checkKnownHosts(file, 'bastion', 22, key)).toBe('match');
+  });
+
+  it('honours negated patterns', () => {
+    write(`*.example.com,!db.example.com ssh-ed25519 ${b64(key)}`);
+    expect(checkKnownHosts(file, 'db.example.com', 22, key)).toBe('unknown');
+  });
+
+  it('rejects revoked keys and ignores certificate authorities', () => {
+    write(`@revoked * ssh-ed25519 ${b64(key)}`, `bastion ssh-ed25519 ${b64(key)}`);
+    expect(checkKnownHosts(file, 'bastion', 22, key)).toBe('mismatch');
+    write(`@cert-authority bastion ssh-ed25519 ${b64(key)}`);
+    expect(checkKnownHosts(file, 'bastion', 22, key)).toBe('unknown');
+  });
+});
+
+describe('sshConfigFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('tunnels SQL and Mongo connections but never Databricks', () => {
+    vi.stubEnv('SSH_HOST', 'bastion');
+    expect(sshConfigFromEnv('postgres')?.host).toBe('bastion');
+    expect(sshConfigFromEnv('databricks')).toBeUndefined();
+    vi.stubEnv('DATABASE_TYPE', 'databricks');
+    expect(sshConfigFromEnv()).toBeUndefined();
+  });
+});
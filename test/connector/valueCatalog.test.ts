@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { loadValueCatalog } from '../../src/connector/valueCatalog';
+import { createCatalog } from '../../src/connector/schemaManager';
+
+const options = { maxValues: 20, maxRows: 1000, timeoutMs: 1000 };
+
+function setup() {
+  const catalog = createCatalog('postgres://db/app');
+  catalog.schemaMap = { 'public.accounts': [{ columnName: 'status', dataType: 'text' } as any] };
+  catalog.tableSizeCache = { 'public.accounts': 104 };
+  const adapter = {
+    type: 'postgres',
+    execute: async () => [{ value: 'open', occurrences: '100' }, { value: 'frozen', occurrences: '3' }, { value: 'closed', occurrences: 1 }],
+  } as any;
+  return { catalog, adapter };
+}
+
+describe('loadValueCatalog', () => {
+  it('records every observed value', async () => {
+    const { catalog, adapter } = setup();
+    await loadValueCatalog(adapter, {}, {} as any, catalog, options, undefined);
+    expect(catalog.schemaMap['public.accounts'][0]).toMatchObject({ enumValues: ['closed', 'frozen', 'open'], enumSource: 'observed' });
+  });
+
+  it('leaves out values rarer than the minimum group size in aggregate-only mode', async () => {
+    const { catalog, adapter } = setup();
+    await loadValueCatalog(adapter, {}, {} as any, catalog, options, { minGroupSize: 5 });
+    expect((catalog.schemaMap['public.accounts'][0] as any).enumValues).toEqual(['open']);
+  });
+});
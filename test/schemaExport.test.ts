@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { columnType, formatSchema, groupIndexes } from "../src/schemaExport";
+
+const maps = {
+  schemaMap: {
+    customers: [
+      { columnName: "id", dataType: "integer", isNullable: "NO" },
+      { columnName: "email", dataType: "varchar", charMaxLength: 255, isNullable: "YES", description: "login" },
+    ],
+    orders: [
+      { columnName: "id", dataType: "integer", isNullable: "NO" },
+      { columnName: "customer_id", dataType: "integer", isNullable: "NO" },
+      { columnName: "total", dataType: "numeric", numericPrecision: 10, numericScale: 2, isNullable: "YES" },
+    ],
+  },
+  indexMap: {
+    customers: [{ indexName: "customers_pkey", columnName: "id", nonUnique: 0, seqInIndex: 1 }],
+    orders: [
+      { indexName: "orders_pkey", columnName: "id", nonUnique: 0, seqInIndex: 1 },
+      { indexName: "orders_customer_total", columnName: "total", nonUnique: 1, seqInIndex: 2 },
+      { indexName: "orders_customer_total", columnName: "customer_id", nonUnique: 1, seqInIndex: 1 },
+    ],
+  },
+  relationshipMap: {
+    orders: [{ fromTable: "orders", fromColumns: ["customer_id"], toTable: "customers", toColumns: ["id"], constraintName: "orders_customer_fk", source: "foreign_key" as const }],
+  },
+};
+
+describe("columnType", () => {
+  it("adds length and precision", () => {
+    expect(columnType({ dataType: "varchar", charMaxLength: 20 })).toBe("varchar(20)");
+    expect(columnType({ dataType: "numeric", numericPrecision: 10, numericScale: 2 })).toBe("numeric(10,2)");
+    expect(columnType({ dataType: "varchar(20)", charMaxLength: 20 })).toBe("varchar(20)");
+  });
+});
+
+describe("groupIndexes", () => {
+  it("groups per-column entries in key order", () => {
+    expect(groupIndexes(maps.indexMap.orders)).toEqual([
+      { name: "orders_pkey", columns: ["id"], unique: true },
+      { name: "orders_customer_total", columns: ["customer_id", "total"], unique: false },
+    ]);
+  });
+
+  it("keeps MongoDB indexes whole", () => {
+    expect(groupIndexes([{ indexName: "a_1_b_1", fields: ["a", "b"], unique: true }])).toEqual([{ name: "a_1_b_1", columns: ["a", "b"], unique: true }]);
+  });
+});
+
+describe("formatSchema", () => {
+  it("renders Postgres DDL with keys, indexes, comments and foreign keys", () => {
+    const ddl = formatSchema("ddl", maps, "postgres");
+    expect(ddl).toContain('CREATE TABLE "orders" (\n  "id" integer NOT NULL,\n  "customer_id" integer NOT NULL,\n  "total" numeric(10,2),\n  PRIMARY KEY ("id")\n);');
+    expect(ddl).toContain('CREATE INDEX "orders_customer_total" ON "orders" ("customer_id", "total");');
+    expect(ddl).toContain(`COMMENT ON COLUMN "customers"."email" IS 'login';`);
+    expect(ddl).toContain('ALTER TABLE "orders" ADD CONSTRAINT "orders_customer_fk" FOREIGN KEY ("customer_id") REFERENCES "customers" ("id");');
+  });
+
+  it("refuses DDL for MongoDB", () => {
+    expect(() => formatSchema("ddl", maps, "mongodb")).toThrow(/not available for MongoDB/);
+  });
+
+  it("renders DBML and Mermaid references", () => {
+    expect(formatSchema("dbml", maps, "postgres")).toContain("Ref orders_customer_fk: orders.customer_id > customers.id");
+    const mermaid = formatSchema("mermaid", maps, "postgres");
+    expect(mermaid).toContain("    integer customer_id FK");
+    expect(mermaid).toContain('  customers ||--o{ orders : "customer_id"');
+  });
+
+  it("renders JSON Schema with nullability and lengths", () => {
+    const schema = JSON.parse(formatSchema("json-schema", maps, "postgres").replace(/^```json\n|\n```$/g, ""));
+    expect(schema.customers.required).toEqual(["id"]);
+    expect(schema.customers.properties.email).toEqual({ type: ["string", "null"], maxLength: 255, description: "login" });
+    expect(schema.orders.properties.total.type).toEqual(["number", "null"]);
+  });
+
+  it("nests sampled MongoDB paths", () => {
+    const schema = JSON.parse(formatSchema("json-schema", {
+      schemaMap: { people: [{ columnName: "address.city", dataType: "string" }, { columnName: "tags[0]", dataType: "string" }] },
+    }, "mongodb").replace(/^```json\n|\n```$/g, ""));
+    expect(schema.people.properties.address).toEqual({ type: "object", properties: { city: { type: "string" } } });
+    expect(schema.people.properties.tags).toEqual({ type: "array", items: { type: "string" } });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { diffSchemas, schemaDiffToMarkdown } from "../src/schemaSnapshots";
+
+const column = (columnName: string, dataType = "integer", isNullable = "NO") => ({ columnName, dataType, isNullable });
+
+describe("diffSchemas", () => {
+  it("reports added, removed and renamed tables", () => {
+    const diff = diffSchemas(
+      { schemaMap: { people: [column("id"), column("name", "text")], logs: [column("id"), column("line", "text")] }, indexMap: {}, relationshipMap: {} },
+      { schemaMap: { persons: [column("id"), column("name", "text")], events: [column("id")] }, indexMap: {}, relationshipMap: {} },
+      "before",
+      "after"
+    );
+    expect(diff.renamedTables).toEqual([{ from: "people", to: "persons" }]);
+    expect(diff.addedTables).toEqual(["events"]);
+    expect(diff.removedTables).toEqual(["logs"]);
+  });
+
+  it("reports column and index changes of a table", () => {
+    const diff = diffSchemas(
+      {
+        schemaMap: { orders: [column("id"), column("total", "numeric"), column("note", "text"), column("legacy", "text")] },
+        indexMap: { orders: [{ indexName: "orders_total", columnName: "total", nonUnique: 1 }, { indexName: "old_idx", columnName: "note", nonUnique: 1 }] },
+        relationshipMap: {},
+      },
+      {
+        schemaMap: { orders: [column("id"), column("total", "bigint"), column("note", "text", "YES"), column("comment", "varchar")] },
+        indexMap: { orders: [{ indexName: "orders_total", columnName: "total", nonUnique: 0 }, { indexName: "new_idx", columnName: "note", nonUnique: 1 }] },
+        relationshipMap: {},
+      },
+      "before",
+      "live"
+    );
+    expect(diff.changedTables).toEqual([{
+      table: "orders",
+      columns: [
+        { column: "comment", change: "added", to: "varchar" },
+        { column: "legacy", change: "removed", from: "text" },
+        { column: "total", change: "type", from: "numeric", to: "bigint" },
+        { column: "note", change: "nullability", from: "not null", to: "nullable" },
+      ],
+      indexes: [
+        { index: "new_idx", change: "renamed", from: "old_idx", to: "new_idx" },
+        { index: "orders_total", change: "changed", from: "(total)", to: "(total) unique" },
+      ],
+    }]);
+  });
+
+  it("reports added and removed relationships", () => {
+    const fk = { fromTable: "orders", fromColumns: ["customer_id"], toTable: "customers", toColumns: ["id"], source: "foreign_key" as const };
+    const schemaMap = { orders: [column("id")], customers: [column("id")] };
+    const diff = diffSchemas({ schemaMap, indexMap: {}, relationshipMap: {} }, { schemaMap, indexMap: {}, relationshipMap: { orders: [fk] } }, "a", "b");
+    expect(diff.addedRelationships).toEqual([fk]);
+    expect(diff.removedRelationships).toEqual([]);
+    expect(diff.changedTables).toEqual([]);
+    expect(schemaDiffToMarkdown(diff)).toContain("### Schema changes from `a` to `b`");
+  });
+});